@@ -1,76 +1,182 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { ImageUpload } from './components/ImageUpload';
 import { ParameterControls } from './components/ParameterControls';
 import { ThreeViewer } from './components/ThreeViewer';
 import { ExportButton } from './components/ExportButton';
+import { ImageAdjustmentControls } from './components/ImageAdjustmentControls';
+import { ImagePreviewPanel } from './components/ImagePreviewPanel';
+import { ProgressBar } from './components/ProgressBar';
 import { defaultConfig, computeImageConfig } from './types/ImageConfig';
-import { processImage } from './utils/imageProcessing';
+import { packImageData, unpackGeometry, unpackImageData, unpackImageStages } from './utils/pipeline';
+import { PipelineCancelledError, PipelineClient } from './utils/pipelineClient';
+import { allWalls, layoutImages } from './utils/geometryGenerator';
+import { defaultPrinterProfile, hasErrors, validateConfig, validateGeometry } from './utils/printability';
+import { SHADOW_DIRECTIONS } from './utils/shadowSimulation';
 import type { ImageConfig } from './types/ImageConfig';
-import type { ProcessedImageData } from './utils/imageProcessing';
+import type { ProcessedImageData, ProcessedImageStages } from './utils/imageProcessing';
 import type { ShadowCasterGeometry } from './utils/geometryGenerator';
+import type { ImageCrop } from './utils/imageCrop';
+import type { PipelineProgress } from './utils/pipeline';
+import type { HeightErrorReport } from './utils/heightSolver';
+import type { PrinterProfile } from './utils/printability';
 
 function App() {
   const [config, setConfig] = useState<ImageConfig>(defaultConfig);
+  const [printer, setPrinter] = useState<PrinterProfile>(defaultPrinterProfile);
   const [horizFile, setHorizFile] = useState<File | null>(null);
   const [vertFile, setVertFile] = useState<File | null>(null);
-  const [horizImageData, setHorizImageData] = useState<ProcessedImageData | null>(null);
-  const [vertImageData, setVertImageData] = useState<ProcessedImageData | null>(null);
+  const [rightFile, setRightFile] = useState<File | null>(null);
+  const [downFile, setDownFile] = useState<File | null>(null);
+  const [horizGrayscale, setHorizGrayscale] = useState<ProcessedImageData | null>(null);
+  const [vertGrayscale, setVertGrayscale] = useState<ProcessedImageData | null>(null);
+  const [rightGrayscale, setRightGrayscale] = useState<ProcessedImageData | null>(null);
+  const [downGrayscale, setDownGrayscale] = useState<ProcessedImageData | null>(null);
+  const [horizStages, setHorizStages] = useState<ProcessedImageStages | null>(null);
+  const [vertStages, setVertStages] = useState<ProcessedImageStages | null>(null);
+  const [rightStages, setRightStages] = useState<ProcessedImageStages | null>(null);
+  const [downStages, setDownStages] = useState<ProcessedImageStages | null>(null);
   const [geometry, setGeometry] = useState<ShadowCasterGeometry | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [heightReport, setHeightReport] = useState<HeightErrorReport | null>(null);
+  const [progress, setProgress] = useState<PipelineProgress | null>(null);
   const [viewerEnabled, setViewerEnabled] = useState(true);
+  const [pipeline] = useState(() => new PipelineClient());
+  // Separate so a parameter change that reprocesses can't cancel a load
+  const [loader] = useState(() => new PipelineClient());
 
-  const computedConfig = computeImageConfig(config);
+  const computedConfig = useMemo(() => computeImageConfig(config), [config]);
+  const isProcessing = progress !== null;
+  // Which of the right and down images the layout can cast
+  const extraImages = layoutImages(config);
+  // Settings with errors aren't processed, so the model on show may be from
+  // the last good ones
+  const configIssues = useMemo(() => validateConfig(computedConfig, printer), [computedConfig, printer]);
+  const configValid = !hasErrors(configIssues);
+  // The image names are only recorded in exported files, so they're added
+  // here rather than kept in config, where a new name would rebuild the model
+  const exportConfig = useMemo(() => ({
+    ...computedConfig,
+    horizImageFilename: horizFile?.name ?? computedConfig.horizImageFilename,
+    vertImageFilename: vertFile?.name ?? computedConfig.vertImageFilename,
+    rightImageFilename: rightFile?.name ?? computedConfig.rightImageFilename,
+    downImageFilename: downFile?.name ?? computedConfig.downImageFilename
+  }), [computedConfig, horizFile, vertFile, rightFile, downFile]);
+  const issues = useMemo(
+    () => geometry && configValid ? [...configIssues, ...validateGeometry(geometry, printer)] : configIssues,
+    [configIssues, configValid, geometry, printer]
+  );
 
   const handleImagesSelected = (horiz: File | null, vert: File | null) => {
     setHorizFile(horiz);
     setVertFile(vert);
   };
 
-  const handleGeometryReady = useCallback((newGeometry: ShadowCasterGeometry) => {
-    setGeometry(newGeometry);
+  const handleCropChange = useCallback((horizCrop: ImageCrop, vertCrop: ImageCrop) => {
+    setConfig(c => ({ ...c, horizCrop, vertCrop }));
+  }, []);
+
+  const handleRightCropChange = useCallback((rightCrop: ImageCrop) => {
+    setConfig(c => ({ ...c, rightCrop }));
   }, []);
 
-  // Invalidate cached geometry when inputs change while viewer is disabled
-  // This prevents stale geometry from being exported with wrong config
+  const handleDownCropChange = useCallback((downCrop: ImageCrop) => {
+    setConfig(c => ({ ...c, downCrop }));
+  }, []);
+
+  useEffect(() => () => pipeline.dispose(), [pipeline]);
+  useEffect(() => () => loader.dispose(), [loader]);
+
+  const { widthInPixels, horizCrop, vertCrop, rightCrop, downCrop, cropAspectRatio, resampleFilter } = computedConfig;
+
+  // Images the layout can't cast stay selected but aren't loaded
+  const castRightFile = extraImages.right ? rightFile : null;
+  const castDownFile = extraImages.down ? downFile : null;
+
+  // Decode, crop and resize the images in the worker. Only the settings that
+  // affect the grayscale grids trigger a reload.
   useEffect(() => {
-    if (!viewerEnabled) {
-      setGeometry(null);
+    if (!horizFile && !vertFile && !castRightFile && !castDownFile) {
+      loader.cancel();
+      setHorizGrayscale(null);
+      setVertGrayscale(null);
+      setRightGrayscale(null);
+      setDownGrayscale(null);
+      return;
+    }
+    if (!configValid) {
+      return;
     }
-  }, [config, horizImageData, vertImageData]);
-  // Note: viewerEnabled is intentionally NOT in deps - we only clear when inputs change
 
-  // Process images when files or config changes
-  useEffect(() => {
-    const processImages = async () => {
-      if (!horizFile && !vertFile) {
-        setHorizImageData(null);
-        setVertImageData(null);
-        return;
+    const loadImages = async () => {
+      try {
+        const loaded = await loader.load({
+          horiz: horizFile,
+          vert: vertFile,
+          right: castRightFile,
+          down: castDownFile,
+          config: { widthInPixels, horizCrop, vertCrop, rightCrop, downCrop, cropAspectRatio, resampleFilter }
+        }, setProgress);
+
+        setHorizGrayscale(loaded.horiz && unpackImageData(loaded.horiz));
+        setVertGrayscale(loaded.vert && unpackImageData(loaded.vert));
+        setRightGrayscale(loaded.right && unpackImageData(loaded.right));
+        setDownGrayscale(loaded.down && unpackImageData(loaded.down));
+      } catch (error) {
+        if (error instanceof PipelineCancelledError) return;
+        console.error('Error loading images:', error);
+        setProgress(null);
       }
+    };
+
+    loadImages();
+  }, [
+    loader, configValid, horizFile, vertFile, castRightFile, castDownFile,
+    widthInPixels, horizCrop, vertCrop, rightCrop, downCrop, cropAspectRatio, resampleFilter
+  ]);
+
+  // Dither the images and build the model in the worker. A new run cancels
+  // the one in flight, so dragging a slider never queues up stale work.
+  useEffect(() => {
+    if (!horizGrayscale && !vertGrayscale && !rightGrayscale && !downGrayscale) {
+      pipeline.cancel();
+      setHorizStages(null);
+      setVertStages(null);
+      setRightStages(null);
+      setDownStages(null);
+      setGeometry(null);
+      setHeightReport(null);
+      setProgress(null);
+      return;
+    }
+    if (!configValid) {
+      return;
+    }
 
-      setIsProcessing(true);
+    const runPipeline = async () => {
       try {
-        const horizPromise = horizFile 
-          ? processImage(horizFile, computedConfig.widthInPixels, computedConfig.numberOfColors)
-          : Promise.resolve(null);
-        
-        const vertPromise = vertFile 
-          ? processImage(vertFile, computedConfig.widthInPixels, computedConfig.numberOfColors)
-          : Promise.resolve(null);
-
-        const [horizData, vertData] = await Promise.all([horizPromise, vertPromise]);
-        
-        setHorizImageData(horizData);
-        setVertImageData(vertData);
+        const result = await pipeline.process({
+          horiz: horizGrayscale && packImageData(horizGrayscale),
+          vert: vertGrayscale && packImageData(vertGrayscale),
+          right: rightGrayscale && packImageData(rightGrayscale),
+          down: downGrayscale && packImageData(downGrayscale),
+          config: computedConfig
+        }, setProgress);
+
+        setHorizStages(result.horizStages && unpackImageStages(result.horizStages));
+        setVertStages(result.vertStages && unpackImageStages(result.vertStages));
+        setRightStages(result.rightStages && unpackImageStages(result.rightStages));
+        setDownStages(result.downStages && unpackImageStages(result.downStages));
+        setGeometry(unpackGeometry(result.geometry));
+        setHeightReport(result.heightReport);
+        setProgress(null);
       } catch (error) {
+        if (error instanceof PipelineCancelledError) return;
         console.error('Error processing images:', error);
-      } finally {
-        setIsProcessing(false);
+        setProgress(null);
       }
     };
 
-    processImages();
-  }, [horizFile, vertFile, computedConfig.widthInPixels, computedConfig.numberOfColors]);
+    runPipeline();
+  }, [pipeline, configValid, horizGrayscale, vertGrayscale, rightGrayscale, downGrayscale, computedConfig]);
 
   return (
     <div className="min-h-screen bg-gray-100 p-4">
@@ -88,12 +194,60 @@ function App() {
               onImagesSelected={handleImagesSelected}
               horizFile={horizFile}
               vertFile={vertFile}
+              horizCrop={config.horizCrop}
+              vertCrop={config.vertCrop}
+              cropAspectRatio={config.cropAspectRatio}
+              onCropChange={handleCropChange}
+              onCropAspectRatioChange={cropAspectRatio => setConfig(c => ({ ...c, cropAspectRatio }))}
+              onRightImageSelected={extraImages.right ? setRightFile : undefined}
+              rightFile={rightFile}
+              rightCrop={config.rightCrop}
+              onRightCropChange={handleRightCropChange}
+              onDownImageSelected={extraImages.down ? setDownFile : undefined}
+              downFile={downFile}
+              downCrop={config.downCrop}
+              onDownCropChange={handleDownCropChange}
             />
             
             <ParameterControls
               config={config}
               onChange={setConfig}
+              printer={printer}
+              onPrinterChange={setPrinter}
+              issues={issues}
             />
+
+            {horizFile && (
+              <ImageAdjustmentControls
+                title="Horizontal Image Adjustments"
+                adjustments={config.horizAdjustments}
+                onChange={horizAdjustments => setConfig(c => ({ ...c, horizAdjustments }))}
+              />
+            )}
+
+            {vertFile && (
+              <ImageAdjustmentControls
+                title="Vertical Image Adjustments"
+                adjustments={config.vertAdjustments}
+                onChange={vertAdjustments => setConfig(c => ({ ...c, vertAdjustments }))}
+              />
+            )}
+
+            {extraImages.right && rightFile && (
+              <ImageAdjustmentControls
+                title="Right Image Adjustments"
+                adjustments={config.rightAdjustments}
+                onChange={rightAdjustments => setConfig(c => ({ ...c, rightAdjustments }))}
+              />
+            )}
+
+            {extraImages.down && downFile && (
+              <ImageAdjustmentControls
+                title="Down Image Adjustments"
+                adjustments={config.downAdjustments}
+                onChange={downAdjustments => setConfig(c => ({ ...c, downAdjustments }))}
+              />
+            )}
           </div>
 
           <div className="space-y-6">
@@ -113,41 +267,64 @@ function App() {
               </div>
               <div className="aspect-square bg-gray-200 rounded relative">
                 <ThreeViewer
-                  horizImageData={horizImageData}
-                  vertImageData={vertImageData}
-                  config={computedConfig}
-                  onGeometryReady={handleGeometryReady}
+                  geometry={geometry}
                   enabled={viewerEnabled}
+                  layout={computedConfig.layout}
+                  elevations={computedConfig}
                 />
-                {isProcessing && (
-                  <div className="absolute inset-0 bg-white bg-opacity-75 flex items-center justify-center rounded">
-                    <div className="text-lg">Processing images...</div>
-                  </div>
-                )}
+                {progress && <ProgressBar progress={progress} />}
               </div>
             </div>
 
             <ExportButton
               geometry={geometry}
-              config={computedConfig}
+              config={exportConfig}
               disabled={isProcessing}
-              horizImageData={horizImageData}
-              vertImageData={vertImageData}
+              issues={issues}
             />
           </div>
         </div>
 
-        {(horizFile || vertFile) && (
+        <div className="mt-6">
+          <ImagePreviewPanel
+            horizFile={horizFile}
+            vertFile={vertFile}
+            rightFile={castRightFile}
+            downFile={castDownFile}
+            horizStages={horizStages}
+            vertStages={vertStages}
+            rightStages={rightStages}
+            downStages={downStages}
+            geometry={geometry}
+            config={computedConfig}
+          />
+        </div>
+
+        {(horizFile || vertFile || rightFile || downFile) && (
           <div className="mt-6 p-4 bg-white rounded-lg shadow">
             <h3 className="font-semibold mb-2">Status</h3>
             <div className="text-sm text-gray-600 space-y-1">
-              <p><strong>Images:</strong> {[horizFile?.name, vertFile?.name].filter(Boolean).join(', ')}</p>
+              <p><strong>Images:</strong> {[
+                horizFile?.name,
+                vertFile?.name,
+                extraImages.right ? rightFile?.name : null,
+                extraImages.down ? downFile?.name : null
+              ].filter(Boolean).join(', ')}</p>
               <p><strong>Resolution:</strong> {computedConfig.widthInPixels}px</p>
               <p><strong>Colors:</strong> {computedConfig.numberOfColors}</p>
               <p><strong>Max Height:</strong> {computedConfig.maxHeight.toFixed(2)}mm</p>
               {geometry && (
-                <p><strong>Total Walls:</strong> {geometry.leftWalls.length + geometry.upWalls.length}</p>
+                <p><strong>Total Walls:</strong> {allWalls(geometry).length}</p>
               )}
+              {heightReport && SHADOW_DIRECTIONS.map(direction => {
+                const error = heightReport[direction];
+                return error && (
+                  <p key={direction}>
+                    <strong>{direction[0].toUpperCase() + direction.slice(1)} shadow error:</strong>{' '}
+                    {error.before.toFixed(1)} → {error.after.toFixed(1)} gray levels RMS
+                  </p>
+                );
+              })}
             </div>
           </div>
         )}
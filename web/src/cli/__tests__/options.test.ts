@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { CliUsageError, formatIssue, parseCliArgs, usage } from '../options';
+import { defaultConfig, presetConfigs } from '../../types/ImageConfig';
+import { defaultExportOptions } from '../../utils/exportFormats';
+import { defaultPrinterProfile } from '../../utils/printability';
+
+describe('CLI options', () => {
+  it('should start from the default config with STL output', () => {
+    const options = parseCliArgs(['--horiz', 'images/wave.png']);
+
+    expect(options.config).toEqual({
+      ...defaultConfig,
+      horizImageFilename: 'wave.png',
+      doHorizImage: true,
+      doVertImage: false,
+      doRightImage: false,
+      doDownImage: false
+    });
+    expect(options.horizPath).toBe('images/wave.png');
+    expect(options.vertPath).toBeNull();
+    expect(options.formats).toEqual(['stl']);
+    expect(options.exportOptions).toEqual(defaultExportOptions);
+    expect(options.outDir).toBe('.');
+    expect(options.name).toBeNull();
+  });
+
+  it('should start from a named preset', () => {
+    const options = parseCliArgs(['--vert', 'fuji.jpg', '--preset', 'p3']);
+
+    expect(options.config.cellSize).toBe(presetConfigs.p3.cellSize);
+    expect(options.config.widthInPixels).toBe(presetConfigs.p3.widthInPixels);
+    expect(options.config.doHorizImage).toBe(false);
+    expect(options.config.doVertImage).toBe(true);
+  });
+
+  it('should override config fields with flags named after them', () => {
+    const options = parseCliArgs([
+      '--horiz', 'a.png',
+      '--preset', 'p2',
+      '--width-in-pixels', '120',
+      '--cell-size', '1.5',
+      '--dither-algorithm', 'atkinson',
+      '--serpentine', 'true',
+      '--merge-walls', 'no'
+    ]);
+
+    expect(options.config).toMatchObject({
+      widthInPixels: 120,
+      cellSize: 1.5,
+      wallWidth: presetConfigs.p2.wallWidth,
+      ditherAlgorithm: 'atkinson',
+      serpentine: true
+    });
+    expect(options.exportOptions.mergeWalls).toBe(false);
+  });
+
+  it('should set export options and collect formats', () => {
+    const options = parseCliArgs([
+      '--horiz', 'a.png',
+      '--format', 'stl,3MF',
+      '--format', 'scad',
+      '--format', 'stl',
+      '--use-bosl', 'false',
+      '--separate-parts', 'true'
+    ]);
+
+    expect(options.formats).toEqual(['stl', '3mf', 'scad']);
+    expect(options.exportOptions).toEqual({ ...defaultExportOptions, useBOSL: false, separateParts: true });
+  });
+
+  it('should take a printer profile and name flags in its issues', () => {
+    const options = parseCliArgs(['--horiz', 'a.png', '--nozzle-diameter', '0.6', '--bed-width', '180']);
+
+    expect(options.printer).toEqual({ ...defaultPrinterProfile, nozzleDiameter: 0.6, bedWidth: 180 });
+    expect(parseCliArgs(['--horiz', 'a.png']).printer).toEqual(defaultPrinterProfile);
+    expect(formatIssue({ severity: 'warning', field: 'wallWidth', message: 'Too thin' }))
+      .toBe('Warning: --wall-width: Too thin');
+    expect(formatIssue({ severity: 'error', message: 'Too big' })).toBe('Error: Too big');
+  });
+
+  it('should take a third image for the hex layout', () => {
+    const options = parseCliArgs(['--right', 'imgs/tree.png', '--layout', 'hex']);
+
+    expect(options.rightPath).toBe('imgs/tree.png');
+    expect(options.config).toMatchObject({
+      layout: 'hex',
+      rightImageFilename: 'tree.png',
+      doHorizImage: false,
+      doRightImage: true
+    });
+  });
+
+  it('should take four images on a square grid', () => {
+    const options = parseCliArgs(['--horiz', 'w.png', '--vert', 'n.png', '--right', 'e.png', '--down', 'imgs/s.png']);
+
+    expect(options.downPath).toBe('imgs/s.png');
+    expect(options.config).toMatchObject({
+      layout: 'square',
+      downImageFilename: 's.png',
+      doHorizImage: true,
+      doVertImage: true,
+      doRightImage: true,
+      doDownImage: true
+    });
+  });
+
+  it('should make a lithophane from the horizontal image', () => {
+    const options = parseCliArgs(['--horiz', 'moon.png', '--mode', 'lithophane', '--lithophane-shape', 'curved']);
+
+    expect(options.config).toMatchObject({ mode: 'lithophane', lithophaneShape: 'curved', doHorizImage: true });
+  });
+
+  it.each([
+    [[], 'at least one image'],
+    [['--horiz', 'a.png', '--preset', 'huge'], 'Unknown preset'],
+    [['--horiz', 'a.png', '--preset', 'constructor'], 'Unknown preset'],
+    [['--horiz', 'a.png', '--format', 'gcode'], 'Unknown format'],
+    [['--horiz', 'a.png', '--cell-size', 'wide'], 'expects a number'],
+    [['--horiz', 'a.png', '--serpentine', 'maybe'], 'expects true or false'],
+    [['--horiz', 'a.png', '--quantizer', 'octree'], 'must be one of'],
+    [['--horiz', 'a.png', '--resample-filter', 'nearest'], 'must be one of'],
+    [['--horiz', 'a.png', '--layout', 'triangle'], 'must be one of'],
+    [['--right', 'a.png', '--plus-walls', 'true'], 'can\'t be used with --plus-walls'],
+    [['--down', 'a.png', '--layout', 'hex'], 'can\'t be used with --layout hex'],
+    [['--horiz', 'a.png', '--shape', 'cylinder', '--layout', 'hex'], 'can\'t be used with --layout hex'],
+    [['--horiz', 'a.png', '--shape', 'cone'], 'must be one of'],
+    [['--horiz', 'a.png', '--vert-light-elevation', '90'], 'between 0 and 90'],
+    [['--horiz', 'a.png', '--darkness-model', 'log'], 'must be one of'],
+    [['--horiz', 'a.png', '--optimize-heights', 'true', '--plus-walls', 'true'], 'can\'t be used with --plus-walls'],
+    [['--vert', 'a.png', '--mode', 'lithophane'], 'made from the --horiz image'],
+    [['--horiz', 'a.png', '--down', 'b.png', '--mode', 'lithophane'], '--down can\'t be used with --mode lithophane'],
+    [['--horiz', 'a.png', '--mode', 'lithophane', '--lithophane-shape', 'sphere'], 'must be one of'],
+    [['--horiz', 'a.png', '--horiz-crop', '{}'], 'Unknown option'],
+    [['--horiz', 'a.png', '--do-vert-image', 'true'], 'Unknown option']
+  ])('should reject %j', (argv, message) => {
+    expect(() => parseCliArgs(argv)).toThrow(CliUsageError);
+    expect(() => parseCliArgs(argv)).toThrow(message);
+  });
+
+  it('should allow --help without images', () => {
+    expect(parseCliArgs(['--help']).help).toBe(true);
+  });
+
+  it('should list every settings flag in the usage text', () => {
+    const text = usage();
+    ['--width-in-pixels', '--layer-height', '--manifold-export', '--binary-ply', '--use-bosl', '--nozzle-diameter', '--preset', '--format']
+      .forEach(flag => expect(text).toContain(flag));
+  });
+});
@@ -0,0 +1,284 @@
+import { parseArgs } from 'node:util';
+import { basename } from 'node:path';
+import { presetConfigs } from '../types/ImageConfig';
+import { defaultExportOptions, exportFormats } from '../utils/exportFormats';
+import { ditherAlgorithmLabels } from '../utils/dithering';
+import { quantizerLabels } from '../utils/quantization';
+import { resampleFilterLabels } from '../utils/resampling';
+import { cellLayoutLabels, layoutImages, modelModeLabels, modelShapeLabels } from '../utils/geometryGenerator';
+import { lithophaneShapeLabels } from '../utils/lithophane';
+import { darknessModelLabels } from '../utils/heightModel';
+import { canOptimizeHeights } from '../utils/heightSolver';
+import { defaultPrinterProfile } from '../utils/printability';
+import type { ImageConfig } from '../types/ImageConfig';
+import type { ExportFormat, ExportOptions } from '../utils/exportFormats';
+import type { PrinterProfile, PrintabilityIssue } from '../utils/printability';
+
+export type PresetName = keyof typeof presetConfigs;
+
+export interface CliOptions {
+  config: ImageConfig;
+  horizPath: string | null;
+  vertPath: string | null;
+  rightPath: string | null;
+  downPath: string | null;
+  formats: ExportFormat[];
+  exportOptions: ExportOptions;
+  // What the model is checked against before anything is written
+  printer: PrinterProfile;
+  outDir: string;
+  // Base name for the output files instead of the computed one
+  name: string | null;
+  help: boolean;
+}
+
+// Bad command line arguments, reported with the usage text
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+type ScalarValue = string | number | boolean;
+
+// Config fields that aren't set by flags: filenames and the per-image
+// switches follow the image paths, and nested settings have no flag
+const DERIVED_FIELDS: (keyof ImageConfig)[] = [
+  'horizImageFilename',
+  'vertImageFilename',
+  'rightImageFilename',
+  'downImageFilename',
+  'doHorizImage',
+  'doVertImage',
+  'doRightImage',
+  'doDownImage'
+];
+
+// Accepted values of the string config fields
+const CHOICES: Partial<Record<keyof ImageConfig, string[]>> = {
+  ditherAlgorithm: Object.keys(ditherAlgorithmLabels),
+  quantizer: Object.keys(quantizerLabels),
+  resampleFilter: Object.keys(resampleFilterLabels),
+  layout: Object.keys(cellLayoutLabels),
+  shape: Object.keys(modelShapeLabels),
+  mode: Object.keys(modelModeLabels),
+  lithophaneShape: Object.keys(lithophaneShapeLabels),
+  darknessModel: Object.keys(darknessModelLabels)
+};
+
+// Config fields giving a light's elevation in degrees
+const ELEVATION_FIELDS: (keyof ImageConfig)[] = [
+  'horizLightElevation',
+  'vertLightElevation',
+  'rightLightElevation',
+  'downLightElevation'
+];
+
+// widthInPixels -> width-in-pixels, useBOSL -> use-bosl
+function flagName(field: string): string {
+  return field.replace(/[A-Z]+/g, letters => `-${letters.toLowerCase()}`);
+}
+
+// Every scalar field of a settings object, keyed by its flag name
+function scalarFlags<T extends object>(defaults: T, exclude: (keyof T)[] = []): Map<string, keyof T> {
+  const flags = new Map<string, keyof T>();
+  (Object.keys(defaults) as (keyof T)[]).forEach(field => {
+    if (!exclude.includes(field) && typeof defaults[field] !== 'object') {
+      flags.set(flagName(String(field)), field);
+    }
+  });
+  return flags;
+}
+
+const configFlags = scalarFlags(presetConfigs.default, DERIVED_FIELDS);
+const exportFlags = scalarFlags(defaultExportOptions);
+const printerFlags = scalarFlags(defaultPrinterProfile);
+
+function parseValue(flag: string, text: string, example: ScalarValue, choices?: string[]): ScalarValue {
+  if (typeof example === 'number') {
+    const value = Number(text);
+    if (text.trim() === '' || !Number.isFinite(value)) {
+      throw new CliUsageError(`--${flag} expects a number, got "${text}"`);
+    }
+    return value;
+  }
+  if (typeof example === 'boolean') {
+    if (['true', 'yes', 'on', '1'].includes(text)) return true;
+    if (['false', 'no', 'off', '0'].includes(text)) return false;
+    throw new CliUsageError(`--${flag} expects true or false, got "${text}"`);
+  }
+  if (choices && !choices.includes(text)) {
+    throw new CliUsageError(`--${flag} must be one of ${choices.join(', ')}, got "${text}"`);
+  }
+  return text;
+}
+
+// Apply the flags in values that belong to a settings object
+function applyFlags<T extends object>(
+  settings: T,
+  flags: Map<string, keyof T>,
+  values: Record<string, unknown>,
+  choices: Partial<Record<keyof T, string[]>> = {}
+): T {
+  const result = { ...settings };
+  flags.forEach((field, flag) => {
+    const text = values[flag];
+    if (typeof text === 'string') {
+      result[field] = parseValue(flag, text, settings[field] as ScalarValue, choices[field]) as T[keyof T];
+    }
+  });
+  return result;
+}
+
+function parseFormats(values: string[] | undefined): ExportFormat[] {
+  const formats = (values ?? ['stl']).flatMap(value => value.split(',')).map(format => format.trim().toLowerCase());
+  const known = Object.keys(exportFormats);
+  formats.forEach(format => {
+    if (!known.includes(format)) {
+      throw new CliUsageError(`Unknown format "${format}"; expected ${known.join(', ')}`);
+    }
+  });
+  return [...new Set(formats)] as ExportFormat[];
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  const settingFlags = [...configFlags.keys(), ...exportFlags.keys(), ...printerFlags.keys()];
+  let values: Record<string, unknown>;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        horiz: { type: 'string' },
+        vert: { type: 'string' },
+        right: { type: 'string' },
+        down: { type: 'string' },
+        preset: { type: 'string', default: 'default' },
+        format: { type: 'string', multiple: true },
+        'out-dir': { type: 'string', default: '.' },
+        name: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+        ...Object.fromEntries(settingFlags.map(flag => [flag, { type: 'string' as const }]))
+      },
+      strict: true
+    }));
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const help = values.help === true;
+  const horizPath = typeof values.horiz === 'string' ? values.horiz : null;
+  const vertPath = typeof values.vert === 'string' ? values.vert : null;
+  const rightPath = typeof values.right === 'string' ? values.right : null;
+  const downPath = typeof values.down === 'string' ? values.down : null;
+  if (!help && !horizPath && !vertPath && !rightPath && !downPath) {
+    throw new CliUsageError('Give at least one image with --horiz, --vert, --right or --down');
+  }
+
+  const presetName = values.preset as string;
+  if (!Object.keys(presetConfigs).includes(presetName)) {
+    throw new CliUsageError(`Unknown preset "${presetName}"; expected ${Object.keys(presetConfigs).join(', ')}`);
+  }
+  const preset: ImageConfig = { ...presetConfigs[presetName as PresetName] };
+
+  const config: ImageConfig = {
+    ...applyFlags(preset, configFlags, values, CHOICES),
+    horizImageFilename: horizPath ? basename(horizPath) : preset.horizImageFilename,
+    vertImageFilename: vertPath ? basename(vertPath) : preset.vertImageFilename,
+    rightImageFilename: rightPath ? basename(rightPath) : preset.rightImageFilename,
+    downImageFilename: downPath ? basename(downPath) : preset.downImageFilename,
+    doHorizImage: horizPath !== null,
+    doVertImage: vertPath !== null,
+    doRightImage: rightPath !== null,
+    doDownImage: downPath !== null
+  };
+  if (config.mode === 'lithophane') {
+    const others = [[vertPath, '--vert'], [rightPath, '--right'], [downPath, '--down']].filter(([path]) => path);
+    if (!horizPath && !help) {
+      throw new CliUsageError('A lithophane is made from the --horiz image');
+    }
+    if (others.length > 0) {
+      throw new CliUsageError(`${others[0][1]} can't be used with --mode lithophane`);
+    }
+  }
+  const extraImages = layoutImages(config);
+  if (rightPath && !extraImages.right) {
+    throw new CliUsageError('--right can\'t be used with --plus-walls');
+  }
+  if (downPath && !extraImages.down) {
+    throw new CliUsageError(config.layout === 'hex'
+      ? '--down can\'t be used with --layout hex'
+      : '--down can\'t be used with --plus-walls');
+  }
+  ELEVATION_FIELDS.forEach(field => {
+    const elevation = config[field] as number;
+    if (elevation <= 0 || elevation >= 90) {
+      throw new CliUsageError(`--${flagName(field)} must be between 0 and 90 degrees, got ${elevation}`);
+    }
+  });
+  if (config.optimizeHeights && !canOptimizeHeights(config)) {
+    throw new CliUsageError(config.mode === 'lithophane'
+      ? '--optimize-heights can\'t be used with --mode lithophane'
+      : config.layout === 'hex'
+        ? '--optimize-heights can\'t be used with --layout hex'
+        : '--optimize-heights can\'t be used with --plus-walls');
+  }
+  if (config.shape === 'cylinder' && config.layout === 'hex') {
+    throw new CliUsageError('--shape cylinder can\'t be used with --layout hex');
+  }
+
+  return {
+    config,
+    horizPath,
+    vertPath,
+    rightPath,
+    downPath,
+    formats: parseFormats(values.format as string[] | undefined),
+    exportOptions: applyFlags(defaultExportOptions, exportFlags, values),
+    printer: applyFlags(defaultPrinterProfile, printerFlags, values),
+    outDir: values['out-dir'] as string,
+    name: typeof values.name === 'string' ? values.name : null,
+    help
+  };
+}
+
+export function usage(): string {
+  const describe = (flags: Map<string, unknown>, defaults: Record<string, unknown>) =>
+    [...flags].map(([flag, field]) => {
+      const choices = CHOICES[field as keyof ImageConfig];
+      const detail = choices ? `${choices.join(', ')}; default` : 'default';
+      return `  --${flag} <value>`.padEnd(33) + ` (${detail} ${defaults[String(field)]})`;
+    });
+
+  return [
+    'Usage: npm run cli -- --horiz <image> [--vert <image>] [options]',
+    '',
+    'Builds a shadow caster from PNG or JPEG images and writes the model files.',
+    '',
+    'Input and output:',
+    '  --horiz <path>                  Horizontal shadow image',
+    '  --vert <path>                   Vertical shadow image',
+    '  --right <path>                  Third shadow image, lit from the right',
+    '  --down <path>                   Fourth shadow image, lit from the bottom (square layout only)',
+    `  --preset <name>                 Starting settings: ${Object.keys(presetConfigs).join(', ')} (default default)`,
+    `  --format <list>                 ${Object.keys(exportFormats).join(', ')}; repeat or comma-separate (default stl)`,
+    '  --out-dir <dir>                 Where to write the files (default .)',
+    '  --name <name>                   Output file name without extension (default from the settings)',
+    '  -h, --help                      Show this help',
+    '',
+    'Model settings, overriding the preset:',
+    ...describe(configFlags, { ...presetConfigs.default }),
+    '',
+    'Export options:',
+    ...describe(exportFlags, { ...defaultExportOptions }),
+    '',
+    'Printer, checked before writing:',
+    ...describe(printerFlags, { ...defaultPrinterProfile })
+  ].join('\n');
+}
+
+// A printability issue as a line of output, naming the flag it concerns
+export function formatIssue(issue: PrintabilityIssue): string {
+  const prefix = issue.severity === 'error' ? 'Error' : 'Warning';
+  return issue.field ? `${prefix}: --${flagName(issue.field)}: ${issue.message}` : `${prefix}: ${issue.message}`;
+}
@@ -0,0 +1,114 @@
+// Headless entry point: builds a shadow caster from image files with the same
+// processing and geometry code as the web app, and writes the model files.
+//
+//   npm run cli -- --horiz wave.png --vert fuji.jpg --preset fuji --format stl,3mf
+import { openAsBlob } from 'node:fs';
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { computeImageConfig } from '../types/ImageConfig';
+import { pureImageDecoder } from '../utils/imageDecoding';
+import { encodeExport } from '../utils/exportFormats';
+import { allWalls, calculateSceneBounds } from '../utils/geometryGenerator';
+import { loadImages, runPipeline, unpackGeometry } from '../utils/pipeline';
+import { hasErrors, validateConfig, validateGeometry } from '../utils/printability';
+import { canBuildManifoldMesh } from '../utils/manifoldMesh';
+import { SHADOW_DIRECTIONS } from '../utils/shadowSimulation';
+import { CliUsageError, formatIssue, parseCliArgs, usage } from './options';
+import type { PrintabilityIssue } from '../utils/printability';
+import type { PipelineProgress } from '../utils/pipeline';
+
+// Print the issues and say whether any of them stops the model being written
+function reportIssues(issues: PrintabilityIssue[]): boolean {
+  issues.forEach(issue => console.error(formatIssue(issue)));
+  return hasErrors(issues);
+}
+
+function logProgress({ stage, progress }: PipelineProgress): void {
+  if (progress < 1) console.error(`${stage}...`);
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${usage()}`);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    console.log(usage());
+    return 0;
+  }
+
+  const computed = computeImageConfig(options.config);
+  const config = options.name ? { ...computed, outputFilename: options.name } : computed;
+  if (reportIssues(validateConfig(config, options.printer))) {
+    return 1;
+  }
+
+  const open = async (path: string | null) => {
+    if (!path) return null;
+    // openAsBlob doesn't say which file it failed on or why, so look first
+    if (!(await stat(path)).isFile()) {
+      throw new Error(`${path} is not a file`);
+    }
+    try {
+      return await openAsBlob(path);
+    } catch {
+      throw new Error(`Unable to open ${path}`);
+    }
+  };
+  const images = await loadImages({
+    horiz: await open(options.horizPath),
+    vert: await open(options.vertPath),
+    right: await open(options.rightPath),
+    down: await open(options.downPath),
+    config
+  }, logProgress, pureImageDecoder);
+
+  const result = runPipeline({ ...images, config }, logProgress);
+  const geometry = unpackGeometry(result.geometry);
+  if (reportIssues(validateGeometry(geometry, options.printer))) {
+    return 1;
+  }
+
+  if (!canBuildManifoldMesh(config) && options.formats.some(format => format !== 'scad')) {
+    console.error('Warning: hex models and bent lithophanes are written as overlapping closed boxes, not one watertight mesh');
+  }
+
+  await mkdir(options.outDir, { recursive: true });
+  for (const format of options.formats) {
+    for (const file of encodeExport(geometry, config, format, options.exportOptions)) {
+      const path = join(options.outDir, file.filename);
+      await writeFile(path, file.data);
+      console.log(`Wrote ${path} (${file.data.length} bytes)`);
+    }
+  }
+
+  console.log(`${allWalls(geometry).length} walls, ` +
+    `${config.numberOfColors} levels, ${Math.round(calculateSceneBounds(geometry).size.x)}mm wide`);
+  const { heightReport } = result;
+  if (heightReport) {
+    SHADOW_DIRECTIONS.forEach(direction => {
+      const error = heightReport[direction];
+      if (error) {
+        console.log(`${direction} shadow error ${error.before.toFixed(1)} -> ${error.after.toFixed(1)} gray levels RMS`);
+      }
+    });
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+);
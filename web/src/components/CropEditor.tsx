@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadImageFromFile } from '../utils/imageProcessing';
+import {
+  defaultCrop,
+  drawCroppedImage,
+  fitCropToAspect,
+  transformedSize
+} from '../utils/imageCrop';
+import type { ImageCrop } from '../utils/imageCrop';
+
+interface CropEditorProps {
+  file: File;
+  crop: ImageCrop;
+  aspectRatio: number;
+  onChange: (crop: ImageCrop) => void;
+}
+
+type DragMode = 'move' | 'resize';
+
+interface DragState {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startCrop: ImageCrop;
+}
+
+const PREVIEW_WIDTH = 320;
+
+export function CropEditor({ file, crop, aspectRatio, onChange }: CropEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: HTMLImageElement | null = null;
+
+    loadImageFromFile(file)
+      .then(img => {
+        loaded = img;
+        if (!cancelled) {
+          setImage(img);
+        }
+      })
+      .catch(error => console.error('Error loading image for cropping:', error));
+
+    return () => {
+      cancelled = true;
+      if (loaded) {
+        URL.revokeObjectURL(loaded.src);
+      }
+    };
+  }, [file]);
+
+  // Keep the stored crop consistent with the shared aspect ratio
+  useEffect(() => {
+    if (!image || aspectRatio <= 0) return;
+
+    const fitted = fitCropToAspect(crop, image.width, image.height, aspectRatio);
+    const changed = Math.abs(fitted.width - crop.width) > 1e-4 ||
+      Math.abs(fitted.height - crop.height) > 1e-4;
+    if (changed) {
+      onChange(fitted);
+    }
+  }, [image, crop, aspectRatio, onChange]);
+
+  const size = image ? transformedSize(image.width, image.height, crop) : null;
+  const previewHeight = size ? Math.round(PREVIEW_WIDTH * size.height / size.width) : 0;
+
+  // Draw the whole rotated image; the crop rectangle is an overlay on top
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image || previewHeight === 0) return;
+
+    canvas.width = PREVIEW_WIDTH;
+    canvas.height = previewHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    drawCroppedImage(ctx, image, { ...crop, x: 0, y: 0, width: 1, height: 1 }, PREVIEW_WIDTH, previewHeight);
+  }, [image, crop, previewHeight]);
+
+  const update = (changes: Partial<ImageCrop>) => {
+    const next = { ...crop, ...changes };
+    onChange(image ? fitCropToAspect(next, image.width, image.height, aspectRatio) : next);
+  };
+
+  const handlePointerDown = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container || !image) return;
+
+    const rect = container.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const start = drag.startCrop;
+
+    if (drag.mode === 'move') {
+      onChange({
+        ...start,
+        x: Math.min(Math.max(start.x + dx, 0), 1 - start.width),
+        y: Math.min(Math.max(start.y + dy, 0), 1 - start.height)
+      });
+      return;
+    }
+
+    // Resize from the bottom-right corner, keeping the top-left fixed
+    let width = Math.min(Math.max(start.width + dx, 0.05), 1 - start.x);
+    let height = Math.min(Math.max(start.height + dy, 0.05), 1 - start.y);
+    if (aspectRatio > 0 && size) {
+      height = width * size.width / (size.height * aspectRatio);
+      if (start.y + height > 1) {
+        height = 1 - start.y;
+        width = height * size.height * aspectRatio / size.width;
+      }
+    }
+    onChange({ ...start, width, height });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Zoom scales the crop rectangle around its centre
+  const zoom = 1 / Math.max(crop.width, crop.height);
+  const handleZoomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newZoom = parseFloat(e.target.value) || 1;
+    const scale = zoom / newZoom;
+    const width = Math.min(crop.width * scale, 1);
+    const height = Math.min(crop.height * scale, 1);
+    update({
+      width,
+      height,
+      x: crop.x + (crop.width - width) / 2,
+      y: crop.y + (crop.height - height) / 2
+    });
+  };
+
+  // Rotating changes the shape of the image, so start with a fresh crop
+  const rotate = (turns: number) => {
+    update({
+      ...defaultCrop,
+      quarterTurns: (crop.quarterTurns + turns + 4) % 4,
+      angle: crop.angle,
+      flipHorizontal: crop.flipHorizontal,
+      flipVertical: crop.flipVertical
+    });
+  };
+
+  if (!image) {
+    return <div className="text-xs text-gray-500">Loading preview...</div>;
+  }
+
+  return (
+    <div className="space-y-2 mt-2">
+      <div
+        ref={containerRef}
+        className="relative select-none touch-none"
+        style={{ width: PREVIEW_WIDTH, height: previewHeight }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0" />
+        <div
+          data-testid="crop-rect"
+          className="absolute border-2 border-blue-500 cursor-move"
+          style={{
+            left: `${crop.x * 100}%`,
+            top: `${crop.y * 100}%`,
+            width: `${crop.width * 100}%`,
+            height: `${crop.height * 100}%`,
+            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)'
+          }}
+          onPointerDown={handlePointerDown('move')}
+        >
+          <div
+            className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-blue-500 cursor-se-resize"
+            onPointerDown={handlePointerDown('resize')}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <button onClick={() => rotate(-1)} className="px-2 py-1 border rounded bg-white hover:bg-gray-100">⟲ 90°</button>
+        <button onClick={() => rotate(1)} className="px-2 py-1 border rounded bg-white hover:bg-gray-100">⟳ 90°</button>
+        <button onClick={() => update({ flipHorizontal: !crop.flipHorizontal })} className="px-2 py-1 border rounded bg-white hover:bg-gray-100">Flip H</button>
+        <button onClick={() => update({ flipVertical: !crop.flipVertical })} className="px-2 py-1 border rounded bg-white hover:bg-gray-100">Flip V</button>
+        <button onClick={() => update(defaultCrop)} className="px-2 py-1 border rounded bg-white hover:bg-gray-100">Reset</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium mb-1">Angle ({crop.angle}°)</label>
+          <input
+            type="range"
+            min="-45"
+            max="45"
+            step="0.5"
+            value={crop.angle}
+            onChange={e => update({ angle: parseFloat(e.target.value) || 0 })}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium mb-1">Zoom ({zoom.toFixed(1)}x)</label>
+          <input
+            type="range"
+            min="1"
+            max="8"
+            step="0.1"
+            value={zoom}
+            onChange={handleZoomChange}
+            className="w-full"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
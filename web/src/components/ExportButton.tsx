@@ -1,86 +1,150 @@
-import { useState } from 'react';
-import { exportToSTL } from '../utils/stlExporter';
-import { generateShadowCasterGeometry } from '../utils/geometryGenerator';
+import { useEffect, useState } from 'react';
+import { defaultExportOptions, exportFilename, exportFormats } from '../utils/exportFormats';
+import { chooseSaveTarget, saveFiles } from '../utils/download';
+import { packGeometry } from '../utils/pipeline';
+import { allWalls, calculateSceneBounds } from '../utils/geometryGenerator';
+import { PipelineCancelledError, PipelineClient } from '../utils/pipelineClient';
+import { hasErrors } from '../utils/printability';
+import { canBuildManifoldMesh } from '../utils/manifoldMesh';
+import type { ExportFormat, ExportOptions } from '../utils/exportFormats';
+import type { SaveTarget } from '../utils/download';
 import type { ShadowCasterGeometry } from '../utils/geometryGenerator';
+import type { PrintabilityIssue } from '../utils/printability';
 import type { ComputedImageConfig } from '../types/ImageConfig';
-import type { ProcessedImageData } from '../utils/imageProcessing';
 
 interface ExportButtonProps {
   geometry: ShadowCasterGeometry | null;
   config: ComputedImageConfig;
   disabled?: boolean;
-  horizImageData: ProcessedImageData | null;
-  vertImageData: ProcessedImageData | null;
+  // Export is blocked while any of these is an error
+  issues?: PrintabilityIssue[];
 }
 
-export function ExportButton({ geometry, config, disabled, horizImageData, vertImageData }: ExportButtonProps) {
-  const [isGenerating, setIsGenerating] = useState(false);
+export function ExportButton({ geometry, config, disabled, issues = [] }: ExportButtonProps) {
+  const [format, setFormat] = useState<ExportFormat>('stl');
+  const [options, setOptions] = useState<ExportOptions>(defaultExportOptions);
+  const [generating, setGenerating] = useState(false);
+  // Separate from the processing pipeline so a parameter change can't cancel an export
+  const [exporter] = useState(() => new PipelineClient());
 
-  const handleExport = () => {
-    // If geometry is already available, use it
-    if (geometry) {
-      try {
-        exportToSTL(geometry, config);
-      } catch (error) {
-        console.error('Error exporting STL:', error);
-        alert('Error exporting STL file. Please try again.');
-      }
-      return;
-    }
+  useEffect(() => () => exporter.dispose(), [exporter]);
+
+  const filename = exportFilename(config, format);
+  const { label, mimeType } = exportFormats[format];
+
+  const setOption = (key: keyof ExportOptions) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setOptions(current => ({ ...current, [key]: e.target.checked }));
+  };
 
-    // Generate geometry on-demand if viewer was disabled
-    if (!horizImageData && !vertImageData) {
+  const handleExport = async () => {
+    if (!geometry) {
       return;
     }
 
-    setIsGenerating(true);
     try {
-      const generatedGeometry = generateShadowCasterGeometry(
-        horizImageData,
-        vertImageData,
-        config
-      );
-      exportToSTL(generatedGeometry, config);
+      // An OBJ with materials is two files that must stay side by side, so
+      // download both rather than ask where to put just one
+      const target: SaveTarget | null = format === 'obj' && options.objMaterials
+        ? { kind: 'download' }
+        : await chooseSaveTarget(filename, mimeType, `${label} file`);
+      if (!target) {
+        return;
+      }
+
+      setGenerating(true);
+      // Meshing tens of thousands of walls is slow, so encode in the worker
+      const files = await exporter.encode(packGeometry(geometry), config, format, options);
+      await saveFiles(files, target);
     } catch (error) {
-      console.error('Error generating/exporting STL:', error);
-      alert('Error exporting STL file. Please try again.');
+      if (!(error instanceof PipelineCancelledError)) {
+        console.error(`Error exporting ${label}:`, error);
+        alert(`Error exporting ${label} file. Please try again.`);
+      }
     } finally {
-      setIsGenerating(false);
+      setGenerating(false);
     }
   };
 
-  const hasImages = horizImageData || vertImageData;
-  const canExport = !disabled && hasImages;
+  const manifoldPossible = canBuildManifoldMesh(config);
+  const hasImages = geometry !== null;
+  const blocked = hasErrors(issues);
+  const canExport = !disabled && hasImages && !blocked && !generating;
+  // Width, depth and height of whatever shape was built
+  const dimensions = geometry ? calculateSceneBounds(geometry).size.toArray() : [];
+
+  // A disabled option doesn't apply, so it shows as off
+  const optionCheckbox = (key: keyof ExportOptions, text: string, optionDisabled = false) => (
+    <label className="flex items-center space-x-2 mb-3">
+      <input
+        type="checkbox"
+        checked={options[key] && !optionDisabled}
+        onChange={setOption(key)}
+        disabled={optionDisabled}
+        className="rounded"
+      />
+      <span className="text-sm">{text}</span>
+    </label>
+  );
 
   return (
     <div className="p-4 bg-white rounded-lg shadow">
       <h3 className="text-lg font-semibold mb-3">Export</h3>
 
+      <div className="mb-3">
+        <label className="block text-sm font-medium mb-1">Format</label>
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as ExportFormat)}
+          disabled={generating}
+          className="w-full p-2 border rounded"
+        >
+          {(Object.keys(exportFormats) as ExportFormat[]).map(option => (
+            <option key={option} value={option}>
+              {exportFormats[option].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!manifoldPossible && (
+        <p className="text-xs text-amber-600 mb-3">
+          Hex models and bent lithophanes can't be joined into one watertight mesh. They're exported as
+          overlapping closed boxes, which most slicers merge when slicing.
+        </p>
+      )}
+      {format === 'stl' && optionCheckbox('manifoldExport', 'Export as one watertight mesh', !manifoldPossible)}
+      {format === 'stl' && optionCheckbox(
+        'mergeWalls',
+        'Merge equal-height walls (smaller STL)',
+        options.manifoldExport && manifoldPossible
+      )}
+      {format === '3mf' && optionCheckbox('separateParts', 'Separate base and wall objects (for multi-filament)')}
+      {format === 'obj' && optionCheckbox('objMaterials', 'Colour base and walls with an MTL file')}
+      {format === 'ply' && optionCheckbox('binaryPly', 'Binary (smaller; uncheck for ASCII)')}
+      {format === 'scad' && optionCheckbox('useBOSL', 'Use the BOSL library')}
+      {format === 'scad' && optionCheckbox('mergeWalls', 'Merge equal-height walls')}
+
       <button
         onClick={handleExport}
-        disabled={!canExport || isGenerating}
+        disabled={!canExport}
         className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors"
       >
-        {isGenerating
-          ? 'Generating STL...'
+        {generating
+          ? `Generating ${label}...`
           : !hasImages
             ? 'Upload images to export'
-            : 'Download STL'}
+            : blocked
+              ? 'Fix the errors in the parameters to export'
+              : `Download ${label}`}
       </button>
 
       {geometry && (
         <div className="mt-3 text-sm text-gray-600">
-          <p><strong>File:</strong> {config.outputFilename}</p>
-          <p><strong>Walls:</strong> {geometry.leftWalls.length + geometry.upWalls.length}</p>
-          <p><strong>Dimensions:</strong> {Math.round(config.border * 2 + config.cellSize * config.widthInPixels)}mm</p>
-        </div>
-      )}
-
-      {!geometry && hasImages && (
-        <div className="mt-3 text-sm text-gray-500 italic">
-          Viewer disabled - geometry will be generated on export
+          <p><strong>File:</strong> {filename}</p>
+          <p><strong>Walls:</strong> {allWalls(geometry).length}</p>
+          <p><strong>Dimensions:</strong> {dimensions.map(d => d.toFixed(1)).join(' × ')}mm</p>
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,116 @@
+import React from 'react';
+import { defaultAdjustments } from '../utils/imageAdjustments';
+import type { ImageAdjustments } from '../utils/imageAdjustments';
+
+interface ImageAdjustmentControlsProps {
+  title: string;
+  adjustments: ImageAdjustments;
+  onChange: (adjustments: ImageAdjustments) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+function Slider({ label, value, min, max, step, onChange }: SliderProps) {
+  return (
+    <div>
+      <label className="flex justify-between text-sm font-medium mb-1">
+        <span>{label}</span>
+        <span className="text-gray-500">{value}</span>
+      </label>
+      <input
+        type="range"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={onChange}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+export function ImageAdjustmentControls({ title, adjustments, onChange }: ImageAdjustmentControlsProps) {
+  const handleChange = (field: keyof ImageAdjustments) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const value = e.target.type === 'checkbox'
+      ? (e.target as HTMLInputElement).checked
+      : e.target.type === 'range'
+      ? parseFloat(e.target.value) || 0
+      : e.target.value;
+
+    onChange({ ...adjustments, [field]: value });
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg bg-gray-50">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{title}</h3>
+        <button
+          onClick={() => onChange(defaultAdjustments)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Slider label="Brightness" value={adjustments.brightness} min={-100} max={100} step={1} onChange={handleChange('brightness')} />
+        <Slider label="Contrast" value={adjustments.contrast} min={-100} max={100} step={1} onChange={handleChange('contrast')} />
+        <Slider label="Gamma" value={adjustments.gamma} min={0.2} max={3} step={0.05} onChange={handleChange('gamma')} />
+        <div />
+        <Slider label="Black Point" value={adjustments.blackPoint} min={0} max={254} step={1} onChange={handleChange('blackPoint')} />
+        <Slider label="White Point" value={adjustments.whitePoint} min={1} max={255} step={1} onChange={handleChange('whitePoint')} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">Equalization</label>
+          <select
+            value={adjustments.equalization}
+            onChange={handleChange('equalization')}
+            className="w-full p-2 border rounded"
+          >
+            <option value="none">None</option>
+            <option value="global">Histogram</option>
+            <option value="clahe">Adaptive (CLAHE)</option>
+          </select>
+        </div>
+
+        {adjustments.equalization === 'clahe' && (
+          <Slider label="CLAHE Clip Limit" value={adjustments.claheClipLimit} min={1} max={8} step={0.5} onChange={handleChange('claheClipLimit')} />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={adjustments.autoLevels}
+            onChange={handleChange('autoLevels')}
+            className="rounded"
+          />
+          <span className="text-sm">Auto levels</span>
+        </label>
+
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={adjustments.invert}
+            onChange={handleChange('invert')}
+            className="rounded"
+          />
+          <span className="text-sm">Invert</span>
+        </label>
+      </div>
+    </div>
+  );
+}
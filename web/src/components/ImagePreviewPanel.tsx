@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { simulateShadowImage } from '../utils/shadowSimulation';
+import type { ShadowCasterGeometry } from '../utils/geometryGenerator';
+import type { ProcessedImageData, ProcessedImageStages } from '../utils/imageProcessing';
+import type { ShadowDirection } from '../utils/shadowSimulation';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+interface ImagePreviewPanelProps {
+  horizFile: File | null;
+  vertFile: File | null;
+  rightFile: File | null;
+  downFile: File | null;
+  horizStages: ProcessedImageStages | null;
+  vertStages: ProcessedImageStages | null;
+  rightStages: ProcessedImageStages | null;
+  downStages: ProcessedImageStages | null;
+  geometry: ShadowCasterGeometry | null;
+  config: ComputedImageConfig;
+}
+
+const TILE_SIZE = 160;
+
+function ProcessedImageCanvas({ imageData, label }: { imageData: ProcessedImageData; label: string }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const pixels = ctx.createImageData(imageData.width, imageData.height);
+    for (let y = 0; y < imageData.height; y++) {
+      for (let x = 0; x < imageData.width; x++) {
+        const idx = (y * imageData.width + x) * 4;
+        const gray = Math.min(Math.max(Math.round(imageData.data[y][x]), 0), 255);
+        pixels.data[idx] = gray;
+        pixels.data[idx + 1] = gray;
+        pixels.data[idx + 2] = gray;
+        pixels.data[idx + 3] = 255;
+      }
+    }
+    ctx.putImageData(pixels, 0, 0);
+  }, [imageData]);
+
+  return (
+    <figure className="text-center">
+      <canvas
+        ref={canvasRef}
+        aria-label={label}
+        className="border bg-white mx-auto"
+        style={{ width: TILE_SIZE, imageRendering: 'pixelated' }}
+      />
+      <figcaption className="text-xs text-gray-600 mt-1">{label}</figcaption>
+    </figure>
+  );
+}
+
+function SourceImage({ file }: { file: File }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  if (!url) return null;
+
+  return (
+    <figure className="text-center">
+      <img src={url} alt={file.name} className="border mx-auto" style={{ width: TILE_SIZE }} />
+      <figcaption className="text-xs text-gray-600 mt-1">Source</figcaption>
+    </figure>
+  );
+}
+
+interface PreviewRowProps {
+  title: string;
+  file: File | null;
+  stages: ProcessedImageStages;
+  shadow: ProcessedImageData | null;
+}
+
+function PreviewRow({ title, file, stages, shadow }: PreviewRowProps) {
+  return (
+    <div>
+      <h3 className="font-medium mb-2">{title}</h3>
+      <div className="flex flex-wrap gap-4 items-start">
+        {file && <SourceImage file={file} />}
+        <ProcessedImageCanvas imageData={stages.grayscale} label="Grayscale" />
+        {stages.adjusted !== stages.grayscale && (
+          <ProcessedImageCanvas imageData={stages.adjusted} label="Adjusted" />
+        )}
+        <ProcessedImageCanvas imageData={stages.dithered} label="Dithered" />
+        {shadow && <ProcessedImageCanvas imageData={shadow} label="Expected Shadow" />}
+      </div>
+    </div>
+  );
+}
+
+export function ImagePreviewPanel({
+  horizFile,
+  vertFile,
+  rightFile,
+  downFile,
+  horizStages,
+  vertStages,
+  rightStages,
+  downStages,
+  geometry,
+  config
+}: ImagePreviewPanelProps) {
+  const shadows = useMemo(() => {
+    const simulate = (direction: ShadowDirection) =>
+      geometry ? simulateShadowImage(geometry, config, direction) : null;
+    return {
+      horizontal: simulate('horizontal'),
+      vertical: simulate('vertical'),
+      right: simulate('right'),
+      down: simulate('down')
+    };
+  }, [geometry, config]);
+
+  if (!horizStages && !vertStages && !rightStages && !downStages) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow space-y-4">
+      <h2 className="text-xl font-semibold">2D Preview</h2>
+      {horizStages && (
+        <PreviewRow
+          title="Horizontal Shadow (light from the left)"
+          file={horizFile}
+          stages={horizStages}
+          shadow={shadows.horizontal}
+        />
+      )}
+      {vertStages && (
+        <PreviewRow
+          title="Vertical Shadow (light from the top)"
+          file={vertFile}
+          stages={vertStages}
+          shadow={shadows.vertical}
+        />
+      )}
+      {rightStages && (
+        <PreviewRow
+          title="Right Shadow (light from the right)"
+          file={rightFile}
+          stages={rightStages}
+          shadow={shadows.right}
+        />
+      )}
+      {downStages && (
+        <PreviewRow
+          title="Down Shadow (light from the bottom)"
+          file={downFile}
+          stages={downStages}
+          shadow={shadows.down}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,47 @@
 import React, { useCallback } from 'react';
+import { CropEditor } from './CropEditor';
+import { aspectRatioOptions, defaultCrop } from '../utils/imageCrop';
+import type { ImageCrop } from '../utils/imageCrop';
 
 interface ImageUploadProps {
   onImagesSelected: (horizFile: File | null, vertFile: File | null) => void;
   horizFile: File | null;
   vertFile: File | null;
+  horizCrop?: ImageCrop;
+  vertCrop?: ImageCrop;
+  cropAspectRatio?: number;
+  onCropChange?: (horizCrop: ImageCrop, vertCrop: ImageCrop) => void;
+  onCropAspectRatioChange?: (aspectRatio: number) => void;
+  // The third and fourth images, cast by right and down walls; each slot is
+  // shown when its handler is set
+  onRightImageSelected?: (file: File | null) => void;
+  rightFile?: File | null;
+  rightCrop?: ImageCrop;
+  onRightCropChange?: (crop: ImageCrop) => void;
+  onDownImageSelected?: (file: File | null) => void;
+  downFile?: File | null;
+  downCrop?: ImageCrop;
+  onDownCropChange?: (crop: ImageCrop) => void;
 }
 
-export function ImageUpload({ onImagesSelected, horizFile, vertFile }: ImageUploadProps) {
+export function ImageUpload({
+  onImagesSelected,
+  horizFile,
+  vertFile,
+  horizCrop = defaultCrop,
+  vertCrop = defaultCrop,
+  cropAspectRatio = 0,
+  onCropChange,
+  onCropAspectRatioChange,
+  onRightImageSelected,
+  rightFile = null,
+  rightCrop = defaultCrop,
+  onRightCropChange,
+  onDownImageSelected,
+  downFile = null,
+  downCrop = defaultCrop,
+  onDownCropChange
+}: ImageUploadProps) {
   const handleHorizChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0] || null;
     onImagesSelected(file, vertFile);
@@ -17,6 +52,24 @@ export function ImageUpload({ onImagesSelected, horizFile, vertFile }: ImageUplo
     onImagesSelected(horizFile, file);
   }, [onImagesSelected, horizFile]);
 
+  const handleRightChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    onRightImageSelected?.(e.target.files?.[0] || null);
+  }, [onRightImageSelected]);
+
+  const handleDownChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    onDownImageSelected?.(e.target.files?.[0] || null);
+  }, [onDownImageSelected]);
+
+  const imageCount = 2 + (onRightImageSelected ? 1 : 0) + (onDownImageSelected ? 1 : 0);
+
+  const handleHorizCropChange = useCallback((crop: ImageCrop) => {
+    onCropChange?.(crop, vertCrop);
+  }, [onCropChange, vertCrop]);
+
+  const handleVertCropChange = useCallback((crop: ImageCrop) => {
+    onCropChange?.(horizCrop, crop);
+  }, [onCropChange, horizCrop]);
+
   return (
     <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
       <h2 className="text-lg font-semibold">Upload Images</h2>
@@ -36,6 +89,14 @@ export function ImageUpload({ onImagesSelected, horizFile, vertFile }: ImageUplo
           {horizFile && (
             <p className="text-xs text-gray-600 mt-1">Selected: {horizFile.name}</p>
           )}
+          {horizFile && onCropChange && (
+            <CropEditor
+              file={horizFile}
+              crop={horizCrop}
+              aspectRatio={cropAspectRatio}
+              onChange={handleHorizCropChange}
+            />
+          )}
         </div>
 
         <div>
@@ -52,11 +113,90 @@ export function ImageUpload({ onImagesSelected, horizFile, vertFile }: ImageUplo
           {vertFile && (
             <p className="text-xs text-gray-600 mt-1">Selected: {vertFile.name}</p>
           )}
+          {vertFile && onCropChange && (
+            <CropEditor
+              file={vertFile}
+              crop={vertCrop}
+              aspectRatio={cropAspectRatio}
+              onChange={handleVertCropChange}
+            />
+          )}
         </div>
+
+        {onRightImageSelected && (
+          <div>
+            <label htmlFor="right-image" className="block text-sm font-medium mb-1">
+              Right Shadow Image
+            </label>
+            <input
+              id="right-image"
+              type="file"
+              accept="image/*"
+              onChange={handleRightChange}
+              className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+            {rightFile && (
+              <p className="text-xs text-gray-600 mt-1">Selected: {rightFile.name}</p>
+            )}
+            {rightFile && onRightCropChange && (
+              <CropEditor
+                file={rightFile}
+                crop={rightCrop}
+                aspectRatio={cropAspectRatio}
+                onChange={onRightCropChange}
+              />
+            )}
+          </div>
+        )}
+
+        {onDownImageSelected && (
+          <div>
+            <label htmlFor="down-image" className="block text-sm font-medium mb-1">
+              Down Shadow Image
+            </label>
+            <input
+              id="down-image"
+              type="file"
+              accept="image/*"
+              onChange={handleDownChange}
+              className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+            {downFile && (
+              <p className="text-xs text-gray-600 mt-1">Selected: {downFile.name}</p>
+            )}
+            {downFile && onDownCropChange && (
+              <CropEditor
+                file={downFile}
+                crop={downCrop}
+                aspectRatio={cropAspectRatio}
+                onChange={onDownCropChange}
+              />
+            )}
+          </div>
+        )}
+
+        {onCropAspectRatioChange && (
+          <div>
+            <label htmlFor="crop-aspect" className="block text-sm font-medium mb-1">
+              Shared Aspect Ratio
+            </label>
+            <select
+              id="crop-aspect"
+              value={cropAspectRatio}
+              onChange={e => onCropAspectRatioChange(parseFloat(e.target.value) || 0)}
+              className="w-full p-2 border rounded"
+            >
+              {aspectRatioOptions.map(option => (
+                <option key={option.label} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">Crops all images to the same shape so the base stays even</p>
+          </div>
+        )}
       </div>
 
       <div className="text-sm text-gray-600">
-        <p>• Upload 1-2 images for different shadow directions</p>
+        <p>• Upload 1-{imageCount} images for different shadow directions</p>
         <p>• Images will be automatically resized and converted to grayscale</p>
         <p>• Supported formats: JPG, PNG, GIF, WebP</p>
       </div>
@@ -1,13 +1,47 @@
 import React from 'react';
 import { presetConfigs } from '../types/ImageConfig';
 import type { ImageConfig } from '../types/ImageConfig';
+import { ditherAlgorithmLabels, isDiffusionAlgorithm } from '../utils/dithering';
+import type { DitherAlgorithm } from '../utils/dithering';
+import { quantizerLabels } from '../utils/quantization';
+import type { QuantizerAlgorithm } from '../utils/quantization';
+import { resampleFilterLabels } from '../utils/resampling';
+import type { ResampleFilter } from '../utils/resampling';
+import { cellLayoutLabels, layoutImages, modelModeLabels, modelShapeLabels } from '../utils/geometryGenerator';
+import type { CellLayout, ModelMode, ModelShape } from '../utils/geometryGenerator';
+import { lithophaneShapeLabels } from '../utils/lithophane';
+import type { LithophaneShape } from '../utils/lithophane';
+import { darknessModelLabels } from '../utils/heightModel';
+import type { DarknessModel } from '../utils/heightModel';
+import { canOptimizeHeights } from '../utils/heightSolver';
+import { MAX_WIDTH_IN_PIXELS, issuesFor } from '../utils/printability';
+import type { PrinterProfile, PrintabilityIssue } from '../utils/printability';
 
 interface ParameterControlsProps {
   config: ImageConfig;
   onChange: (config: ImageConfig) => void;
+  printer: PrinterProfile;
+  onPrinterChange: (printer: PrinterProfile) => void;
+  // Problems found with the settings and the model, shown by their controls
+  issues?: PrintabilityIssue[];
 }
 
-export function ParameterControls({ config, onChange }: ParameterControlsProps) {
+function IssueList({ issues }: { issues: PrintabilityIssue[] }) {
+  return (
+    <>
+      {issues.map(issue => (
+        <p
+          key={issue.message}
+          className={`text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+        >
+          {issue.message}
+        </p>
+      ))}
+    </>
+  );
+}
+
+export function ParameterControls({ config, onChange, printer, onPrinterChange, issues = [] }: ParameterControlsProps) {
   const handleChange = (field: keyof ImageConfig) => (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
   ) => {
@@ -20,6 +54,15 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
     onChange({ ...config, [field]: value });
   };
 
+  const handlePrinterChange = (field: keyof PrinterProfile) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    onPrinterChange({ ...printer, [field]: parseFloat(e.target.value) || 0 });
+  };
+
+  const fieldIssues = (field: keyof ImageConfig) => <IssueList issues={issuesFor(issues, field)} />;
+
+  const extraImages = layoutImages(config);
+  const lithophane = config.mode === 'lithophane';
+
   const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const presetName = e.target.value as keyof typeof presetConfigs;
     if (presetName && presetConfigs[presetName]) {
@@ -45,6 +88,73 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
         </select>
       </div>
 
+      <div>
+        <label className="block text-sm font-medium mb-1">Model</label>
+        <select
+          value={config.mode}
+          onChange={handleChange('mode')}
+          className="w-full p-2 border rounded"
+        >
+          {(Object.keys(modelModeLabels) as ModelMode[]).map(mode => (
+            <option key={mode} value={mode}>
+              {modelModeLabels[mode]}
+            </option>
+          ))}
+        </select>
+        {lithophane && (
+          <p className="text-xs text-gray-500">Made from the horizontal image; thicker where it is darker</p>
+        )}
+      </div>
+
+      {lithophane && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Lithophane Shape</label>
+            <select
+              value={config.lithophaneShape}
+              onChange={handleChange('lithophaneShape')}
+              className="w-full p-2 border rounded"
+            >
+              {(Object.keys(lithophaneShapeLabels) as LithophaneShape[]).map(shape => (
+                <option key={shape} value={shape}>
+                  {lithophaneShapeLabels[shape]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Max Thickness (mm)</label>
+            <input
+              type="number"
+              value={config.lithophaneThickness}
+              onChange={handleChange('lithophaneThickness')}
+              className="w-full p-2 border rounded"
+              min="0.5"
+              step="0.1"
+            />
+            {fieldIssues('lithophaneThickness')}
+            <p className="text-xs text-gray-500">White is Bottom Thickness thick</p>
+          </div>
+
+          {config.lithophaneShape === 'curved' && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Curve (°)</label>
+              <input
+                type="number"
+                value={config.lithophaneArc}
+                onChange={handleChange('lithophaneArc')}
+                className="w-full p-2 border rounded"
+                min="10"
+                max="350"
+                step="5"
+              />
+              {fieldIssues('lithophaneArc')}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium mb-1">Width (pixels)</label>
@@ -54,9 +164,10 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
             onChange={handleChange('widthInPixels')}
             className="w-full p-2 border rounded"
             min="10"
-            max="200"
+            max={MAX_WIDTH_IN_PIXELS}
             step="1"
           />
+          {fieldIssues('widthInPixels')}
           <p className="text-xs text-gray-500">Higher values = longer render times</p>
         </div>
 
@@ -70,6 +181,7 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
             min="0.1"
             step="0.1"
           />
+          {fieldIssues('cellSize')}
         </div>
 
         <div>
@@ -82,6 +194,7 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
             min="0.1"
             step="0.05"
           />
+          {fieldIssues('wallWidth')}
         </div>
 
         <div>
@@ -94,6 +207,7 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
             min="0.1"
             step="0.1"
           />
+          {fieldIssues('bottomThk')}
         </div>
 
         <div>
@@ -106,6 +220,7 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
             min="0.01"
             step="0.01"
           />
+          {fieldIssues('layerHeight')}
         </div>
 
         <div>
@@ -118,9 +233,185 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
             min="0"
             step="1"
           />
+          {fieldIssues('numberOfColorsOverride')}
         </div>
       </div>
 
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">Horizontal Light Elevation (°)</label>
+          <input
+            type="number"
+            value={config.horizLightElevation}
+            onChange={handleChange('horizLightElevation')}
+            className="w-full p-2 border rounded"
+            min="5"
+            max="85"
+            step="1"
+          />
+          {fieldIssues('horizLightElevation')}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Vertical Light Elevation (°)</label>
+          <input
+            type="number"
+            value={config.vertLightElevation}
+            onChange={handleChange('vertLightElevation')}
+            className="w-full p-2 border rounded"
+            min="5"
+            max="85"
+            step="1"
+          />
+          {fieldIssues('vertLightElevation')}
+        </div>
+
+        {extraImages.right && (
+          <div>
+            <label className="block text-sm font-medium mb-1">Right Light Elevation (°)</label>
+            <input
+              type="number"
+              value={config.rightLightElevation}
+              onChange={handleChange('rightLightElevation')}
+              className="w-full p-2 border rounded"
+              min="5"
+              max="85"
+              step="1"
+            />
+            {fieldIssues('rightLightElevation')}
+          </div>
+        )}
+
+        {extraImages.down && (
+          <div>
+            <label className="block text-sm font-medium mb-1">Down Light Elevation (°)</label>
+            <input
+              type="number"
+              value={config.downLightElevation}
+              onChange={handleChange('downLightElevation')}
+              className="w-full p-2 border rounded"
+              min="5"
+              max="85"
+              step="1"
+            />
+            {fieldIssues('downLightElevation')}
+          </div>
+        )}
+
+        <div className="col-span-2">
+          <label className="block text-sm font-medium mb-1">Darkness Model</label>
+          <select
+            value={config.darknessModel}
+            onChange={handleChange('darknessModel')}
+            className="w-full p-2 border rounded"
+          >
+            {(Object.keys(darknessModelLabels) as DarknessModel[]).map(model => (
+              <option key={model} value={model}>
+                {darknessModelLabels[model]}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">Steeper lights need taller walls for the same shadow</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">Resampling</label>
+          <select
+            value={config.resampleFilter}
+            onChange={handleChange('resampleFilter')}
+            className="w-full p-2 border rounded"
+          >
+            {(Object.keys(resampleFilterLabels) as ResampleFilter[]).map(filter => (
+              <option key={filter} value={filter}>
+                {resampleFilterLabels[filter]}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">How photos are shrunk to the pixel grid</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Gray Levels</label>
+          <select
+            value={config.quantizer}
+            onChange={handleChange('quantizer')}
+            className="w-full p-2 border rounded"
+          >
+            {(Object.keys(quantizerLabels) as QuantizerAlgorithm[]).map(quantizer => (
+              <option key={quantizer} value={quantizer}>
+                {quantizerLabels[quantizer]}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">Adaptive levels follow the photo's tones</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Dithering</label>
+          <select
+            value={config.ditherAlgorithm}
+            onChange={handleChange('ditherAlgorithm')}
+            className="w-full p-2 border rounded"
+          >
+            {(Object.keys(ditherAlgorithmLabels) as DitherAlgorithm[]).map(algorithm => (
+              <option key={algorithm} value={algorithm}>
+                {ditherAlgorithmLabels[algorithm]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Cell Layout</label>
+          <select
+            value={config.layout}
+            onChange={handleChange('layout')}
+            disabled={lithophane}
+            className="w-full p-2 border rounded"
+          >
+            {(Object.keys(cellLayoutLabels) as CellLayout[]).map(layout => (
+              <option key={layout} value={layout}>
+                {cellLayoutLabels[layout]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Shape</label>
+          <select
+            value={config.shape}
+            onChange={handleChange('shape')}
+            disabled={lithophane || config.layout === 'hex'}
+            className="w-full p-2 border rounded"
+          >
+            {(Object.keys(modelShapeLabels) as ModelShape[]).map(shape => (
+              <option key={shape} value={shape}>
+                {modelShapeLabels[shape]}
+              </option>
+            ))}
+          </select>
+          {config.shape === 'cylinder' && !lithophane && config.layout === 'square' && (
+            <p className="text-xs text-gray-500">
+              Light each facet from outside; a light inside the tube is blocked by the tube wall
+            </p>
+          )}
+        </div>
+
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={config.serpentine}
+            onChange={handleChange('serpentine')}
+            disabled={!isDiffusionAlgorithm(config.ditherAlgorithm)}
+            className="rounded"
+          />
+          <span className="text-sm">Serpentine scanning</span>
+        </label>
+      </div>
+
       <div className="space-y-2">
         <label className="flex items-center space-x-2">
           <input
@@ -142,6 +433,124 @@ export function ParameterControls({ config, onChange }: ParameterControlsProps)
           <span className="text-sm">Generate vertical shadows</span>
         </label>
 
+        {extraImages.right && (
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.doRightImage}
+              onChange={handleChange('doRightImage')}
+              className="rounded"
+            />
+            <span className="text-sm">Generate right shadows</span>
+          </label>
+        )}
+
+        {extraImages.down && (
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.doDownImage}
+              onChange={handleChange('doDownImage')}
+              className="rounded"
+            />
+            <span className="text-sm">Generate down shadows</span>
+          </label>
+        )}
+
+        {config.layout === 'square' && (extraImages.right || extraImages.down) && (
+          <p className="text-xs text-gray-500">
+            Right and down walls stand back to back with left and up walls and share their heights, so each pair of images is a blend of the two
+          </p>
+        )}
+
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={config.plusWalls}
+            onChange={handleChange('plusWalls')}
+            disabled={lithophane || config.layout === 'hex'}
+            className="rounded"
+          />
+          <span className="text-sm">Plus walls (walls cross mid-cell)</span>
+        </label>
+
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={config.optimizeHeights}
+            onChange={handleChange('optimizeHeights')}
+            disabled={!canOptimizeHeights(config)}
+            className="rounded"
+          />
+          <span className="text-sm">Solve wall heights together (allow for cross-shading)</span>
+        </label>
+
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Printer</h3>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Nozzle Diameter (mm)</label>
+            <input
+              type="number"
+              value={printer.nozzleDiameter}
+              onChange={handlePrinterChange('nozzleDiameter')}
+              className="w-full p-2 border rounded"
+              min="0.1"
+              step="0.05"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Min Wall Width (mm)</label>
+            <input
+              type="number"
+              value={printer.minWallWidth}
+              onChange={handlePrinterChange('minWallWidth')}
+              className="w-full p-2 border rounded"
+              min="0.1"
+              step="0.05"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Bed Width (mm)</label>
+            <input
+              type="number"
+              value={printer.bedWidth}
+              onChange={handlePrinterChange('bedWidth')}
+              className="w-full p-2 border rounded"
+              min="10"
+              step="1"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Bed Depth (mm)</label>
+            <input
+              type="number"
+              value={printer.bedDepth}
+              onChange={handlePrinterChange('bedDepth')}
+              className="w-full p-2 border rounded"
+              min="10"
+              step="1"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Max Build Height (mm)</label>
+            <input
+              type="number"
+              value={printer.maxBuildHeight}
+              onChange={handlePrinterChange('maxBuildHeight')}
+              className="w-full p-2 border rounded"
+              min="10"
+              step="1"
+            />
+          </div>
+        </div>
+        <IssueList issues={issues.filter(issue => !issue.field)} />
       </div>
     </div>
   );
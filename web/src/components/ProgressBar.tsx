@@ -0,0 +1,31 @@
+import type { PipelineProgress } from '../utils/pipeline';
+
+interface ProgressBarProps {
+  progress: PipelineProgress;
+}
+
+export function ProgressBar({ progress }: ProgressBarProps) {
+  const percent = Math.round(Math.min(Math.max(progress.progress, 0), 1) * 100);
+
+  return (
+    <div className="absolute left-2 right-2 top-2 bg-white bg-opacity-90 rounded p-2 text-sm shadow">
+      <div className="flex justify-between mb-1">
+        <span>{progress.stage}</span>
+        <span>{percent}%</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-label={progress.stage}
+        className="h-2 bg-gray-200 rounded overflow-hidden"
+      >
+        <div
+          className="h-full bg-blue-600 transition-all duration-200"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,32 +1,44 @@
-import { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three-stdlib';
 import { 
-  generateShadowCasterGeometry, 
   createThreeGeometry, 
+  updateThreeGeometry,
   calculateSceneBounds,
   disposeGroup,
   disposeMaterialCache
 } from '../utils/geometryGenerator';
-import type { ProcessedImageData } from '../utils/imageProcessing';
-import type { ComputedImageConfig } from '../types/ImageConfig';
-import type { ShadowCasterGeometry } from '../utils/geometryGenerator';
+import type { CellLayout, ShadowCasterGeometry } from '../utils/geometryGenerator';
 import { memoryMonitor } from '../utils/memoryMonitor';
+import { designLightAngles, lightPosition } from '../utils/shadowSimulation';
+import type { LightAngles, ShadowDirection } from '../utils/shadowSimulation';
+import { lightElevation } from '../utils/heightModel';
+import type { LightElevations } from '../utils/heightModel';
+import { defaultConfig } from '../types/ImageConfig';
 
 interface ThreeViewerProps {
-  horizImageData: ProcessedImageData | null;
-  vertImageData: ProcessedImageData | null;
-  config: ComputedImageConfig;
-  onGeometryReady?: (geometry: ShadowCasterGeometry) => void;
+  // Built by the pipeline worker; the viewer only turns it into meshes
+  geometry: ShadowCasterGeometry | null;
   enabled?: boolean;
+  // Sets the light directions the images are designed for
+  layout?: CellLayout;
+  // Elevation of the light each image is designed for
+  elevations?: LightElevations;
 }
 
+// Labels of the light direction buttons in shadow mode
+const LIGHT_BUTTON_LABELS: Record<ShadowDirection, string> = {
+  horizontal: 'Horizontal light',
+  vertical: 'Vertical light',
+  right: 'Right light',
+  down: 'Down light'
+};
+
 export function ThreeViewer({
-  horizImageData,
-  vertImageData,
-  config,
-  onGeometryReady,
-  enabled = true
+  geometry,
+  enabled = true,
+  layout = 'square',
+  elevations = defaultConfig
 }: ThreeViewerProps) {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -35,7 +47,18 @@ export function ThreeViewer({
   const controlsRef = useRef<OrbitControls | null>(null);
   const geometryGroupRef = useRef<THREE.Group | null>(null);
   const animationFrameRef = useRef<number | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const directionalLightRef = useRef<THREE.DirectionalLight | null>(null);
+  const ambientLightRef = useRef<THREE.AmbientLight | null>(null);
+  const orthoCameraRef = useRef<THREE.OrthographicCamera | null>(null);
+  const activeCameraRef = useRef<THREE.Camera | null>(null);
+  const boundsRef = useRef<ReturnType<typeof calculateSceneBounds> | null>(null);
+  const lightDragRef = useRef<{ x: number; y: number; angles: LightAngles } | null>(null);
+  const [boundsVersion, setBoundsVersion] = useState(0);
+  const [shadowMode, setShadowMode] = useState(false);
+  const [lightDirection, setLightDirection] = useState<ShadowDirection>('horizontal');
+  const [lightAngles, setLightAngles] = useState<LightAngles>(
+    designLightAngles('horizontal', layout, lightElevation(elevations, 'horizontal'))
+  );
 
   useEffect(() => {
     if (!mountRef.current) return;
@@ -55,6 +78,11 @@ export function ThreeViewer({
     const camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 1000);
     camera.position.set(50, 50, 50);
     cameraRef.current = camera;
+    activeCameraRef.current = camera;
+
+    // Top-down camera for shadow mode, framed once geometry is known
+    const orthoCamera = new THREE.OrthographicCamera(-50, 50, 50, -50, 0.1, 1000);
+    orthoCameraRef.current = orthoCamera;
 
     // Renderer setup
     const renderer = new THREE.WebGLRenderer({ antialias: true });
@@ -66,6 +94,7 @@ export function ThreeViewer({
     // Lighting
     const ambientLight = new THREE.AmbientLight(0x404040, 0.6);
     scene.add(ambientLight);
+    ambientLightRef.current = ambientLight;
 
     const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
     directionalLight.position.set(100, 100, 50);
@@ -73,6 +102,8 @@ export function ThreeViewer({
     directionalLight.shadow.mapSize.width = 2048;
     directionalLight.shadow.mapSize.height = 2048;
     scene.add(directionalLight);
+    scene.add(directionalLight.target);
+    directionalLightRef.current = directionalLight;
 
     // Controls
     const controls = new OrbitControls(camera, renderer.domElement);
@@ -89,7 +120,7 @@ export function ThreeViewer({
     // Animation loop - will be started by the enabled effect
     const animate = () => {
       animationFrameRef.current = requestAnimationFrame(animate);
-      renderer.render(scene, camera);
+      renderer.render(scene, activeCameraRef.current ?? camera);
     };
 
     // Start animation loop if enabled
@@ -107,6 +138,7 @@ export function ThreeViewer({
       camera.aspect = newWidth / newHeight;
       camera.updateProjectionMatrix();
       renderer.setSize(newWidth, newHeight);
+      setBoundsVersion(v => v + 1);
     };
 
     window.addEventListener('resize', handleResize);
@@ -144,60 +176,73 @@ export function ThreeViewer({
       cameraRef.current = null;
       controlsRef.current = null;
       animationFrameRef.current = null;
+      directionalLightRef.current = null;
+      ambientLightRef.current = null;
+      orthoCameraRef.current = null;
+      activeCameraRef.current = null;
     };
   }, [enabled]);
 
   useEffect(() => {
-    if (!sceneRef.current || (!horizImageData && !vertImageData)) {
+    if (!sceneRef.current) {
       return;
     }
 
-    // Skip geometry generation if viewer is disabled
+    // Clear the scene when the images are removed
+    if (!geometry) {
+      if (geometryGroupRef.current) {
+        sceneRef.current.remove(geometryGroupRef.current);
+        disposeGroup(geometryGroupRef.current);
+        geometryGroupRef.current = null;
+      }
+      return;
+    }
+
+    // Skip building meshes if viewer is disabled
     if (!enabled) {
       return;
     }
 
-    setIsLoading(true);
-    
-    // Monitor memory usage during geometry generation
+    // Monitor memory usage while building meshes
     if (process.env.NODE_ENV === 'development') {
-      memoryMonitor.logMemory('before geometry generation');
+      memoryMonitor.logMemory('before mesh creation');
     }
 
     // Check if this is first load before removing existing geometry
     const hadExistingGeometry = geometryGroupRef.current !== null;
 
-    // Remove and dispose existing geometry
-    if (geometryGroupRef.current) {
-      sceneRef.current.remove(geometryGroupRef.current);
-      disposeGroup(geometryGroupRef.current);
-      geometryGroupRef.current = null;
-    }
-
     try {
-      // Generate geometry
-      const shadowCasterGeometry = generateShadowCasterGeometry(
-        horizImageData,
-        vertImageData,
-        config
-      );
-
-      // Create Three.js objects
-      const geometryGroup = createThreeGeometry(shadowCasterGeometry);
-      geometryGroupRef.current = geometryGroup;
-
-      // Enable shadows
-      geometryGroup.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          child.castShadow = true;
-          child.receiveShadow = true;
+      // When only wall heights changed, update the instances in place
+      const updatedInPlace = geometryGroupRef.current !== null &&
+        updateThreeGeometry(geometryGroupRef.current, geometry);
+
+      if (!updatedInPlace) {
+        // Remove and dispose existing geometry
+        if (geometryGroupRef.current) {
+          sceneRef.current.remove(geometryGroupRef.current);
+          disposeGroup(geometryGroupRef.current);
+          geometryGroupRef.current = null;
         }
-      });
 
-      sceneRef.current.add(geometryGroup);
+        // Create Three.js objects
+        const geometryGroup = createThreeGeometry(geometry);
+        geometryGroupRef.current = geometryGroup;
+
+        // Enable shadows
+        geometryGroup.traverse((child) => {
+          if (child instanceof THREE.Mesh) {
+            child.castShadow = true;
+            child.receiveShadow = true;
+          }
+        });
+
+        sceneRef.current.add(geometryGroup);
+      }
 
       // Calculate bounds and adjust camera only on first geometry load
-      const bounds = calculateSceneBounds(shadowCasterGeometry);
+      const bounds = calculateSceneBounds(geometry);
+      boundsRef.current = bounds;
+      setBoundsVersion(v => v + 1);
       
       if (cameraRef.current && controlsRef.current) {
         const camera = cameraRef.current;
@@ -223,25 +268,17 @@ export function ThreeViewer({
         }
       }
 
-      // Notify parent component using useRef to avoid dependency issues
-      const currentCallback = onGeometryReady;
-      if (currentCallback) {
-        currentCallback(shadowCasterGeometry);
-      }
-
-      // Monitor memory after geometry generation
+      // Monitor memory after mesh creation
       if (process.env.NODE_ENV === 'development') {
         setTimeout(() => {
-          memoryMonitor.logMemory('after geometry generation');
+          memoryMonitor.logMemory('after mesh creation');
         }, 100);
       }
 
     } catch (error) {
-      console.error('Error generating geometry:', error);
-    } finally {
-      setIsLoading(false);
+      console.error('Error building meshes:', error);
     }
-  }, [horizImageData, vertImageData, config, enabled, onGeometryReady]);
+  }, [geometry, enabled]);
 
   // Control animation loop based on enabled state
   useEffect(() => {
@@ -255,7 +292,7 @@ export function ThreeViewer({
       // Start animation loop
       const animate = () => {
         animationFrameRef.current = requestAnimationFrame(animate);
-        renderer.render(scene, camera);
+        renderer.render(scene, activeCameraRef.current ?? camera);
       };
       animate();
     } else {
@@ -274,20 +311,162 @@ export function ThreeViewer({
     };
   }, [enabled]);
 
+  // Place the light and pick the camera for the current mode
+  useEffect(() => {
+    const light = directionalLightRef.current;
+    const ambient = ambientLightRef.current;
+    const orthoCamera = orthoCameraRef.current;
+    const controls = controlsRef.current;
+    const bounds = boundsRef.current;
+    if (!light || !ambient || !orthoCamera || !controls || !mountRef.current) return;
+
+    if (!shadowMode || !bounds) {
+      light.position.set(100, 100, 50);
+      light.target.position.set(0, 0, 0);
+      light.intensity = 0.8;
+      ambient.intensity = 0.6;
+      activeCameraRef.current = cameraRef.current;
+      controls.enabled = true;
+      return;
+    }
+
+    const center: [number, number, number] = [bounds.center.x, bounds.center.y, bounds.min.z];
+    const radius = Math.max(bounds.size.x, bounds.size.y) * 0.75 + bounds.size.z;
+
+    // A grazing light far enough away that its shadow camera covers the base
+    light.position.set(...lightPosition(lightAngles, center, radius * 2));
+    light.target.position.set(...center);
+    light.intensity = 1.2;
+    light.shadow.camera.left = -radius;
+    light.shadow.camera.right = radius;
+    light.shadow.camera.top = radius;
+    light.shadow.camera.bottom = -radius;
+    light.shadow.camera.near = 0.1;
+    light.shadow.camera.far = radius * 4;
+    light.shadow.bias = -0.0005;
+    light.shadow.camera.updateProjectionMatrix();
+    ambient.intensity = 0.25;
+
+    // Look straight down at the base, framing it to the viewer's aspect ratio
+    const aspect = mountRef.current.clientWidth / Math.max(mountRef.current.clientHeight, 1);
+    const halfHeight = Math.max(bounds.size.y, bounds.size.x / aspect) * 0.55;
+    orthoCamera.left = -halfHeight * aspect;
+    orthoCamera.right = halfHeight * aspect;
+    orthoCamera.top = halfHeight;
+    orthoCamera.bottom = -halfHeight;
+    orthoCamera.near = 0.1;
+    orthoCamera.far = bounds.size.z + 200;
+    orthoCamera.up.set(0, 1, 0);
+    orthoCamera.position.set(bounds.center.x, bounds.center.y, bounds.max.z + 100);
+    orthoCamera.lookAt(bounds.center.x, bounds.center.y, bounds.min.z);
+    orthoCamera.updateProjectionMatrix();
+
+    activeCameraRef.current = orthoCamera;
+    controls.enabled = false;
+  }, [shadowMode, lightAngles, boundsVersion]);
+
+  const selectLightDirection = (direction: ShadowDirection) => {
+    setLightDirection(direction);
+    setLightAngles(designLightAngles(direction, layout, lightElevation(elevations, direction)));
+  };
+
+  // The third and fourth lights only when the model has walls for them
+  const lightDirections: ShadowDirection[] = [
+    'horizontal',
+    'vertical',
+    ...(geometry?.rightWalls.length ? ['right' as const] : []),
+    ...(geometry?.downWalls.length ? ['down' as const] : [])
+  ];
+
+  // In shadow mode dragging across the view swings the light around
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!shadowMode) return;
+    lightDragRef.current = { x: e.clientX, y: e.clientY, angles: lightAngles };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = lightDragRef.current;
+    if (!shadowMode || !drag) return;
+    setLightAngles({
+      azimuth: ((drag.angles.azimuth - (e.clientX - drag.x) * 0.5) % 360 + 360) % 360,
+      elevation: Math.min(Math.max(drag.angles.elevation - (e.clientY - drag.y) * 0.25, 1), 89)
+    });
+  };
+
+  const handlePointerUp = () => {
+    lightDragRef.current = null;
+  };
+
   return (
     <div className="relative w-full h-full">
-      <div ref={mountRef} className="w-full h-full" />
+      <div
+        ref={mountRef}
+        className="w-full h-full"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      {enabled && geometry && (
+        <div className="absolute left-2 right-2 bottom-2 bg-white bg-opacity-90 rounded p-2 text-sm space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={shadowMode}
+                onChange={e => setShadowMode(e.target.checked)}
+                className="rounded"
+              />
+              <span>Shadow mode</span>
+            </label>
+            {shadowMode && lightDirections.map(direction => (
+              <button
+                key={direction}
+                onClick={() => selectLightDirection(direction)}
+                className={`px-2 py-1 rounded border ${
+                  lightDirection === direction ? 'bg-blue-600 text-white' : 'bg-white hover:bg-gray-100'
+                }`}
+              >
+                {LIGHT_BUTTON_LABELS[direction]}
+              </button>
+            ))}
+          </div>
+          {shadowMode && (
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-xs">Azimuth ({Math.round(lightAngles.azimuth)}°)</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="359"
+                  step="1"
+                  value={lightAngles.azimuth}
+                  onChange={e => setLightAngles({ ...lightAngles, azimuth: parseFloat(e.target.value) || 0 })}
+                  className="w-full"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs">Elevation ({Math.round(lightAngles.elevation)}°)</span>
+                <input
+                  type="range"
+                  min="1"
+                  max="89"
+                  step="1"
+                  value={lightAngles.elevation}
+                  onChange={e => setLightAngles({ ...lightAngles, elevation: parseFloat(e.target.value) || 1 })}
+                  className="w-full"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      )}
       {!enabled && (
         <div className="absolute inset-0 bg-gray-800 bg-opacity-90 flex items-center justify-center">
           <div className="text-lg text-white">3D Viewer Disabled</div>
         </div>
       )}
-      {isLoading && (
-        <div className="absolute inset-0 bg-white bg-opacity-75 flex items-center justify-center">
-          <div className="text-lg">Generating 3D model...</div>
-        </div>
-      )}
-      {!horizImageData && !vertImageData && (
+      {!geometry && (
         <div className="absolute inset-0 flex items-center justify-center text-gray-500">
           Upload images to see 3D preview
         </div>
@@ -109,4 +109,69 @@ describe('ImageUpload', () => {
     expect(screen.getByText(/automatically resized/i)).toBeInTheDocument();
     expect(screen.getByText(/supported formats/i)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should add right and down slots when their handlers are given', async () => {
+    const user = userEvent.setup();
+    const mockOnRightSelected = vi.fn();
+    const mockOnDownSelected = vi.fn();
+    const file = new File([''], 'south.png', { type: 'image/png' });
+
+    const { rerender } = render(
+      <ImageUpload 
+        onImagesSelected={vi.fn()}
+        horizFile={null}
+        vertFile={null}
+      />
+    );
+
+    expect(screen.queryByLabelText(/right shadow image/i)).not.toBeInTheDocument();
+    expect(screen.queryByLabelText(/down shadow image/i)).not.toBeInTheDocument();
+
+    rerender(
+      <ImageUpload 
+        onImagesSelected={vi.fn()}
+        horizFile={null}
+        vertFile={null}
+        onRightImageSelected={mockOnRightSelected}
+        onDownImageSelected={mockOnDownSelected}
+      />
+    );
+
+    await user.upload(screen.getByLabelText(/down shadow image/i), file);
+
+    expect(mockOnDownSelected).toHaveBeenCalledWith(file);
+    expect(mockOnRightSelected).not.toHaveBeenCalled();
+    expect(screen.getByLabelText(/right shadow image/i)).toBeInTheDocument();
+    expect(screen.getByText(/upload 1-4 images/i)).toBeInTheDocument();
+  });
+
+  it('should only show the shared aspect ratio control when cropping is enabled', async () => {
+    const user = userEvent.setup();
+    const mockOnImagesSelected = vi.fn();
+    const mockOnAspectChange = vi.fn();
+
+    const { rerender } = render(
+      <ImageUpload 
+        onImagesSelected={mockOnImagesSelected}
+        horizFile={null}
+        vertFile={null}
+      />
+    );
+
+    expect(screen.queryByLabelText(/shared aspect ratio/i)).not.toBeInTheDocument();
+
+    rerender(
+      <ImageUpload 
+        onImagesSelected={mockOnImagesSelected}
+        horizFile={null}
+        vertFile={null}
+        onCropChange={vi.fn()}
+        onCropAspectRatioChange={mockOnAspectChange}
+      />
+    );
+
+    await user.selectOptions(screen.getByLabelText(/shared aspect ratio/i), '1:1');
+
+    expect(mockOnAspectChange).toHaveBeenCalledWith(1);
+  });
+});
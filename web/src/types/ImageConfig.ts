@@ -1,17 +1,78 @@
+import type { DitherAlgorithm } from '../utils/dithering';
+import type { QuantizerAlgorithm } from '../utils/quantization';
+import { defaultAdjustments } from '../utils/imageAdjustments';
+import type { ImageAdjustments } from '../utils/imageAdjustments';
+import { defaultCrop } from '../utils/imageCrop';
+import type { ImageCrop } from '../utils/imageCrop';
+import type { ResampleFilter } from '../utils/resampling';
+import type { CellLayout, ModelMode, ModelShape } from '../utils/geometryGenerator';
+import type { LithophaneShape } from '../utils/lithophane';
+import { heightForCoverage, openFloorWidth } from '../utils/heightModel';
+import type { DarknessModel } from '../utils/heightModel';
+import { roundToLayerHeight } from '../utils/imageProcessing';
+
 export interface ImageConfig {
   horizImageFilename: string;
   vertImageFilename: string;
+  // Third image, cast by the right walls, and the fourth, cast by the down
+  // walls of a square grid
+  rightImageFilename: string;
+  downImageFilename: string;
   widthInPixels: number;
   doHorizImage: boolean;
   doVertImage: boolean;
+  doRightImage: boolean;
+  doDownImage: boolean;
   cellSize: number;
   wallWidth: number;
   bottomThk: number;
   layerHeight: number;
   numberOfColorsOverride: number;
+  // Elevation in degrees above the base of the light each image is designed
+  // for. Wall heights are worked out so its shadows reproduce the image.
+  horizLightElevation: number;
+  vertLightElevation: number;
+  rightLightElevation: number;
+  downLightElevation: number;
+  darknessModel: DarknessModel;
+  ditherAlgorithm: DitherAlgorithm;
+  serpentine: boolean;
+  quantizer: QuantizerAlgorithm;
+  horizAdjustments: ImageAdjustments;
+  vertAdjustments: ImageAdjustments;
+  rightAdjustments: ImageAdjustments;
+  downAdjustments: ImageAdjustments;
+  horizCrop: ImageCrop;
+  vertCrop: ImageCrop;
+  rightCrop: ImageCrop;
+  downCrop: ImageCrop;
+  // Width / height both crops are forced to, 0 = each image keeps its own
+  cropAspectRatio: number;
+  // How images are shrunk to widthInPixels
+  resampleFilter: ResampleFilter;
+  // Lithophanes are made from the horizontal image alone and ignore the
+  // wall settings
+  mode: ModelMode;
+  lithophaneShape: LithophaneShape;
+  // Thickness of black pixels; white ones are bottomThk thick
+  lithophaneThickness: number;
+  // Degrees a curved lithophane bends through
+  lithophaneArc: number;
+  layout: CellLayout;
+  // Wrapping onto a cylinder needs the square layout
+  shape: ModelShape;
+  // Move left walls right and up walls back by half the open floor so they
+  // cross mid-cell in plus shapes instead of meeting at cell corners. Leaves
+  // no room for right and down walls, so only two images are cast.
+  plusWalls: boolean;
+  // Solve the left and up wall heights together, allowing for the shade each
+  // set casts on the other's tops. Square cells without plus walls only.
+  optimizeHeights: boolean;
 }
 
 export interface ComputedImageConfig extends ImageConfig {
+  // Tallest wall above the base: full cover under the steepest light. The
+  // thickest part of a lithophane.
   maxHeight: number;
   numberOfColors: number;
   border: number;
@@ -19,14 +80,34 @@ export interface ComputedImageConfig extends ImageConfig {
 }
 
 export function computeImageConfig(config: ImageConfig): ComputedImageConfig {
-  const numberOfColors = config.numberOfColorsOverride === 0 
-    ? Math.floor((config.cellSize - config.wallWidth) / config.layerHeight)
+  const elevations = [
+    config.horizLightElevation,
+    config.vertLightElevation,
+    config.rightLightElevation,
+    config.downLightElevation
+  ];
+  const lithophane = config.mode === 'lithophane';
+  // Walls for the lowest light have the fewest layers to step through, so
+  // by default each color gets its own height in every direction. A
+  // lithophane gets one color per layer of thickness.
+  const automaticColors = lithophane
+    ? Math.round((config.lithophaneThickness - config.bottomThk) / config.layerHeight) + 1
+    : Math.floor(heightForCoverage(1, Math.min(...elevations), openFloorWidth(config)) / config.layerHeight + 1e-9);
+  const numberOfColors = config.numberOfColorsOverride === 0
+    ? Math.max(2, automaticColors)
     : config.numberOfColorsOverride;
-  
-  const maxHeight = numberOfColors * config.layerHeight;
+
+  const maxHeight = lithophane
+    ? roundToLayerHeight(config.lithophaneThickness, config.layerHeight)
+    : Math.max(
+      config.layerHeight,
+      roundToLayerHeight(heightForCoverage(1, Math.max(...elevations), openFloorWidth(config)), config.layerHeight)
+    );
   const border = config.cellSize;
-  
-  const outputFilename = `${config.widthInPixels}px_${format(config.cellSize)}cell_${format(config.wallWidth)}wall_${format(config.bottomThk)}bottom_${format(maxHeight)}maxHeight.stl`;
+
+  const outputFilename = lithophane
+    ? `lithophane_${config.widthInPixels}px_${format(config.cellSize)}cell_${format(config.bottomThk)}-${format(maxHeight)}mm${config.lithophaneShape === 'flat' ? '' : `_${config.lithophaneShape}`}.stl`
+    : `${config.widthInPixels}px_${format(config.cellSize)}cell_${format(config.wallWidth)}wall_${format(config.bottomThk)}bottom_${format(maxHeight)}maxHeight${config.layout === 'hex' ? '_hex' : ''}${config.shape === 'cylinder' ? '_cylinder' : ''}${config.plusWalls ? '_pluswalls' : ''}.stl`;
   
   return {
     ...config,
@@ -44,14 +125,44 @@ export function format(n: number): string {
 export const defaultConfig: ImageConfig = {
   horizImageFilename: 'horizontal.jpg',
   vertImageFilename: 'vertical.jpg',
+  rightImageFilename: 'right.jpg',
+  downImageFilename: 'down.jpg',
   widthInPixels: 100,
   doHorizImage: true,
   doVertImage: true,
+  doRightImage: true,
+  doDownImage: true,
   cellSize: 2.1,
   wallWidth: 0.4,
   bottomThk: 0.8,
   layerHeight: 0.1,
   numberOfColorsOverride: 0,
+  horizLightElevation: 45,
+  vertLightElevation: 45,
+  rightLightElevation: 45,
+  downLightElevation: 45,
+  darknessModel: 'linear',
+  ditherAlgorithm: 'floyd-steinberg',
+  serpentine: false,
+  quantizer: 'uniform',
+  horizAdjustments: defaultAdjustments,
+  vertAdjustments: defaultAdjustments,
+  rightAdjustments: defaultAdjustments,
+  downAdjustments: defaultAdjustments,
+  horizCrop: defaultCrop,
+  vertCrop: defaultCrop,
+  rightCrop: defaultCrop,
+  downCrop: defaultCrop,
+  cropAspectRatio: 0,
+  resampleFilter: 'area',
+  mode: 'shadowCaster',
+  lithophaneShape: 'flat',
+  lithophaneThickness: 3,
+  lithophaneArc: 120,
+  layout: 'square',
+  shape: 'plate',
+  plusWalls: false,
+  optimizeHeights: false,
 };
 
 export const presetConfigs = {
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { cylinderRadius, unwrapWall, wrapOnCylinder, wrapWall } from '../cylinder';
+import { allWalls, calculateSceneBounds, generateShadowCasterGeometry } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const config = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 6, widthInPixels: 12 });
+
+const image: ProcessedImageData = {
+  data: Array.from({ length: 4 }, (_, y) => Array.from({ length: 12 }, (_, x) => (x * 20 + y * 40) % 256)),
+  width: 12,
+  height: 4
+};
+
+describe('cylinder', () => {
+  it('should make each facet one cell wide', () => {
+    const radius = cylinderRadius(config);
+    const facet = 2 * radius * Math.tan(Math.PI / 12);
+
+    expect(facet).toBeCloseTo(config.cellSize);
+    expect(radius).toBeCloseTo(12 * config.cellSize / (2 * Math.PI), 0);
+  });
+
+  it('should unwrap every wall back to where it stood on the plate', () => {
+    const flat = generateShadowCasterGeometry(image, image, config, image, image);
+
+    allWalls(flat).forEach(wall => {
+      const round = unwrapWall(wrapWall(wall, config), config);
+      round.position.forEach((value, i) => expect(value).toBeCloseTo(wall.position[i]));
+      expect(round.size).toEqual(wall.size);
+    });
+  });
+
+  it('should stand walls out from their facet with the image rows running up', () => {
+    const flat = generateShadowCasterGeometry(image, null, config);
+    const wrapped = wrapOnCylinder(flat, config);
+    const radius = cylinderRadius(config);
+
+    wrapped.leftWalls.forEach((wall, i) => {
+      const original = flat.leftWalls[i];
+      const height = original.position[2] + original.size[2] / 2 - config.bottomThk;
+      const radians = wall.rotation! * Math.PI / 180;
+      const outward = wall.position[0] * Math.cos(radians) + wall.position[1] * Math.sin(radians);
+
+      // Inner face on the tube, outer face as far out as the wall was tall
+      expect(outward - wall.size[0] / 2).toBeCloseTo(radius);
+      expect(outward + wall.size[0] / 2).toBeCloseTo(radius + height);
+      expect(wall.position[2]).toBeCloseTo(original.position[1]);
+    });
+  });
+
+  it('should close the tube with a floor as tall as the plate was deep', () => {
+    const flat = generateShadowCasterGeometry(image, null, config);
+    const wrapped = wrapOnCylinder(flat, config);
+    const bounds = calculateSceneBounds(wrapped);
+
+    // A tube segment and a floor slice per column
+    expect(wrapped.base).toHaveLength(24);
+    expect(bounds.min.z).toBeCloseTo(0);
+    expect(bounds.max.z).toBeCloseTo(flat.base[0].size[1]);
+    // The tube's outer faces are the facets the walls stand on
+    wrapped.base.filter((_, i) => i % 2 === 0).forEach(segment => {
+      expect(Math.hypot(segment.position[0], segment.position[1]) + segment.size[0] / 2)
+        .toBeCloseTo(cylinderRadius(config));
+    });
+  });
+
+  it('should keep at least three columns', () => {
+    const narrow = computeImageConfig({ ...config, widthInPixels: 1 });
+    expect(cylinderRadius(narrow)).toBeCloseTo(narrow.cellSize / (2 * Math.tan(Math.PI / 3)));
+  });
+});
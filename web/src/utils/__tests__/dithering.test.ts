@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyDither,
+  bayerMatrix,
+  diffusionKernels,
+  errorDiffusionDither,
+  nearestLevel,
+  orderedDither,
+  posterize,
+  uniformLevels
+} from '../dithering';
+import type { DitherAlgorithm } from '../dithering';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const image = (data: number[][]): ProcessedImageData => ({
+  data,
+  width: data[0].length,
+  height: data.length
+});
+
+const blackAndWhite = [0, 255];
+
+describe('dithering', () => {
+  describe('uniformLevels', () => {
+    it('should evenly space levels from black to white', () => {
+      expect(uniformLevels(2)).toEqual([0, 255]);
+      expect(uniformLevels(3)).toEqual([0, 127.5, 255]);
+      expect(uniformLevels(4)).toEqual([0, 85, 170, 255]);
+    });
+  });
+
+  describe('nearestLevel', () => {
+    it('should pick the closest level and clamp out of range values', () => {
+      expect(nearestLevel(100, [0, 127.5, 255])).toBe(127.5);
+      expect(nearestLevel(300, [0, 127.5, 255])).toBe(255);
+      expect(nearestLevel(-40, [0, 127.5, 255])).toBe(0);
+    });
+  });
+
+  describe('diffusion kernels', () => {
+    it('should diffuse all of the error except for Atkinson', () => {
+      Object.entries(diffusionKernels).forEach(([name, kernel]) => {
+        const total = kernel.offsets.reduce((sum, [, , weight]) => sum + weight, 0) / kernel.divisor;
+        expect(total).toBeCloseTo(name === 'atkinson' ? 0.75 : 1);
+      });
+    });
+
+    it('should only push error forward in scan order', () => {
+      Object.values(diffusionKernels).forEach(kernel => {
+        kernel.offsets.forEach(([dx, dy]) => {
+          expect(dy > 0 || (dy === 0 && dx > 0)).toBe(true);
+        });
+      });
+    });
+  });
+
+  describe('errorDiffusionDither', () => {
+    it('should match a hand computed Floyd-Steinberg row', () => {
+      // 100 -> 0 (err 100, 7/16 right), 143.75 -> 255 (err -111.25), 51.33 -> 0
+      const result = errorDiffusionDither(image([[100, 100, 100]]), blackAndWhite, diffusionKernels['floyd-steinberg']);
+      expect(result.data).toEqual([[0, 255, 0]]);
+    });
+
+    it('should match a hand computed Atkinson row', () => {
+      // 100 -> 0 (1/8 to each of the next two), 112.5 -> 0, 126.56 -> 0
+      const result = errorDiffusionDither(image([[100, 100, 100]]), blackAndWhite, diffusionKernels.atkinson);
+      expect(result.data).toEqual([[0, 0, 0]]);
+    });
+
+    it('should match a hand computed Floyd-Steinberg 2x2 block', () => {
+      // (0,0): 100 -> 0, pushes 43.75 right, 31.25 down, 6.25 diagonal
+      // (1,0): 143.75 -> 255, err -111.25 pushes -20.86 down-left, -34.77 down
+      // (0,1): 110.39 -> 0, err 110.39 pushes 48.30 right
+      // (1,1): 100 + 6.25 - 34.77 + 48.30 = 119.78 -> 0
+      const result = errorDiffusionDither(image([[100, 100], [100, 100]]), blackAndWhite, diffusionKernels['floyd-steinberg']);
+      expect(result.data).toEqual([[0, 255], [0, 0]]);
+    });
+
+    it('should match hand computed Stucki and Jarvis-Judice-Ninke columns', () => {
+      const column = image([[100], [100], [100]]);
+
+      // Stucki: row 1 gets 8/42, row 2 gets 4/42 -> 119.05 -> 0, then 100 + 9.52 + 22.68 = 132.2 -> 255
+      expect(errorDiffusionDither(column, blackAndWhite, diffusionKernels.stucki).data)
+        .toEqual([[0], [0], [255]]);
+
+      // JJN: row 1 gets 7/48, row 2 gets 5/48 -> 114.58 -> 0, then 100 + 10.42 + 16.71 = 127.13 -> 0
+      expect(errorDiffusionDither(column, blackAndWhite, diffusionKernels['jarvis-judice-ninke']).data)
+        .toEqual([[0], [0], [0]]);
+    });
+
+    it('should mirror the kernel on odd rows when serpentine', () => {
+      const input = image([[0, 0, 0], [25, 0, 100]]);
+      const levels = [0, 60, 255];
+
+      // Left to right: 25 -> 0 pushes error away from the bright pixel, 104.69 -> 60
+      expect(errorDiffusionDither(input, levels, diffusionKernels.burkes, false).data[1])
+        .toEqual([0, 0, 60]);
+
+      // Right to left: 100 -> 60 pushes 10 to (1,1) and 5 to (0,1), so 25 + 5 + 2.5 -> 60
+      expect(errorDiffusionDither(input, levels, diffusionKernels.burkes, true).data[1])
+        .toEqual([60, 0, 60]);
+    });
+
+    it('should not modify the input', () => {
+      const input = image([[100, 100], [100, 100]]);
+      errorDiffusionDither(input, blackAndWhite, diffusionKernels.sierra);
+      expect(input.data).toEqual([[100, 100], [100, 100]]);
+    });
+  });
+
+  describe('bayerMatrix', () => {
+    it('should build the standard 2x2 and 4x4 matrices', () => {
+      expect(bayerMatrix(2)).toEqual([[0, 2], [3, 1]]);
+      expect(bayerMatrix(4)).toEqual([
+        [0, 8, 2, 10],
+        [12, 4, 14, 6],
+        [3, 11, 1, 9],
+        [15, 7, 13, 5]
+      ]);
+    });
+
+    it('should contain every index of the 8x8 matrix exactly once', () => {
+      const values = bayerMatrix(8).flat().sort((a, b) => a - b);
+      expect(values).toEqual(Array.from({ length: 64 }, (_, i) => i));
+    });
+  });
+
+  describe('orderedDither', () => {
+    it('should produce a checkerboard for 50% gray with a 2x2 matrix', () => {
+      const result = orderedDither(image([[127.5, 127.5], [127.5, 127.5]]), blackAndWhite, 2);
+      expect(result.data).toEqual([[255, 0], [0, 255]]);
+    });
+
+    it('should turn on a quarter of a 4x4 tile for 25% gray', () => {
+      const flat = Array.from({ length: 4 }, () => Array(4).fill(63.75));
+      const result = orderedDither(image(flat), blackAndWhite, 4);
+      expect(result.data.flat().filter(v => v === 255)).toHaveLength(4);
+    });
+
+    it('should leave exact levels untouched', () => {
+      const result = orderedDither(image([[0, 85], [170, 255]]), uniformLevels(4), 8);
+      expect(result.data).toEqual([[0, 85], [170, 255]]);
+    });
+  });
+
+  describe('posterize', () => {
+    it('should snap every pixel independently', () => {
+      const result = posterize(image([[10, 120], [140, 250]]), blackAndWhite);
+      expect(result.data).toEqual([[0, 0], [255, 255]]);
+    });
+  });
+
+  describe('applyDither', () => {
+    it('should only output valid levels for every algorithm', () => {
+      const levels = uniformLevels(5);
+      const input = image([
+        [10, 60, 110, 160],
+        [30, 80, 130, 180],
+        [50, 100, 150, 200],
+        [70, 120, 170, 220]
+      ]);
+      const algorithms: DitherAlgorithm[] = [
+        'floyd-steinberg', 'atkinson', 'jarvis-judice-ninke', 'stucki',
+        'sierra', 'burkes', 'bayer2', 'bayer4', 'bayer8', 'none'
+      ];
+
+      algorithms.forEach(algorithm => {
+        const result = applyDither(input, levels, { algorithm, serpentine: true });
+        expect(result.width).toBe(4);
+        expect(result.height).toBe(4);
+        result.data.flat().forEach(value => expect(levels).toContain(value));
+      });
+    });
+
+    it('should default to Floyd-Steinberg', () => {
+      const input = image([[100, 100, 100]]);
+      expect(applyDither(input, blackAndWhite).data).toEqual([[0, 255, 0]]);
+    });
+  });
+});
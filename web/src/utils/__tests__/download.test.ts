@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { chooseSaveTarget, saveFiles } from '../download';
+import type { EncodedFile } from '../exportFormats';
+
+const stl: EncodedFile = { filename: 'model.stl', mimeType: 'application/octet-stream', data: new Uint8Array([1, 2, 3]) };
+const mtl: EncodedFile = { filename: 'model.mtl', mimeType: 'model/mtl', data: new Uint8Array([4]) };
+
+function mockSaveDialog(picker: (...args: unknown[]) => Promise<unknown>) {
+  vi.stubGlobal('showSaveFilePicker', vi.fn(picker));
+  return (window as unknown as { showSaveFilePicker: ReturnType<typeof vi.fn> }).showSaveFilePicker;
+}
+
+describe('download', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should fall back to downloading without the File System Access API', async () => {
+    expect(await chooseSaveTarget('model.stl', 'application/octet-stream', 'STL file')).toEqual({ kind: 'download' });
+  });
+
+  it('should download every file through a link', async () => {
+    vi.stubGlobal('URL', { ...URL, createObjectURL: vi.fn(() => 'blob:file'), revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    await saveFiles([stl, mtl], { kind: 'download' });
+
+    expect(click).toHaveBeenCalledTimes(2);
+    expect(click.mock.contexts.map(link => (link as HTMLAnchorElement).download)).toEqual(['model.stl', 'model.mtl']);
+  });
+
+  it('should write to the file picked in the save dialog', async () => {
+    const write = vi.fn(async () => {});
+    const close = vi.fn(async () => {});
+    const picker = mockSaveDialog(async () => ({ createWritable: async () => ({ write, close }) }));
+
+    const target = await chooseSaveTarget('model.stl', 'application/octet-stream', 'STL file');
+    expect(target?.kind).toBe('file');
+    expect(picker).toHaveBeenCalledWith({
+      suggestedName: 'model.stl',
+      types: [{ description: 'STL file', accept: { 'application/octet-stream': ['.stl'] } }]
+    });
+
+    await saveFiles([stl], target!);
+    expect(write).toHaveBeenCalledWith(stl.data);
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should resolve null when the save dialog is cancelled', async () => {
+    mockSaveDialog(async () => {
+      throw new DOMException('The user aborted a request.', 'AbortError');
+    });
+
+    expect(await chooseSaveTarget('model.stl', 'application/octet-stream', 'STL file')).toBeNull();
+  });
+});
@@ -1,39 +1,14 @@
-import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { describe, it, expect, beforeAll } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import { generateShadowCasterGeometry } from '../geometryGenerator';
-import { exportToSTL } from '../stlExporter';
+import { defaultExportOptions, encodeExport } from '../exportFormats';
 import type { ProcessedImageData } from '../imageProcessing';
+import { defaultAdjustments } from '../imageAdjustments';
+import { defaultCrop } from '../imageCrop';
 import type { ComputedImageConfig } from '../../types/ImageConfig';
 
-// Mock DOM for file download
-const mockLink = {
-  href: '',
-  download: '',
-  click: vi.fn()
-};
-
-const mockBlob = vi.fn();
-const mockCreateObjectURL = vi.fn();
-const mockRevokeObjectURL = vi.fn();
-
-(globalThis as any).document = {
-  createElement: vi.fn().mockReturnValue(mockLink),
-  body: {
-    appendChild: vi.fn(),
-    removeChild: vi.fn()
-  }
-};
-
-(globalThis as any).Blob = mockBlob;
-(globalThis as any).URL = {
-  createObjectURL: mockCreateObjectURL,
-  revokeObjectURL: mockRevokeObjectURL
-};
-
 describe('Dual Image End-to-End STL Generation', () => {
-  let capturedSTLData: any = null;
-  let capturedMimeType = '';
   
   beforeAll(() => {
     // Ensure output directory exists
@@ -41,17 +16,6 @@ describe('Dual Image End-to-End STL Generation', () => {
     if (!fs.existsSync(outputDir)) {
       fs.mkdirSync(outputDir, { recursive: true });
     }
-    
-    // Intercept Blob creation to capture STL content
-    mockBlob.mockImplementation((content: any[], options: any) => {
-      if (content && content[0]) {
-        capturedSTLData = content[0];
-        capturedMimeType = options.type;
-      }
-      return { content, options };
-    });
-    
-    mockCreateObjectURL.mockReturnValue('blob:mock-url');
   });
 
   it('should generate STL with both horizontal and vertical shadows from 2x2 patterns', async () => {
@@ -79,6 +43,8 @@ describe('Dual Image End-to-End STL Generation', () => {
     const config: ComputedImageConfig = {
       horizImageFilename: 'test-horiz.png',
       vertImageFilename: 'test-vert.png',
+      rightImageFilename: 'test-right.png',
+      downImageFilename: 'test-down.png',
       widthInPixels: 2,
       cellSize: 5.0,
       wallWidth: 0.8,
@@ -88,8 +54,36 @@ describe('Dual Image End-to-End STL Generation', () => {
       border: 0.0,
       numberOfColors: 11, // 0.2mm layers in 2mm = 10 levels + base
       numberOfColorsOverride: 0,
+      horizLightElevation: 45,
+      vertLightElevation: 45,
+      rightLightElevation: 45,
+      downLightElevation: 45,
+      darknessModel: 'linear',
+      ditherAlgorithm: 'floyd-steinberg',
+      serpentine: false,
+      quantizer: 'uniform',
+      horizAdjustments: defaultAdjustments,
+      vertAdjustments: defaultAdjustments,
+      rightAdjustments: defaultAdjustments,
+      downAdjustments: defaultAdjustments,
+      horizCrop: defaultCrop,
+      vertCrop: defaultCrop,
+      rightCrop: defaultCrop,
+      downCrop: defaultCrop,
+      cropAspectRatio: 0,
+      resampleFilter: 'area',
+      mode: 'shadowCaster',
+      lithophaneShape: 'flat',
+      lithophaneThickness: 3,
+      lithophaneArc: 120,
+      layout: 'square',
+      shape: 'plate',
+      plusWalls: false,
+      optimizeHeights: false,
       doHorizImage: true,
       doVertImage: true,
+      doRightImage: false,
+      doDownImage: false,
       outputFilename: 'test-dual-diagonal-2x2.stl'
     };
 
@@ -112,7 +106,7 @@ describe('Dual Image End-to-End STL Generation', () => {
     expect(upUniqueHeights).toHaveLength(2);    // Two heights for opposite diagonal
 
     console.log(`📊 Dual Image Geometry stats:`);
-    console.log(`   Base size: ${geometry.base.size.join(' x ')} mm`);
+    console.log(`   Base size: ${geometry.base[0].size.join(' x ')} mm`);
     console.log(`   Left walls (horizontal shadow): ${geometry.leftWalls.length}`);
     console.log(`   Up walls (vertical shadow): ${geometry.upWalls.length}`);
     console.log(`   Left wall heights: ${leftWallHeights.map(h => h.toFixed(1)).join(', ')} mm`);
@@ -120,38 +114,18 @@ describe('Dual Image End-to-End STL Generation', () => {
     console.log(`   Left unique heights: ${leftUniqueHeights.map(h => h.toFixed(1)).join(', ')} mm`);
     console.log(`   Up unique heights: ${upUniqueHeights.map(h => h.toFixed(1)).join(', ')} mm`);
 
-    // Export STL using the real export function
-    exportToSTL(geometry, config, 'test-dual-diagonal-2x2.stl');
+    // Encode the STL using the real export code
+    const [stlFile] = encodeExport(geometry, config, 'stl', { ...defaultExportOptions, manifoldExport: false });
+    const stlData = stlFile.data;
 
-    // Verify the mock functions were called correctly
-    expect(mockLink.download).toBe('test-dual-diagonal-2x2.stl');
-    expect(mockLink.click).toHaveBeenCalled();
-    expect(mockBlob).toHaveBeenCalled();
+    expect(stlFile.filename).toBe('test-dual-diagonal-2x2.stl');
+    expect(stlFile.mimeType).toBe('application/octet-stream');
 
-    // Verify STL data was captured
-    expect(capturedSTLData).toBeTruthy();
-    expect(capturedMimeType).toBe('application/octet-stream');
-
-    console.log(`📁 STL format: ${typeof capturedSTLData === 'string' ? 'ASCII' : 'Binary'}`);
-    console.log(`📁 Data type: ${Object.prototype.toString.call(capturedSTLData)}`);
-    console.log(`📏 Data size: ${capturedSTLData.byteLength || capturedSTLData.length} bytes`);
+    console.log(`📏 Data size: ${stlData.byteLength} bytes`);
 
     // Save to file for external inspection
     const outputPath = path.join(process.cwd(), 'test-output', 'dual-diagonal-2x2-binary.stl');
-    
-    // Handle binary STL data (DataView)
-    let buffer: Buffer;
-    
-    if (capturedSTLData instanceof DataView) {
-      buffer = Buffer.from(capturedSTLData.buffer, capturedSTLData.byteOffset, capturedSTLData.byteLength);
-    } else if (capturedSTLData instanceof ArrayBuffer) {
-      buffer = Buffer.from(capturedSTLData);
-    } else if (capturedSTLData instanceof Uint8Array) {
-      buffer = Buffer.from(capturedSTLData);
-    } else {
-      buffer = Buffer.from(capturedSTLData);
-    }
-    
+    const buffer = Buffer.from(stlData.buffer, stlData.byteOffset, stlData.byteLength);
     fs.writeFileSync(outputPath, buffer);
     
     console.log(`📏 Buffer length: ${buffer.length} bytes`);
@@ -209,6 +183,8 @@ describe('Dual Image End-to-End STL Generation', () => {
     const config: ComputedImageConfig = {
       horizImageFilename: 'test-horiz.png',
       vertImageFilename: 'test-vert.png',
+      rightImageFilename: 'test-right.png',
+      downImageFilename: 'test-down.png',
       widthInPixels: 2,
       cellSize: 4.0,
       wallWidth: 0.6,
@@ -218,8 +194,36 @@ describe('Dual Image End-to-End STL Generation', () => {
       border: 4.0,
       numberOfColors: 11,
       numberOfColorsOverride: 0,
+      horizLightElevation: 45,
+      vertLightElevation: 45,
+      rightLightElevation: 45,
+      downLightElevation: 45,
+      darknessModel: 'linear',
+      ditherAlgorithm: 'floyd-steinberg',
+      serpentine: false,
+      quantizer: 'uniform',
+      horizAdjustments: defaultAdjustments,
+      vertAdjustments: defaultAdjustments,
+      rightAdjustments: defaultAdjustments,
+      downAdjustments: defaultAdjustments,
+      horizCrop: defaultCrop,
+      vertCrop: defaultCrop,
+      rightCrop: defaultCrop,
+      downCrop: defaultCrop,
+      cropAspectRatio: 0,
+      resampleFilter: 'area',
+      mode: 'shadowCaster',
+      lithophaneShape: 'flat',
+      lithophaneThickness: 3,
+      lithophaneArc: 120,
+      layout: 'square',
+      shape: 'plate',
+      plusWalls: false,
+      optimizeHeights: false,
       doHorizImage: true,
       doVertImage: true,
+      doRightImage: false,
+      doDownImage: false,
       outputFilename: 'test-comparison.stl'
     };
 
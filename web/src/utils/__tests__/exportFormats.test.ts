@@ -0,0 +1,91 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { defaultExportOptions, encodeExport, exportFilename, exportFormats, withExtension } from '../exportFormats';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { buildManifoldMesh } from '../manifoldMesh';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ExportFormat } from '../exportFormats';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const config = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 4 });
+
+const image: ProcessedImageData = {
+  data: [
+    [0, 255, 85],
+    [170, 0, 255]
+  ],
+  width: 3,
+  height: 2
+};
+
+const geometry = generateShadowCasterGeometry(image, image, config);
+
+describe('export formats', () => {
+  it('should swap the extension of the computed filename', () => {
+    expect(withExtension('20px_2cell.stl', 'obj')).toBe('20px_2cell.obj');
+    expect(withExtension('model', '3mf')).toBe('model.3mf');
+    expect(exportFilename(config, 'scad')).toBe(config.outputFilename.replace(/\.stl$/, '.scad'));
+    expect(exportFilename(config, 'stl')).toBe(config.outputFilename);
+  });
+
+  it('should encode every format to bytes without a DOM', () => {
+    expect(typeof document).toBe('undefined');
+
+    (Object.keys(exportFormats) as ExportFormat[]).forEach(format => {
+      const [file] = encodeExport(geometry, config, format, defaultExportOptions);
+
+      expect(file.filename).toBe(exportFilename(config, format));
+      expect(file.mimeType).toBe(exportFormats[format].mimeType);
+      expect(file.data.byteLength).toBeGreaterThan(0);
+    });
+  });
+
+  it('should add the material library to an OBJ with materials', () => {
+    const files = encodeExport(geometry, config, 'obj', { ...defaultExportOptions, objMaterials: true });
+    const obj = new TextDecoder().decode(files[0].data);
+
+    expect(files.map(file => file.filename)).toEqual([
+      exportFilename(config, 'obj'),
+      withExtension(config.outputFilename, 'mtl')
+    ]);
+    expect(obj).toContain(`mtllib ${files[1].filename}`);
+  });
+
+  it('should write a single OBJ without materials', () => {
+    const files = encodeExport(geometry, config, 'obj', { ...defaultExportOptions, objMaterials: false });
+
+    expect(files).toHaveLength(1);
+    expect(new TextDecoder().decode(files[0].data)).not.toContain('mtllib');
+  });
+
+  it('should follow the export options when encoding STL', () => {
+    // Equal columns give runs of equal-height left walls to merge
+    const stripes: ProcessedImageData = { data: [[0, 255, 0], [0, 255, 0]], width: 3, height: 2 };
+    const geometry = generateShadowCasterGeometry(stripes, null, config);
+    const boxOptions = { ...defaultExportOptions, manifoldExport: false };
+    const boxes = encodeExport(geometry, config, 'stl', { ...boxOptions, mergeWalls: false })[0].data;
+    const merged = encodeExport(geometry, config, 'stl', { ...boxOptions, mergeWalls: true })[0].data;
+
+    const triangles = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset).getUint32(80, true);
+    expect(triangles(boxes)).toBe(12 * (1 + geometry.leftWalls.length + geometry.upWalls.length));
+    expect(triangles(merged)).toBeLessThan(triangles(boxes));
+  });
+
+  it('should write a cylinder to STL as one watertight mesh', () => {
+    const cylinder = computeImageConfig({ ...config, shape: 'cylinder' });
+    const model = generateShadowCasterGeometry({ data: [[0, 255, 0]], width: 3, height: 1 }, null, cylinder);
+    const stl = encodeExport(model, cylinder, 'stl', { ...defaultExportOptions, mergeWalls: false })[0].data;
+
+    const mesh = buildManifoldMesh(model, cylinder);
+    expect(new DataView(stl.buffer, stl.byteOffset).getUint32(80, true)).toBe(mesh.indices.length / 3);
+  });
+
+  it('should write a hex model to STL as boxes even when a watertight mesh is asked for', () => {
+    const hex = computeImageConfig({ ...config, layout: 'hex' });
+    const model = generateShadowCasterGeometry({ data: [[0, 255, 0]], width: 3, height: 1 }, null, hex);
+    const stl = encodeExport(model, hex, 'stl', { ...defaultExportOptions, mergeWalls: false })[0].data;
+
+    const boxes = model.base.length + model.leftWalls.length;
+    expect(new DataView(stl.buffer, stl.byteOffset).getUint32(80, true)).toBe(12 * boxes);
+  });
+});
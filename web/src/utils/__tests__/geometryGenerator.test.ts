@@ -0,0 +1,357 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import {
+  allWalls,
+  createThreeGeometry,
+  disposeGroup,
+  generateShadowCasterGeometry,
+  layoutImages,
+  updateThreeGeometry,
+  wallHeightForValue
+} from '../geometryGenerator';
+import { HEX_SIDE, HEX_WALL_ANGLES, hexCellCenter, hexGridSize } from '../hexGrid';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { WallGeometry } from '../geometryGenerator';
+import type { ProcessedImageData } from '../imageProcessing';
+
+// Default cells and walls, with wall heights quantized to 6 gray levels
+const config = computeImageConfig({
+  ...defaultConfig,
+  numberOfColorsOverride: 6
+});
+
+describe('geometryGenerator', () => {
+  describe('wallHeightForValue', () => {
+    // 0.5mm of open floor, so a 45 degree light needs walls up to 0.5mm
+    const heightConfig = computeImageConfig({ ...defaultConfig, cellSize: 0.7, wallWidth: 0.2 });
+
+    it('should shade the open floor in proportion to darkness', () => {
+      expect(wallHeightForValue(0, undefined, heightConfig, 'horizontal')).toBeCloseTo(0.4);
+      expect(wallHeightForValue(255, undefined, heightConfig, 'horizontal')).toBeCloseTo(0);
+      // 80% of the floor in shadow: 0.4mm, less the one-layer minimum
+      expect(wallHeightForValue(51, undefined, heightConfig, 'horizontal')).toBeCloseTo(0.3);
+    });
+
+    it('should give each value the height of its nearest quantized level', () => {
+      // An adaptive palette keeps the image's contrast: its darkest level
+      // isn't printed as pure black
+      const levels = [40, 90, 130, 200];
+      expect(wallHeightForValue(0, levels, heightConfig, 'horizontal')).toBeCloseTo(0.3);
+      expect(wallHeightForValue(0, levels, heightConfig, 'horizontal'))
+        .toBeLessThan(wallHeightForValue(0, undefined, heightConfig, 'horizontal'));
+      [45, 95, 125, 255].forEach((val, i) => {
+        expect(wallHeightForValue(val, levels, heightConfig, 'horizontal'))
+          .toBeCloseTo(wallHeightForValue(levels[i], undefined, heightConfig, 'horizontal'));
+      });
+    });
+
+    it('should raise the walls of an image designed for a steeper light', () => {
+      const steep = computeImageConfig({ ...heightConfig, vertLightElevation: 60 });
+
+      // 0.5mm * tan 60 rounds to 0.9mm
+      expect(wallHeightForValue(0, undefined, steep, 'vertical')).toBeCloseTo(0.8);
+      expect(wallHeightForValue(0, undefined, steep, 'horizontal')).toBeCloseTo(0.4);
+      expect(steep.maxHeight).toBeCloseTo(0.9);
+    });
+
+    it('should shade midtones more under the perceptual model', () => {
+      const perceptual = computeImageConfig({ ...heightConfig, darknessModel: 'perceptual' });
+
+      // sRGB 128 is about 22% of white's light, so 78% of the floor is shaded
+      expect(wallHeightForValue(128, undefined, perceptual, 'horizontal')).toBeCloseTo(0.3);
+      expect(wallHeightForValue(128, undefined, heightConfig, 'horizontal')).toBeCloseTo(0.1);
+      expect(wallHeightForValue(0, undefined, perceptual, 'horizontal')).toBeCloseTo(0.4);
+      expect(wallHeightForValue(255, undefined, perceptual, 'horizontal')).toBeCloseTo(0);
+    });
+  });
+
+  describe('generateShadowCasterGeometry', () => {
+    it('should snap values to the image levels for wall heights', () => {
+      const imageData: ProcessedImageData = {
+        data: [[12, 200]],
+        width: 2,
+        height: 1,
+        levels: [8, 210]
+      };
+
+      const geometry = generateShadowCasterGeometry(imageData, null, config);
+      const heights = geometry.leftWalls.map(wall => wall.size[2]);
+
+      // Gray 8 covers 97% of the 1.7mm of open floor and gray 210 18%
+      expect(heights[0]).toBeCloseTo(1.6);
+      expect(heights[1]).toBeCloseTo(0.3);
+    });
+
+    describe('four directions', () => {
+      const image: ProcessedImageData = { data: [[0, 255], [128, 64]], width: 2, height: 2 };
+      const fourWay = () => generateShadowCasterGeometry(image, image, config, image, image);
+      const w = config.wallWidth;
+
+      it('should stand right walls inside the right edge, back to back with the next left wall', () => {
+        const geometry = fourWay();
+
+        expect(geometry.rightWalls).toHaveLength(4);
+        geometry.rightWalls.forEach((wall, i) => {
+          expect(wall.size.slice(0, 2)).toEqual(geometry.leftWalls[i].size.slice(0, 2));
+          expect(wall.position[1]).toBeCloseTo(geometry.leftWalls[i].position[1]);
+        });
+        expect(geometry.rightWalls[0].position[0] + w / 2).toBeCloseTo(geometry.leftWalls[1].position[0] - w / 2);
+      });
+
+      it('should stand down walls back to back with the up walls of the row below', () => {
+        const geometry = fourWay();
+
+        expect(geometry.downWalls).toHaveLength(4);
+        geometry.downWalls.forEach((wall, i) => {
+          expect(wall.size.slice(0, 2)).toEqual(geometry.upWalls[i].size.slice(0, 2));
+          expect(wall.position[0]).toBeCloseTo(geometry.upWalls[i].position[0]);
+        });
+        // Top row's down walls against the bottom row's up walls
+        expect(geometry.downWalls[0].position[1] - w / 2).toBeCloseTo(geometry.upWalls[2].position[1] + w / 2);
+      });
+
+      it('should give back-to-back walls one height between their two images', () => {
+        const geometry = fourWay();
+        const alone = generateShadowCasterGeometry(null, null, config, image, image);
+
+        // A black right wall behind a white left wall meets it in the middle
+        expect(geometry.rightWalls[0].size[2]).toBeCloseTo(geometry.leftWalls[1].size[2]);
+        expect(geometry.rightWalls[0].size[2]).toBeLessThan(alone.rightWalls[0].size[2]);
+        expect(geometry.leftWalls[1].size[2]).toBeGreaterThan(generateShadowCasterGeometry(image, null, config).leftWalls[1].size[2]);
+        expect(geometry.rightWalls[0].position[2] - geometry.rightWalls[0].size[2] / 2).toBeCloseTo(config.bottomThk);
+        expect(geometry.downWalls[0].size[2]).toBeCloseTo(geometry.upWalls[2].size[2]);
+        // The last column's right walls and the top row's up walls stand
+        // alone, across the floor from the walls facing them
+        const horizontalPair = generateShadowCasterGeometry(image, null, config, image, null);
+        const verticalPair = generateShadowCasterGeometry(null, image, config, null, image);
+        expect(geometry.rightWalls[1].size[2]).toBeCloseTo(horizontalPair.rightWalls[1].size[2]);
+        expect(geometry.upWalls[0].size[2]).toBeCloseTo(verticalPair.upWalls[0].size[2]);
+        expect(geometry.upWalls[0].size[2]).toBeLessThan(generateShadowCasterGeometry(null, image, config).upWalls[0].size[2]);
+      });
+
+      it('should keep every wall on the base without overlapping a parallel one', () => {
+        const geometry = fourWay();
+        const extent = (wall: WallGeometry, axis: number) =>
+          [wall.position[axis] - wall.size[axis] / 2, wall.position[axis] + wall.size[axis] / 2];
+        const overlap = (a: WallGeometry, b: WallGeometry, axis: number) => {
+          const [aMin, aMax] = extent(a, axis);
+          const [bMin, bMax] = extent(b, axis);
+          return Math.min(aMax, bMax) - Math.max(aMin, bMin) > 1e-9;
+        };
+
+        // Crossing walls share the corners of cells, as they always have
+        [
+          [...geometry.leftWalls, ...geometry.rightWalls],
+          [...geometry.upWalls, ...geometry.downWalls]
+        ].forEach(walls => walls.forEach((a, i) => {
+          [0, 1].forEach(axis => {
+            expect(extent(a, axis)[0]).toBeGreaterThanOrEqual(0);
+            expect(extent(a, axis)[1]).toBeLessThanOrEqual(geometry.base[0].size[axis] + 1e-9);
+          });
+          walls.slice(i + 1).forEach(b => expect(overlap(a, b, 0) && overlap(a, b, 1)).toBe(false));
+        }));
+      });
+
+      it('should leave out right and down walls with plus walls', () => {
+        const plusConfig = computeImageConfig({ ...config, plusWalls: true });
+        const geometry = generateShadowCasterGeometry(image, image, plusConfig, image, image);
+
+        expect(geometry.rightWalls).toEqual([]);
+        expect(geometry.downWalls).toEqual([]);
+        expect(layoutImages(plusConfig)).toEqual({ right: false, down: false });
+        expect(layoutImages(config)).toEqual({ right: true, down: true });
+      });
+    });
+
+    describe('plus walls', () => {
+      const image: ProcessedImageData = { data: [[0, 255], [128, 64]], width: 2, height: 2 };
+      const plusConfig = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 6, plusWalls: true });
+      // Half the open floor: 0.5 * (2.1 - 0.4)
+      const offset = 0.85;
+
+      it('should move left walls right by half the open floor', () => {
+        const plain = generateShadowCasterGeometry(image, null, config);
+        const plus = generateShadowCasterGeometry(image, null, plusConfig);
+
+        plus.leftWalls.forEach((wall, i) => {
+          expect(wall.position[0]).toBeCloseTo(plain.leftWalls[i].position[0] + offset);
+          expect(wall.position[1]).toBeCloseTo(plain.leftWalls[i].position[1]);
+          expect(wall.size).toEqual(plain.leftWalls[i].size);
+        });
+        // Centred in the first column: border + cellSize / 2
+        expect(plus.leftWalls[0].position[0]).toBeCloseTo(2.1 + 1.05);
+      });
+
+      it('should move up walls back by half the open floor', () => {
+        const plain = generateShadowCasterGeometry(null, image, config);
+        const plus = generateShadowCasterGeometry(null, image, plusConfig);
+
+        plus.upWalls.forEach((wall, i) => {
+          expect(wall.position[0]).toBeCloseTo(plain.upWalls[i].position[0]);
+          expect(wall.position[1]).toBeCloseTo(plain.upWalls[i].position[1] + offset);
+          expect(wall.size).toEqual(plain.upWalls[i].size);
+        });
+        // The bottom row's up wall stands just above the boundary with the row
+        // above, border + cellSize + wallWidth / 2, then moves back by the offset
+        expect(plus.upWalls[2].position[1]).toBeCloseTo(2.1 + 3.15);
+      });
+
+      it('should cross the two wall sets mid-cell and keep them on the base', () => {
+        const geometry = generateShadowCasterGeometry(image, image, plusConfig);
+        const [baseX, baseY] = geometry.base[0].size;
+
+        // The top-left left wall and the bottom-left up wall cross at their centres
+        const [left, up] = [geometry.leftWalls[0], geometry.upWalls[2]];
+        expect(left.position[0]).toBeCloseTo(up.position[0]);
+        expect(left.position[1]).toBeCloseTo(up.position[1]);
+        [...geometry.leftWalls, ...geometry.upWalls].forEach(wall => {
+          expect(wall.position[0] + wall.size[0] / 2).toBeLessThanOrEqual(baseX);
+          expect(wall.position[1] + wall.size[1] / 2).toBeLessThanOrEqual(baseY);
+        });
+      });
+
+      it('should name plus-wall models as such', () => {
+        expect(plusConfig.outputFilename).toMatch(/_pluswalls\.stl$/);
+        expect(config.outputFilename).not.toContain('pluswalls');
+      });
+    });
+
+    describe('hex layout', () => {
+      const hexConfig = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 6, layout: 'hex' });
+      const image: ProcessedImageData = { data: [[0, 255, 128], [64, 0, 255]], width: 3, height: 2 };
+      const inset = hexConfig.cellSize / 2 - hexConfig.wallWidth / 2;
+
+      it('should put one wall set on each of three alternate edges', () => {
+        const geometry = generateShadowCasterGeometry(image, image, hexConfig, image);
+        const sets: [WallGeometry[], number][] = [
+          [geometry.leftWalls, HEX_WALL_ANGLES.left],
+          [geometry.upWalls, HEX_WALL_ANGLES.up],
+          [geometry.rightWalls, HEX_WALL_ANGLES.right]
+        ];
+
+        sets.forEach(([walls, angle]) => {
+          expect(walls).toHaveLength(6);
+          walls.forEach((wall, i) => {
+            const [x, y] = hexCellCenter(i % 3, Math.floor(i / 3), 2, hexConfig.cellSize, hexConfig.border);
+            expect(Math.hypot(wall.position[0] - x, wall.position[1] - y)).toBeCloseTo(inset);
+            expect(Math.atan2(wall.position[1] - y, wall.position[0] - x) * 180 / Math.PI)
+              .toBeCloseTo(angle > 180 ? angle - 360 : angle);
+          });
+        });
+
+        // Up walls run along x; the others are turned to their edge
+        expect(geometry.upWalls[0].rotation).toBeUndefined();
+        expect(geometry.upWalls[0].size[0]).toBeCloseTo(HEX_SIDE * hexConfig.cellSize);
+        expect(geometry.leftWalls[0].rotation).toBe(210);
+        expect(geometry.rightWalls[0].rotation).toBe(330);
+        expect(geometry.rightWalls[0].size[1]).toBeCloseTo(HEX_SIDE * hexConfig.cellSize);
+      });
+
+      it('should size the base to the lattice plus the border', () => {
+        const geometry = generateShadowCasterGeometry(null, null, hexConfig, image);
+        const grid = hexGridSize(3, 2, hexConfig.cellSize);
+
+        expect(geometry.base[0].size[0]).toBeCloseTo(grid.width + 2 * hexConfig.border);
+        expect(geometry.base[0].size[1]).toBeCloseTo(grid.height + 2 * hexConfig.border);
+        expect(geometry.leftWalls).toEqual([]);
+        expect(geometry.upWalls).toEqual([]);
+      });
+
+      it('should ignore the down image', () => {
+        const geometry = generateShadowCasterGeometry(image, image, hexConfig, image, image);
+        expect(geometry.downWalls).toEqual([]);
+      });
+
+      it('should name hex models as such', () => {
+        expect(hexConfig.outputFilename).toMatch(/_hex\.stl$/);
+      });
+    });
+
+    describe('cylinder shape', () => {
+      const image: ProcessedImageData = { data: [[0, 255, 128], [64, 0, 255]], width: 3, height: 2 };
+
+      it('should turn every wall onto the tube', () => {
+        const cylinderConfig = computeImageConfig({ ...config, shape: 'cylinder' });
+        const geometry = generateShadowCasterGeometry(image, image, cylinderConfig, image, image);
+        const flat = generateShadowCasterGeometry(image, image, config, image, image);
+
+        expect(allWalls(geometry)).toHaveLength(allWalls(flat).length);
+        allWalls(geometry).forEach(wall => expect(wall.rotation).toBeDefined());
+        expect(cylinderConfig.outputFilename).toMatch(/_cylinder\.stl$/);
+      });
+
+      it('should leave hex models flat', () => {
+        const hexCylinder = computeImageConfig({ ...config, layout: 'hex', shape: 'cylinder' });
+        const geometry = generateShadowCasterGeometry(image, null, hexCylinder);
+
+        expect(geometry.base).toHaveLength(1);
+        expect(geometry.leftWalls[0].rotation).toBe(210);
+      });
+    });
+  });
+
+  describe('createThreeGeometry', () => {
+    const imageData = (data: number[][]): ProcessedImageData => ({
+      data,
+      width: data[0].length,
+      height: data.length
+    });
+
+    const instanceBox = (mesh: THREE.InstancedMesh, index: number) => {
+      const matrix = new THREE.Matrix4();
+      mesh.getMatrixAt(index, matrix);
+      const position = new THREE.Vector3();
+      const scale = new THREE.Vector3();
+      matrix.decompose(position, new THREE.Quaternion(), scale);
+      return { position: position.toArray(), size: scale.toArray() };
+    };
+
+    it('should render each wall set as a single instanced mesh', () => {
+      const geometry = generateShadowCasterGeometry(
+        imageData([[0, 128, 255], [255, 0, 64]]),
+        imageData([[255, 0, 255], [0, 255, 0]]),
+        config
+      );
+      const group = createThreeGeometry(geometry);
+
+      // The base and all four wall sets, empty or not
+      expect(group.children).toHaveLength(5);
+      const leftWalls = group.getObjectByName('leftWalls') as THREE.InstancedMesh;
+      const upWalls = group.getObjectByName('upWalls') as THREE.InstancedMesh;
+      expect(leftWalls).toBeInstanceOf(THREE.InstancedMesh);
+      expect(leftWalls.count).toBe(6);
+      expect(upWalls.count).toBe(6);
+
+      geometry.leftWalls.forEach((wall, i) => {
+        const box = instanceBox(leftWalls, i);
+        box.position.forEach((v, axis) => expect(v).toBeCloseTo(wall.position[axis]));
+        box.size.forEach((v, axis) => expect(v).toBeCloseTo(wall.size[axis]));
+      });
+
+      disposeGroup(group);
+    });
+
+    it('should update wall heights in place when the wall count is unchanged', () => {
+      const before = generateShadowCasterGeometry(imageData([[0, 255]]), null, config);
+      const after = generateShadowCasterGeometry(imageData([[255, 0]]), null, config);
+      const group = createThreeGeometry(before);
+      const leftWalls = group.getObjectByName('leftWalls') as THREE.InstancedMesh;
+
+      expect(updateThreeGeometry(group, after)).toBe(true);
+      expect(group.getObjectByName('leftWalls')).toBe(leftWalls);
+      expect(instanceBox(leftWalls, 0).size[2]).toBeCloseTo(after.leftWalls[0].size[2]);
+      expect(instanceBox(leftWalls, 1).size[2]).toBeCloseTo(after.leftWalls[1].size[2]);
+
+      disposeGroup(group);
+    });
+
+    it('should refuse to update in place when the wall count changes', () => {
+      const group = createThreeGeometry(generateShadowCasterGeometry(imageData([[0, 255]]), null, config));
+      const larger = generateShadowCasterGeometry(imageData([[0, 255, 0]]), null, config);
+
+      expect(updateThreeGeometry(group, larger)).toBe(false);
+
+      disposeGroup(group);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { grayForLitFraction, heightForCoverage, lightElevation, litFraction, openFloorWidth } from '../heightModel';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+
+describe('heightModel', () => {
+  describe('litFraction', () => {
+    it('should take gray values as the lit share under the linear model', () => {
+      expect(litFraction(0, 'linear')).toBe(0);
+      expect(litFraction(255, 'linear')).toBe(1);
+      expect(litFraction(51, 'linear')).toBeCloseTo(0.2);
+    });
+
+    it('should decode sRGB under the perceptual model', () => {
+      expect(litFraction(0, 'perceptual')).toBe(0);
+      expect(litFraction(255, 'perceptual')).toBeCloseTo(1);
+      expect(litFraction(128, 'perceptual')).toBeCloseTo(0.216, 3);
+      expect(litFraction(5, 'perceptual')).toBeCloseTo(5 / 255 / 12.92);
+    });
+
+    it('should be undone by grayForLitFraction', () => {
+      (['linear', 'perceptual'] as const).forEach(model => {
+        [0, 3, 10, 64, 128, 200, 255].forEach(gray => {
+          expect(grayForLitFraction(litFraction(gray, model), model)).toBeCloseTo(gray, 6);
+        });
+      });
+    });
+  });
+
+  describe('openFloorWidth', () => {
+    const config = { cellSize: 2.1, wallWidth: 0.4 };
+
+    it('should leave the cell less its own wall, and the wall facing it if any', () => {
+      expect(openFloorWidth(config)).toBeCloseTo(1.7);
+      expect(openFloorWidth(config, true)).toBeCloseTo(1.3);
+      expect(openFloorWidth({ cellSize: 1, wallWidth: 0.6 }, true)).toBe(0);
+    });
+  });
+
+  describe('heightForCoverage', () => {
+    it('should cast a shadow over the given share of the open floor', () => {
+      expect(heightForCoverage(1, 45, 1.7)).toBeCloseTo(1.7);
+      expect(heightForCoverage(0.5, 45, 1.7)).toBeCloseTo(0.85);
+      expect(heightForCoverage(0.5, 30, 1.7)).toBeCloseTo(0.85 / Math.sqrt(3));
+      expect(heightForCoverage(0, 60, 1.7)).toBe(0);
+    });
+  });
+
+  describe('config', () => {
+    it('should read each direction its own elevation', () => {
+      const config = { ...defaultConfig, horizLightElevation: 30, downLightElevation: 70 };
+
+      expect(lightElevation(config, 'horizontal')).toBe(30);
+      expect(lightElevation(config, 'vertical')).toBe(45);
+      expect(lightElevation(config, 'down')).toBe(70);
+    });
+
+    it('should size the palette for the lowest light and the height for the steepest', () => {
+      const config = computeImageConfig({ ...defaultConfig, horizLightElevation: 30, vertLightElevation: 60 });
+
+      // 1.7mm of open floor: 0.98mm of walls at 30 degrees, 2.94mm at 60
+      expect(config.numberOfColors).toBe(9);
+      expect(config.maxHeight).toBeCloseTo(2.9);
+      expect(computeImageConfig(defaultConfig).numberOfColors).toBe(17);
+      expect(computeImageConfig(defaultConfig).maxHeight).toBeCloseTo(1.7);
+    });
+  });
+});
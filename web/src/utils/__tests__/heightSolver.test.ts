@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { canOptimizeHeights, optimizeWallHeights } from '../heightSolver';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { wrapWall } from '../cylinder';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+// 1mm cells with 0.4mm walls: the crossing strips are 40% of a cell's depth
+const config = computeImageConfig({ ...defaultConfig, cellSize: 1, wallWidth: 0.4, layerHeight: 0.05 });
+
+function pattern(width: number, height: number, seed: number): ProcessedImageData {
+  return {
+    data: Array.from({ length: height }, (_, y) =>
+      Array.from({ length: width }, (_, x) => ((x * 7 + y * 13 + seed) * 37) % 256)
+    ),
+    width,
+    height
+  };
+}
+
+describe('heightSolver', () => {
+  const horiz = pattern(8, 6, 1);
+  const vert = pattern(8, 6, 5);
+
+  it('should lower the error of both images', () => {
+    const geometry = generateShadowCasterGeometry(horiz, vert, config);
+    const { report } = optimizeWallHeights(geometry, horiz, vert, config);
+
+    expect(report.horizontal!.after).toBeLessThan(report.horizontal!.before);
+    expect(report.vertical!.after).toBeLessThan(report.vertical!.before);
+    expect(report.iterations).toBeGreaterThan(0);
+  });
+
+  it('should keep walls on the base in whole layers no taller than a full cover', () => {
+    const geometry = generateShadowCasterGeometry(horiz, vert, config);
+    const solved = optimizeWallHeights(geometry, horiz, vert, config).geometry;
+
+    [...solved.leftWalls, ...solved.upWalls].forEach(wall => {
+      const layers = wall.size[2] / config.layerHeight;
+      expect(layers).toBeCloseTo(Math.round(layers));
+      expect(wall.size[2]).toBeGreaterThanOrEqual(config.layerHeight - 1e-9);
+      expect(wall.size[2]).toBeLessThanOrEqual(0.6 + 1e-9);
+      expect(wall.position[2] - wall.size[2] / 2).toBeCloseTo(config.bottomThk);
+    });
+    expect(solved.leftWalls.map(wall => wall.position.slice(0, 2)))
+      .toEqual(geometry.leftWalls.map(wall => wall.position.slice(0, 2)));
+    expect(solved.base).toBe(geometry.base);
+  });
+
+  it('should leave a lone image as the independent heights made it', () => {
+    const geometry = generateShadowCasterGeometry(horiz, null, config);
+    const { geometry: solved, report } = optimizeWallHeights(geometry, horiz, null, config);
+
+    solved.leftWalls.forEach((wall, i) => expect(wall.size[2]).toBeCloseTo(geometry.leftWalls[i].size[2]));
+    expect(report.horizontal!.after).toBeCloseTo(report.horizontal!.before);
+    expect(report.vertical).toBeNull();
+  });
+
+  it('should solve a cylinder as if it were unwrapped', () => {
+    const cylinderConfig = computeImageConfig({ ...config, shape: 'cylinder' });
+    const flat = optimizeWallHeights(generateShadowCasterGeometry(horiz, vert, config), horiz, vert, config);
+    const wrapped = optimizeWallHeights(
+      generateShadowCasterGeometry(horiz, vert, cylinderConfig),
+      horiz,
+      vert,
+      cylinderConfig
+    );
+
+    expect(wrapped.report.horizontal!.after).toBeCloseTo(flat.report.horizontal!.after);
+    wrapped.geometry.upWalls.forEach((wall, i) => {
+      const expected = wrapWall(flat.geometry.upWalls[i], cylinderConfig);
+      wall.position.forEach((value, axis) => expect(value).toBeCloseTo(expected.position[axis]));
+    });
+  });
+
+  it('should keep back-to-back walls at one height while lowering the combined error', () => {
+    const right = pattern(8, 6, 9);
+    const down = pattern(8, 6, 11);
+    const geometry = generateShadowCasterGeometry(horiz, vert, config, right, down);
+    const { geometry: solved, report } = optimizeWallHeights(geometry, horiz, vert, config, right, down);
+
+    // Every image has a pixel for every wall, so the squared errors add up
+    const errors = [report.horizontal!, report.vertical!, report.right!, report.down!];
+    const total = (key: 'before' | 'after') => errors.reduce((sum, error) => sum + error[key] ** 2, 0);
+    expect(total('after')).toBeLessThan(total('before'));
+    solved.rightWalls.forEach((wall, i) => {
+      if (i % 8 < 7) expect(wall.size[2]).toBeCloseTo(solved.leftWalls[i + 1].size[2]);
+    });
+    solved.downWalls.forEach((wall, i) => {
+      if (i < 40) expect(wall.size[2]).toBeCloseTo(solved.upWalls[i + 8].size[2]);
+    });
+  });
+
+  it('should only take plain square cells', () => {
+    expect(canOptimizeHeights(config)).toBe(true);
+    expect(canOptimizeHeights({ ...config, plusWalls: true })).toBe(false);
+    expect(canOptimizeHeights({ ...config, layout: 'hex' })).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HEX_COLUMN_PITCH,
+  HEX_SIDE,
+  hexCellAt,
+  hexCellCenter,
+  hexGridSize,
+  hexLatticeRows,
+  sampleHexLattice
+} from '../hexGrid';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const image = (data: number[][]): ProcessedImageData => ({ data, width: data[0].length, height: data.length });
+
+describe('hexGrid', () => {
+  describe('sampleHexLattice', () => {
+    it('should keep the columns and shrink the rows to the column pitch', () => {
+      const sampled = sampleHexLattice(image(Array.from({ length: 10 }, () => [255, 255, 255, 255])));
+
+      expect(sampled.width).toBe(4);
+      expect(sampled.height).toBe(hexLatticeRows(10));
+      expect(sampled.height).toBe(9);
+      sampled.data.forEach(row => expect(row).toEqual([255, 255, 255, 255]));
+    });
+
+    it('should sample odd columns half a cell lower', () => {
+      // Darkens towards the bottom
+      const gradient = image(Array.from({ length: 8 }, (_, y) => [255 - y * 30, 255 - y * 30]));
+      const sampled = sampleHexLattice(gradient);
+
+      // The last row of both columns clamps to the image's bottom edge
+      sampled.data.slice(0, -1).forEach(row => expect(row[1]).toBeLessThan(row[0]));
+    });
+
+    it('should keep at least one row', () => {
+      expect(hexLatticeRows(1)).toBe(1);
+      expect(sampleHexLattice(image([[10, 20, 30]])).data).toHaveLength(1);
+    });
+  });
+
+  describe('lattice geometry', () => {
+    it('should fit every cell inside the grid footprint', () => {
+      const cellSize = 2;
+      const { width, height } = hexGridSize(3, 2, cellSize);
+
+      for (let column = 0; column < 3; column++) {
+        for (let row = 0; row < 2; row++) {
+          const [x, y] = hexCellCenter(column, row, 2, cellSize, 0);
+          // Corners are one side from the centre, flats half a cell
+          expect(x - HEX_SIDE * cellSize).toBeGreaterThanOrEqual(-1e-9);
+          expect(x + HEX_SIDE * cellSize).toBeLessThanOrEqual(width + 1e-9);
+          expect(y - cellSize / 2).toBeGreaterThanOrEqual(-1e-9);
+          expect(y + cellSize / 2).toBeLessThanOrEqual(height + 1e-9);
+        }
+      }
+    });
+
+    it('should space columns by the pitch and neighbouring centres a cell apart', () => {
+      const [x0, y0] = hexCellCenter(0, 0, 2, 1, 0);
+      const [x1, y1] = hexCellCenter(1, 0, 2, 1, 0);
+
+      expect(x1 - x0).toBeCloseTo(HEX_COLUMN_PITCH);
+      expect(Math.hypot(x1 - x0, y1 - y0)).toBeCloseTo(1);
+    });
+
+    it('should find the cell of every centre, rows counted from the bottom', () => {
+      const rows = 3;
+      for (let column = 0; column < 4; column++) {
+        for (let row = 0; row < rows; row++) {
+          const [x, y] = hexCellCenter(column, row, rows, 2.1, 5);
+          expect(hexCellAt(x, y, 2.1, 5)).toEqual({ column, row: rows - 1 - row });
+        }
+      }
+    });
+  });
+});
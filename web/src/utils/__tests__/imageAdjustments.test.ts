@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adjustBrightness,
+  adjustContrast,
+  applyAdjustments,
+  applyGamma,
+  applyLevels,
+  autoLevels,
+  clahe,
+  defaultAdjustments,
+  equalizeHistogram,
+  invertImage
+} from '../imageAdjustments';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const image = (data: number[][]): ProcessedImageData => ({
+  data,
+  width: data[0].length,
+  height: data.length
+});
+
+const round = (imageData: ProcessedImageData) =>
+  imageData.data.map(row => row.map(value => Math.round(value)));
+
+describe('imageAdjustments', () => {
+  describe('adjustBrightness', () => {
+    it('should shift values and clamp to 0-255', () => {
+      const result = adjustBrightness(image([[0, 100, 250]]), 20);
+      expect(round(result)).toEqual([[51, 151, 255]]);
+    });
+  });
+
+  describe('adjustContrast', () => {
+    it('should stretch values away from mid gray', () => {
+      const result = adjustContrast(image([[64, 128, 192]]), 50);
+      expect(result.data[0][0]).toBeLessThan(64);
+      expect(result.data[0][1]).toBe(128);
+      expect(result.data[0][2]).toBeGreaterThan(192);
+    });
+
+    it('should flatten everything to mid gray at -100', () => {
+      const result = adjustContrast(image([[0, 255]]), -100);
+      expect(round(result)).toEqual([[128, 128]]);
+    });
+  });
+
+  describe('applyGamma', () => {
+    it('should leave black and white fixed and brighten midtones above 1', () => {
+      const result = applyGamma(image([[0, 64, 255]]), 2);
+      expect(round(result)).toEqual([[0, 128, 255]]);
+    });
+  });
+
+  describe('applyLevels', () => {
+    it('should map the black and white points to 0 and 255', () => {
+      const result = applyLevels(image([[10, 50, 90, 200]]), 50, 90);
+      expect(round(result)).toEqual([[0, 0, 255, 255]]);
+      expect(applyLevels(image([[70]]), 50, 90).data[0][0]).toBeCloseTo(127.5);
+    });
+  });
+
+  describe('autoLevels', () => {
+    it('should stretch a narrow histogram to the full range', () => {
+      const result = autoLevels(image([[100, 120], [140, 160]]));
+      expect(round(result)).toEqual([[0, 85], [170, 255]]);
+    });
+
+    it('should leave a flat image alone', () => {
+      expect(autoLevels(image([[90, 90]])).data).toEqual([[90, 90]]);
+    });
+  });
+
+  describe('equalizeHistogram', () => {
+    it('should spread values evenly across the range', () => {
+      const result = equalizeHistogram(image([[10, 10, 20, 30]]));
+      expect(result.data).toEqual([[0, 0, 128, 255]]);
+    });
+  });
+
+  describe('clahe', () => {
+    it('should equalize each tile independently', () => {
+      // Left half is dark, right half is bright; each side gets its own contrast
+      const input = image([
+        [10, 20, 200, 210],
+        [10, 20, 200, 210]
+      ]);
+      const result = clahe(input, 2, 100);
+
+      expect(result.data[0][0]).toBeLessThan(result.data[0][1]);
+      expect(result.data[0][2]).toBeLessThan(result.data[0][3]);
+      // The dark side is stretched far more than a global equalization would
+      expect(result.data[0][1] - result.data[0][0]).toBeGreaterThan(10);
+    });
+
+    it('should limit contrast amplification with a low clip limit', () => {
+      const input = image([
+        [100, 101, 100, 101],
+        [101, 100, 101, 100]
+      ]);
+      const unlimited = clahe(input, 1, 1000);
+      const limited = clahe(input, 1, 1);
+
+      const spread = (imageData: ProcessedImageData) =>
+        Math.max(...imageData.data.flat()) - Math.min(...imageData.data.flat());
+      expect(spread(limited)).toBeLessThan(spread(unlimited));
+    });
+  });
+
+  describe('invertImage', () => {
+    it('should flip values', () => {
+      expect(invertImage(image([[0, 55, 255]])).data).toEqual([[255, 200, 0]]);
+    });
+  });
+
+  describe('applyAdjustments', () => {
+    it('should pass the image through unchanged with default adjustments', () => {
+      const input = image([[0, 128], [64, 255]]);
+      expect(applyAdjustments(input, defaultAdjustments)).toBe(input);
+    });
+
+    it('should apply levels before inverting', () => {
+      const result = applyAdjustments(image([[50, 90]]), {
+        ...defaultAdjustments,
+        blackPoint: 50,
+        whitePoint: 90,
+        invert: true
+      });
+      expect(round(result)).toEqual([[255, 0]]);
+    });
+
+    it('should not modify the input', () => {
+      const input = image([[10, 200]]);
+      applyAdjustments(input, { ...defaultAdjustments, brightness: 50, equalization: 'clahe' });
+      expect(input.data).toEqual([[10, 200]]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  cropPixelRect,
+  defaultCrop,
+  drawCroppedImage,
+  fitCropToAspect,
+  isIdentityCrop,
+  transformedSize
+} from '../imageCrop';
+import { decodedToGrayscale } from '../imageDecoding';
+
+const createMockContext = () => ({
+  save: vi.fn(),
+  restore: vi.fn(),
+  fillRect: vi.fn(),
+  scale: vi.fn(),
+  translate: vi.fn(),
+  rotate: vi.fn(),
+  drawImage: vi.fn(),
+  getImageData: vi.fn(),
+  fillStyle: ''
+});
+
+describe('imageCrop', () => {
+  describe('transformedSize', () => {
+    it('should swap sides for quarter turns', () => {
+      expect(transformedSize(400, 300, defaultCrop)).toEqual({ width: 400, height: 300 });
+      expect(transformedSize(400, 300, { ...defaultCrop, quarterTurns: 1 })).toEqual({ width: 300, height: 400 });
+      expect(transformedSize(400, 300, { ...defaultCrop, quarterTurns: 2 })).toEqual({ width: 400, height: 300 });
+    });
+
+    it('should grow to the bounding box for fine angles', () => {
+      const size = transformedSize(100, 100, { ...defaultCrop, angle: 45 });
+      expect(size.width).toBeCloseTo(141.42, 1);
+      expect(size.height).toBeCloseTo(141.42, 1);
+    });
+  });
+
+  describe('cropPixelRect', () => {
+    it('should scale the normalized crop to rotated pixels', () => {
+      const crop = { ...defaultCrop, x: 0.25, y: 0.5, width: 0.5, height: 0.25, quarterTurns: 1 };
+      expect(cropPixelRect(400, 200, crop)).toEqual({ x: 50, y: 200, width: 100, height: 100 });
+    });
+  });
+
+  describe('fitCropToAspect', () => {
+    it('should shrink the wider side around the centre', () => {
+      // 400x200 image, full crop, forced square -> 200x200 centred horizontally
+      const fitted = fitCropToAspect(defaultCrop, 400, 200, 1);
+      expect(fitted.width).toBeCloseTo(0.5);
+      expect(fitted.height).toBeCloseTo(1);
+      expect(fitted.x).toBeCloseTo(0.25);
+      expect(fitted.y).toBeCloseTo(0);
+    });
+
+    it('should give two differently shaped images the same pixel aspect', () => {
+      const landscape = cropPixelRect(600, 400, fitCropToAspect(defaultCrop, 600, 400, 4 / 3));
+      const portrait = cropPixelRect(300, 500, fitCropToAspect(defaultCrop, 300, 500, 4 / 3));
+      expect(landscape.width / landscape.height).toBeCloseTo(4 / 3);
+      expect(portrait.width / portrait.height).toBeCloseTo(4 / 3);
+    });
+
+    it('should leave the crop alone without an aspect ratio', () => {
+      const crop = { ...defaultCrop, width: 0.3, height: 0.8 };
+      expect(fitCropToAspect(crop, 100, 100, 0)).toEqual(crop);
+    });
+  });
+
+  describe('isIdentityCrop', () => {
+    it('should detect untouched crops', () => {
+      expect(isIdentityCrop(defaultCrop)).toBe(true);
+      expect(isIdentityCrop({ ...defaultCrop, flipVertical: true })).toBe(false);
+      expect(isIdentityCrop({ ...defaultCrop, width: 0.9 })).toBe(false);
+    });
+  });
+
+  describe('drawCroppedImage', () => {
+    it('should map the crop rectangle onto the target canvas', () => {
+      const ctx = createMockContext();
+      const img = { width: 200, height: 100 } as HTMLImageElement;
+      const crop = { ...defaultCrop, x: 0.5, y: 0, width: 0.5, height: 1, flipHorizontal: true };
+
+      drawCroppedImage(ctx as unknown as CanvasRenderingContext2D, img, crop, 10, 10);
+
+      expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 10, 10);
+      expect(ctx.scale).toHaveBeenNthCalledWith(1, 0.1, 0.1);
+      expect(ctx.translate).toHaveBeenCalledWith(0, 50);
+      expect(ctx.rotate).toHaveBeenCalledWith(0);
+      expect(ctx.scale).toHaveBeenNthCalledWith(2, -1, 1);
+      expect(ctx.drawImage).toHaveBeenCalledWith(img, -100, -50);
+      expect(ctx.restore).toHaveBeenCalled();
+    });
+  });
+
+  describe('decodedToGrayscale with a crop', () => {
+    it('should size the output from the cropped region', () => {
+      const image = { width: 200, height: 100, data: new Uint8ClampedArray(200 * 100 * 4).fill(255) };
+      const result = decodedToGrayscale(image, 4, { ...defaultCrop, quarterTurns: 1, height: 0.25 });
+
+      // Rotated the image is 100x200; a quarter of its height is 100x50, so 4x2
+      expect(result.width).toBe(4);
+      expect(result.height).toBe(2);
+      expect(result.data[0][0]).toBe(255);
+    });
+  });
+});
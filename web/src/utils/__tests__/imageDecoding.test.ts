@@ -0,0 +1,132 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  bitmapImageDecoder,
+  decodedToGrayscale,
+  decodeImageBytes,
+  defaultImageDecoder,
+  pureImageDecoder
+} from '../imageDecoding';
+import { defaultCrop } from '../imageCrop';
+import type { DecodedImage } from '../imageDecoding';
+
+// An opaque gray image from rows of levels
+function grayImage(rows: number[][]): DecodedImage {
+  return {
+    width: rows[0].length,
+    height: rows.length,
+    data: new Uint8ClampedArray(rows.flat().flatMap(value => [value, value, value, 255]))
+  };
+}
+
+describe('DOM-free image decoding', () => {
+  it('should refuse files that are not PNG or JPEG', () => {
+    expect(() => decodeImageBytes(new Uint8Array([0x47, 0x49, 0x46, 0x38]))).toThrow('Unsupported image format');
+  });
+
+  it('should use the same luminance weights as the canvas path', () => {
+    const image: DecodedImage = { width: 1, height: 1, data: new Uint8ClampedArray([200, 100, 50, 255]) };
+    expect(decodedToGrayscale(image, 1).data).toEqual([[Math.round(0.299 * 200 + 0.587 * 100 + 0.114 * 50)]]);
+  });
+
+  it('should composite transparent pixels onto white', () => {
+    const image: DecodedImage = { width: 2, height: 1, data: new Uint8ClampedArray([0, 0, 0, 0, 0, 0, 0, 128]) };
+    expect(decodedToGrayscale(image, 2).data).toEqual([[255, 127]]);
+  });
+
+  it('should average the pixels under each output pixel when shrinking', () => {
+    const image = grayImage([
+      [0, 100, 200, 200],
+      [100, 200, 0, 0]
+    ]);
+    const result = decodedToGrayscale(image, 2);
+
+    expect(result.width).toBe(2);
+    expect(result.height).toBe(1);
+    expect(result.data).toEqual([[100, 100]]);
+  });
+
+  it('should weigh partly covered pixels by their coverage', () => {
+    // Each of the two outputs covers one and a half source pixels
+    const result = decodedToGrayscale(grayImage([[0, 90, 180]]), 2);
+    expect(result.data).toEqual([[30, 150]]);
+  });
+
+  it('should turn the image a quarter clockwise exactly', () => {
+    const image = grayImage([
+      [10, 20, 30],
+      [40, 50, 60]
+    ]);
+    const result = decodedToGrayscale(image, 2, { ...defaultCrop, quarterTurns: 1 });
+
+    expect(result.data).toEqual([
+      [40, 10],
+      [50, 20],
+      [60, 30]
+    ]);
+  });
+
+  it('should flip and crop in the rotated image', () => {
+    const image = grayImage([[10, 20, 30, 40]]);
+    const result = decodedToGrayscale(image, 2, { ...defaultCrop, flipHorizontal: true, x: 0.5, width: 0.5 });
+    expect(result.data).toEqual([[20, 10]]);
+  });
+
+  it('should fill corners uncovered by a fine rotation with white', () => {
+    const image = grayImage(Array.from({ length: 20 }, () => new Array(20).fill(0)));
+    const result = decodedToGrayscale(image, 20, { ...defaultCrop, angle: 45 });
+
+    expect(result.data[0][0]).toBe(255);
+    expect(result.data[10][10]).toBe(0);
+  });
+
+  it('should resample with the chosen filter', () => {
+    const edge = grayImage([Array.from({ length: 12 }, (_, x) => (x < 6 ? 0 : 255))]);
+    const area = decodedToGrayscale(edge, 4, undefined, 'area');
+    const lanczos = decodedToGrayscale(edge, 4, undefined, 'lanczos');
+
+    expect(area.data).toEqual([[0, 0, 255, 255]]);
+    expect(lanczos.data).not.toEqual(area.data);
+  });
+
+  describe('decoders', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should decode a photo file without the DOM', async () => {
+      const bytes = fs.readFileSync(path.join(process.cwd(), '..', 'talia_headshot.jpg'));
+      const image = await pureImageDecoder.decode(new Blob([bytes]));
+
+      expect(image.width).toBe(777);
+      expect(image.height).toBe(777);
+      expect(image.data.length).toBe(777 * 777 * 4);
+    });
+
+    it('should read pixels through an ImageBitmap and OffscreenCanvas', async () => {
+      const pixels = new Uint8ClampedArray([1, 2, 3, 4, 5, 6, 7, 8]);
+      const bitmap = { width: 2, height: 1, close: vi.fn() };
+      const ctx = { drawImage: vi.fn(), getImageData: vi.fn().mockReturnValue({ data: pixels }) };
+      vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue(bitmap));
+      vi.stubGlobal('OffscreenCanvas', vi.fn().mockImplementation(() => ({ getContext: () => ctx })));
+
+      const image = await bitmapImageDecoder.decode(new Blob([]));
+
+      expect(image).toEqual({ width: 2, height: 1, data: pixels });
+      expect(OffscreenCanvas).toHaveBeenCalledWith(2, 1);
+      expect(ctx.drawImage).toHaveBeenCalledWith(bitmap, 0, 0);
+      expect(bitmap.close).toHaveBeenCalled();
+    });
+
+    it('should use the browser decoder only where it exists', () => {
+      vi.stubGlobal('createImageBitmap', undefined);
+      expect(defaultImageDecoder()).toBe(pureImageDecoder);
+
+      vi.stubGlobal('createImageBitmap', vi.fn());
+      vi.stubGlobal('OffscreenCanvas', vi.fn());
+      expect(defaultImageDecoder()).toBe(bitmapImageDecoder);
+    });
+  });
+});
@@ -1,41 +1,19 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { 
-  resizeAndGrayscale, 
+  loadGrayscaleImage, 
   ditherImage, 
   roundToLayerHeight
 } from '../imageProcessing';
+import { defaultCrop } from '../imageCrop';
 import type { ProcessedImageData } from '../imageProcessing';
+import type { DecodedImage, ImageDecoder } from '../imageDecoding';
 
-// Mock HTMLImageElement
-const createMockImage = (width: number, height: number) => {
-  const img = {
-    width,
-    height,
-    src: ''
-  } as HTMLImageElement;
-  return img;
-};
-
-// Mock canvas context
-const createMockContext = (imageData: Uint8ClampedArray) => {
-  return {
-    drawImage: vi.fn(),
-    getImageData: vi.fn().mockReturnValue({
-      data: imageData,
-      width: 2,
-      height: 2
-    })
-  };
-};
-
-// Mock document.createElement
-(globalThis as any).document = {
-  createElement: vi.fn().mockReturnValue({
-    width: 0,
-    height: 0,
-    getContext: vi.fn()
-  })
-} as any;
+// A decoder that ignores the file and returns the given pixels
+const createStubDecoder = (width: number, height: number, pixels: number[]): ImageDecoder => ({
+  decode: async (): Promise<DecodedImage> => ({ width, height, data: new Uint8ClampedArray(pixels) })
+});
+
+const file = new Blob([]);
 
 describe('imageProcessing', () => {
   describe('roundToLayerHeight', () => {
@@ -51,54 +29,37 @@ describe('imageProcessing', () => {
     });
   });
 
-  describe('resizeAndGrayscale', () => {
-    it('should create canvas with correct dimensions', () => {
-      const mockCanvas = {
-        width: 0,
-        height: 0,
-        getContext: vi.fn().mockReturnValue(createMockContext(new Uint8ClampedArray([
-          255, 255, 255, 255, // white pixel
-          0, 0, 0, 255,       // black pixel
-          128, 128, 128, 255, // gray pixel
-          255, 0, 0, 255      // red pixel
-        ])))
-      };
-
-      (globalThis as any).document.createElement = vi.fn().mockReturnValue(mockCanvas);
-      (globalThis as any).URL = { revokeObjectURL: vi.fn() } as any;
+  describe('loadGrayscaleImage', () => {
+    it('should resize to the requested width keeping the aspect ratio', async () => {
+      const decoder = createStubDecoder(4, 4, new Array(4 * 4 * 4).fill(255));
+      const result = await loadGrayscaleImage(file, 2, {}, decoder);
 
-      const img = createMockImage(4, 4);
-      const result = resizeAndGrayscale(img, 2);
-
-      expect(mockCanvas.width).toBe(2);
-      expect(mockCanvas.height).toBe(2);
       expect(result.width).toBe(2);
       expect(result.height).toBe(2);
     });
 
-    it('should convert RGB to grayscale correctly', () => {
-      const mockCanvas = {
-        width: 0,
-        height: 0,
-        getContext: vi.fn().mockReturnValue(createMockContext(new Uint8ClampedArray([
-          255, 255, 255, 255, // white -> 255
-          0, 0, 0, 255,       // black -> 0
-          255, 0, 0, 255,     // red -> ~76
-          0, 255, 0, 255      // green -> ~149
-        ])))
-      };
-
-      (globalThis as any).document.createElement = vi.fn().mockReturnValue(mockCanvas);
-      (globalThis as any).URL = { revokeObjectURL: vi.fn() } as any;
-
-      const img = createMockImage(2, 2);
-      const result = resizeAndGrayscale(img, 2);
+    it('should convert RGB to grayscale correctly', async () => {
+      const decoder = createStubDecoder(2, 2, [
+        255, 255, 255, 255, // white -> 255
+        0, 0, 0, 255,       // black -> 0
+        255, 0, 0, 255,     // red -> ~76
+        0, 255, 0, 255      // green -> ~149
+      ]);
+      const result = await loadGrayscaleImage(file, 2, {}, decoder);
 
       expect(result.data[0][0]).toBe(255); // white
       expect(result.data[0][1]).toBe(0);   // black
       expect(result.data[1][0]).toBe(76);  // red (0.299 * 255)
       expect(result.data[1][1]).toBe(150); // green (0.587 * 255 = 149.685, rounded to 150)
     });
+
+    it('should fit the crop to the aspect ratio before resizing', async () => {
+      const decoder = createStubDecoder(40, 10, new Array(40 * 10 * 4).fill(255));
+      const result = await loadGrayscaleImage(file, 8, { crop: defaultCrop, aspectRatio: 2 }, decoder);
+
+      expect(result.width).toBe(8);
+      expect(result.height).toBe(4);
+    });
   });
 
   describe('ditherImage', () => {
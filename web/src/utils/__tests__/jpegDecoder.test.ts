@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { decodeJPEG, isJPEG } from '../jpegDecoder';
+
+// Writes entropy-coded bits, stuffing a zero after every 0xFF byte
+class BitWriter {
+  bytes: number[] = [];
+  private current = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | ((value >> i) & 1);
+      if (++this.count === 8) this.flushByte();
+    }
+  }
+
+  // Pad the last byte with ones, as encoders do before a marker
+  align(): void {
+    while (this.count !== 0) this.write(1, 1);
+  }
+
+  private flushByte(): void {
+    this.bytes.push(this.current);
+    if (this.current === 0xff) this.bytes.push(0);
+    this.current = 0;
+    this.count = 0;
+  }
+}
+
+function segment(marker: number, data: number[]): number[] {
+  const length = data.length + 2;
+  return [0xff, marker, length >> 8, length & 255, ...data];
+}
+
+interface BlockComponent {
+  // Flat sample value of each 8x8 block, in scan order
+  blocks: number[];
+}
+
+// A baseline JPEG whose blocks are each a flat colour, so only DC
+// coefficients are coded. Components are 1x1 sampled; a restart interval
+// puts a marker after every block.
+function encodeFlatJPEG(
+  width: number,
+  height: number,
+  components: BlockComponent[],
+  restartInterval = 0
+): Uint8Array {
+  // DC table: categories 0-11 as 4-bit codes; AC table: just end-of-block
+  const dcTable = [0x00, 0, 0, 0, 12, ...new Array(12).fill(0), ...Array.from({ length: 12 }, (_, i) => i)];
+  const acTable = [0x10, 1, ...new Array(15).fill(0), 0x00];
+
+  const writer = new BitWriter();
+  const predictors = components.map(() => 0);
+  const blockCount = components[0].blocks.length;
+  for (let block = 0; block < blockCount; block++) {
+    if (restartInterval && block > 0 && block % restartInterval === 0) {
+      writer.align();
+      writer.bytes.push(0xff, 0xd0 + ((block / restartInterval - 1) & 7));
+      predictors.fill(0);
+    }
+    components.forEach((component, c) => {
+      // With every quantizer 1, a DC of 8 * (v - 128) decodes to v
+      const dc = 8 * (component.blocks[block] - 128);
+      const diff = dc - predictors[c];
+      predictors[c] = dc;
+      const category = diff === 0 ? 0 : Math.floor(Math.log2(Math.abs(diff))) + 1;
+      writer.write(category, 4);
+      writer.write(diff >= 0 ? diff : diff + (1 << category) - 1, category);
+      writer.write(0, 1);
+    });
+  }
+  writer.align();
+
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xdb, [0, ...new Array(64).fill(1)]),
+    ...segment(0xc0, [8, height >> 8, height & 255, width >> 8, width & 255, components.length,
+      ...components.flatMap((_, c) => [c + 1, 0x11, 0])]),
+    ...segment(0xc4, [...dcTable, ...acTable]),
+    ...(restartInterval ? segment(0xdd, [restartInterval >> 8, restartInterval & 255]) : []),
+    ...segment(0xda, [components.length, ...components.flatMap((_, c) => [c + 1, 0x00]), 0, 63, 0]),
+    ...writer.bytes,
+    0xff, 0xd9
+  ]);
+}
+
+function pixel(image: { width: number; data: Uint8ClampedArray }, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(offset, offset + 4));
+}
+
+describe('JPEG decoder', () => {
+  it('should recognise the JPEG signature', () => {
+    expect(isJPEG(encodeFlatJPEG(8, 8, [{ blocks: [0] }]))).toBe(true);
+    expect(isJPEG(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(false);
+    expect(() => decodeJPEG(new Uint8Array([0, 1, 2]))).toThrow('Not a JPEG file');
+  });
+
+  it('should decode a baseline grayscale image', () => {
+    const image = decodeJPEG(encodeFlatJPEG(16, 8, [{ blocks: [0, 255] }]));
+
+    expect(image.width).toBe(16);
+    expect(image.height).toBe(8);
+    expect(pixel(image, 3, 3)).toEqual([0, 0, 0, 255]);
+    expect(pixel(image, 12, 5)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should crop partial blocks to the image size', () => {
+    const image = decodeJPEG(encodeFlatJPEG(10, 3, [{ blocks: [40, 90] }]));
+
+    expect(image.data.length).toBe(10 * 3 * 4);
+    expect(pixel(image, 9, 2)).toEqual([90, 90, 90, 255]);
+  });
+
+  it('should reset predictions at restart markers', () => {
+    const image = decodeJPEG(encodeFlatJPEG(24, 8, [{ blocks: [20, 220, 120] }], 1));
+
+    expect(pixel(image, 0, 0)[0]).toBe(20);
+    expect(pixel(image, 8, 0)[0]).toBe(220);
+    expect(pixel(image, 16, 0)[0]).toBe(120);
+  });
+
+  it('should convert YCbCr to RGB', () => {
+    // Red, green and blue in full-range YCbCr
+    const image = decodeJPEG(encodeFlatJPEG(24, 8, [
+      { blocks: [76, 150, 29] },
+      { blocks: [85, 44, 255] },
+      { blocks: [255, 21, 107] }
+    ]));
+
+    const [red, green, blue] = [0, 8, 16].map(x => pixel(image, x, 0));
+    expect(red[0]).toBeGreaterThan(250);
+    expect(Math.max(red[1], red[2])).toBeLessThan(5);
+    expect(green[1]).toBeGreaterThan(250);
+    expect(Math.max(green[0], green[2])).toBeLessThan(5);
+    expect(blue[2]).toBeGreaterThan(250);
+    expect(Math.max(blue[0], blue[1])).toBeLessThan(5);
+  });
+
+  it('should decode a progressive photo', () => {
+    // One of the sample headshots at the root of the repository
+    const bytes = new Uint8Array(fs.readFileSync(path.join(process.cwd(), '..', 'silas_headshot.jpg')));
+    const image = decodeJPEG(bytes);
+
+    expect(image.width).toBe(1200);
+    expect(image.height).toBe(1200);
+    // Dark hair, and reddish skin on the chin
+    expect(Math.max(...pixel(image, 600, 300).slice(0, 3))).toBeLessThan(60);
+    const [r, g, b] = pixel(image, 600, 980);
+    expect(r).toBeGreaterThan(g);
+    expect(g).toBeGreaterThan(b);
+  });
+});
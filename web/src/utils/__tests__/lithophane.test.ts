@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { generateLithophaneGeometry, lithophaneThicknessForValue } from '../lithophane';
+import { cylinderRadius } from '../cylinder';
+import { allWalls } from '../geometryGenerator';
+import { defaultExportOptions, encodeExport } from '../exportFormats';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+// 0.8mm white to 3mm black in 0.1mm layers
+const config = computeImageConfig({ ...defaultConfig, mode: 'lithophane', cellSize: 0.5, widthInPixels: 4 });
+
+const image: ProcessedImageData = {
+  data: [
+    [0, 85, 170, 255],
+    [255, 170, 85, 0]
+  ],
+  width: 4,
+  height: 2
+};
+
+describe('lithophane', () => {
+  it('should run from bottomThk for white to the full thickness for black', () => {
+    expect(lithophaneThicknessForValue(255, undefined, config)).toBeCloseTo(0.8);
+    expect(lithophaneThicknessForValue(0, undefined, config)).toBeCloseTo(3);
+    // Two thirds dark: 0.8 + 2/3 * 2.2 rounds to 2.3
+    expect(lithophaneThicknessForValue(85, undefined, config)).toBeCloseTo(2.3);
+    // Snapped to the nearest level, which keeps its own gray: 200 is not white
+    expect(lithophaneThicknessForValue(255, [40, 90, 130, 200], config)).toBeCloseTo(1.3);
+  });
+
+  it('should give each layer of thickness its own color', () => {
+    expect(config.numberOfColors).toBe(23);
+    expect(config.maxHeight).toBeCloseTo(3);
+    expect(config.outputFilename).toBe('lithophane_4px_0.50cell_0.80-3mm.stl');
+    expect(computeImageConfig({ ...config, lithophaneShape: 'curved' }).outputFilename).toMatch(/_curved\.stl$/);
+  });
+
+  it('should lay a flat panel out as one column per pixel', () => {
+    const geometry = generateLithophaneGeometry(image, config);
+
+    expect(geometry.base).toHaveLength(8);
+    expect(allWalls(geometry)).toEqual([]);
+    geometry.base.forEach(column => {
+      expect(column.position[2] - column.size[2] / 2).toBeCloseTo(0);
+      expect(column.size.slice(0, 2)).toEqual([0.5, 0.5]);
+    });
+    // The top left pixel is black
+    expect(geometry.base[0].size[2]).toBeCloseTo(3);
+    expect(geometry.base[0].position[1]).toBeGreaterThan(geometry.base[4].position[1]);
+  });
+
+  it('should export through the STL path under its own name', () => {
+    const [file] = encodeExport(generateLithophaneGeometry(image, config), config, 'stl', defaultExportOptions);
+    const view = new DataView(file.data.buffer, file.data.byteOffset, file.data.byteLength);
+
+    expect(file.filename).toBe(config.outputFilename);
+    // One watertight mesh: a height field over the panel
+    expect(view.getUint32(80, true)).toBeGreaterThan(12);
+    expect(file.data.byteLength).toBe(84 + 50 * view.getUint32(80, true));
+  });
+
+  it('should stand a cylinder with its plain side on the tube and the relief facing out', () => {
+    const cylinder = computeImageConfig({ ...config, lithophaneShape: 'cylinder' });
+    const geometry = generateLithophaneGeometry(image, cylinder);
+    const radius = cylinderRadius(cylinder);
+
+    geometry.base.forEach(column => {
+      const radians = column.rotation! * Math.PI / 180;
+      const outward = column.position[0] * Math.cos(radians) + column.position[1] * Math.sin(radians);
+      expect(outward - column.size[0] / 2).toBeCloseTo(radius);
+    });
+    expect(geometry.base[0].size[0]).toBeCloseTo(3);
+    expect(new Set(geometry.base.map(column => column.rotation))).toEqual(new Set([45, 135, 225, 315]));
+  });
+
+  it('should bend a curved panel through its arc', () => {
+    const curved = computeImageConfig({ ...config, lithophaneShape: 'curved', lithophaneArc: 80 });
+    const rotations = generateLithophaneGeometry(image, curved).base.map(column => column.rotation!);
+
+    expect(Math.min(...rotations)).toBeCloseTo(10);
+    expect(Math.max(...rotations)).toBeCloseTo(70);
+    expect(cylinderRadius(curved, 80)).toBeGreaterThan(cylinderRadius(curved));
+  });
+});
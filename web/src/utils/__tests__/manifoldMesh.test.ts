@@ -0,0 +1,274 @@
+import { describe, it, expect } from 'vitest';
+import { buildBoxUnionMesh, buildManifoldMesh, canBuildManifoldMesh } from '../manifoldMesh';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { IndexedMesh } from '../manifoldMesh';
+import type { ShadowCasterGeometry, WallGeometry } from '../geometryGenerator';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const config = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 4 });
+
+// Every directed edge must appear exactly once and its reverse exactly once:
+// each edge joins exactly two triangles, wound consistently.
+function edgeProblems(mesh: IndexedMesh): string[] {
+  const directed = new Map<string, number>();
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    for (let e = 0; e < 3; e++) {
+      const key = `${mesh.indices[t + e]},${mesh.indices[t + (e + 1) % 3]}`;
+      directed.set(key, (directed.get(key) ?? 0) + 1);
+    }
+  }
+
+  const problems: string[] = [];
+  directed.forEach((count, key) => {
+    const [a, b] = key.split(',');
+    const reverse = directed.get(`${b},${a}`) ?? 0;
+    if (count !== 1 || reverse !== 1) {
+      problems.push(`edge ${key} used ${count} times, reversed ${reverse} times`);
+    }
+  });
+  return problems;
+}
+
+function vertex(mesh: IndexedMesh, index: number): [number, number, number] {
+  return [mesh.positions[index * 3], mesh.positions[index * 3 + 1], mesh.positions[index * 3 + 2]];
+}
+
+// Signed volume by the divergence theorem; positive when normals face out
+function signedVolume(mesh: IndexedMesh): number {
+  let volume = 0;
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    const [a, b, c] = [0, 1, 2].map(n => vertex(mesh, mesh.indices[t + n]));
+    volume += (
+      a[0] * (b[1] * c[2] - b[2] * c[1]) -
+      a[1] * (b[0] * c[2] - b[2] * c[0]) +
+      a[2] * (b[0] * c[1] - b[1] * c[0])
+    ) / 6;
+  }
+  return volume;
+}
+
+function hasDegenerateTriangles(mesh: IndexedMesh): boolean {
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    const [a, b, c] = [0, 1, 2].map(n => vertex(mesh, mesh.indices[t + n]));
+    const ab = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const ac = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const cross = [
+      ab[1] * ac[2] - ab[2] * ac[1],
+      ab[2] * ac[0] - ab[0] * ac[2],
+      ab[0] * ac[1] - ab[1] * ac[0]
+    ];
+    if (Math.hypot(...cross) < 1e-9) return true;
+  }
+  return false;
+}
+
+// Pieces of the mesh not joined to each other by any vertex
+function shellCount(mesh: IndexedMesh): number {
+  const parent = Array.from({ length: mesh.positions.length / 3 }, (_, i) => i);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    parent[root(mesh.indices[t + 1])] = root(mesh.indices[t]);
+    parent[root(mesh.indices[t + 2])] = root(mesh.indices[t]);
+  }
+  return new Set(Array.from(mesh.indices, root)).size;
+}
+
+const boxVolume = (box: WallGeometry) => box.size[0] * box.size[1] * box.size[2];
+
+const box = (min: [number, number, number], max: [number, number, number]): WallGeometry => ({
+  position: [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2],
+  size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]]
+});
+
+describe('buildManifoldMesh', () => {
+  it('should mesh a lone base as a closed box', () => {
+    const geometry: ShadowCasterGeometry = {
+      base: [box([0, 0, 0], [10, 5, 1])],
+      leftWalls: [],
+      upWalls: [],
+      rightWalls: [],
+      downWalls: []
+    };
+    const mesh = buildManifoldMesh(geometry, config);
+
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(signedVolume(mesh)).toBeCloseTo(50, 4);
+  });
+
+  it('should produce an edge-manifold union of base and walls', () => {
+    const horiz: ProcessedImageData = {
+      data: [
+        [0, 255, 85, 170],
+        [170, 0, 255, 0],
+        [255, 85, 0, 255]
+      ],
+      width: 4,
+      height: 3
+    };
+    const vert: ProcessedImageData = {
+      data: [
+        [255, 0, 170, 0],
+        [0, 85, 255, 170],
+        [85, 255, 0, 0]
+      ],
+      width: 4,
+      height: 3
+    };
+    const mesh = buildManifoldMesh(generateShadowCasterGeometry(horiz, vert, config), config);
+
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(hasDegenerateTriangles(mesh)).toBe(false);
+    expect(signedVolume(mesh)).toBeGreaterThan(0);
+  });
+
+  it('should enclose exactly the volume of non-overlapping boxes', () => {
+    const horiz: ProcessedImageData = {
+      data: [
+        [0, 255, 128],
+        [64, 0, 255]
+      ],
+      width: 3,
+      height: 2
+    };
+    const geometry = generateShadowCasterGeometry(horiz, null, config);
+    const mesh = buildManifoldMesh(geometry, config);
+
+    // Left walls only touch each other end to end, so nothing overlaps
+    const expected = boxVolume(geometry.base[0]) + geometry.leftWalls.reduce((sum, wall) => sum + boxVolume(wall), 0);
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(signedVolume(mesh)).toBeCloseTo(expected, 3);
+  });
+
+  it('should not count overlapping walls twice', () => {
+    const geometry: ShadowCasterGeometry = {
+      base: [box([0, 0, 0], [10, 10, 1])],
+      leftWalls: [box([2, 2, 1], [3, 8, 4])],
+      upWalls: [box([2, 2, 1], [8, 3, 2])],
+      rightWalls: [],
+      downWalls: []
+    };
+    const mesh = buildManifoldMesh(geometry, config);
+
+    // Base 100, tall wall 18, short wall 6 minus the 1x1x1 they share
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(signedVolume(mesh)).toBeCloseTo(100 + 18 + 5, 4);
+  });
+
+  it('should split edges where two walls touch only diagonally', () => {
+    const geometry: ShadowCasterGeometry = {
+      base: [box([0, 0, 0], [10, 10, 1])],
+      leftWalls: [box([2, 2, 1], [5, 5, 4])],
+      upWalls: [box([5, 5, 1], [8, 8, 3])],
+      rightWalls: [],
+      downWalls: []
+    };
+    const mesh = buildManifoldMesh(geometry, config);
+
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(hasDegenerateTriangles(mesh)).toBe(false);
+    expect(signedVolume(mesh)).toBeCloseTo(100 + 27 + 18, 4);
+  });
+
+  it('should keep the mesh closed for a full size model', () => {
+    const size = 24;
+    const image: ProcessedImageData = {
+      data: Array.from({ length: size }, (_, y) =>
+        Array.from({ length: size }, (_, x) => ((x * 7 + y * 13) % 5) * 60)
+      ),
+      width: size,
+      height: size
+    };
+    const mesh = buildManifoldMesh(generateShadowCasterGeometry(image, image, config), config);
+
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(signedVolume(mesh)).toBeGreaterThan(0);
+  });
+
+  it('should keep the mesh closed with walls on all four sides of the cells', () => {
+    const image: ProcessedImageData = {
+      data: Array.from({ length: 6 }, (_, y) => Array.from({ length: 6 }, (_, x) => ((x * 3 + y * 5) % 4) * 85)),
+      width: 6,
+      height: 6
+    };
+    const mesh = buildManifoldMesh(generateShadowCasterGeometry(image, image, config, image, image), config);
+
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(hasDegenerateTriangles(mesh)).toBe(false);
+    expect(signedVolume(mesh)).toBeGreaterThan(0);
+  });
+
+  it('should add turned hex walls as closed boxes of their own', () => {
+    const hexConfig = computeImageConfig({ ...config, layout: 'hex' });
+    const image: ProcessedImageData = { data: [[0, 85, 255], [170, 0, 85]], width: 3, height: 2 };
+    const geometry = generateShadowCasterGeometry(image, image, hexConfig, image);
+    const mesh = buildManifoldMesh(geometry, hexConfig);
+    // Hex walls stay inside their own cells, so none overlap
+    const volume = [...geometry.base, ...geometry.leftWalls, ...geometry.upWalls, ...geometry.rightWalls]
+      .reduce((sum, wall) => sum + boxVolume(wall), 0);
+
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(hasDegenerateTriangles(mesh)).toBe(false);
+    expect(signedVolume(mesh)).toBeCloseTo(volume, 4);
+  });
+
+  it('should only promise a true union for models without turned walls', () => {
+    expect(canBuildManifoldMesh(config)).toBe(true);
+    expect(canBuildManifoldMesh({ ...config, layout: 'hex' })).toBe(false);
+    expect(canBuildManifoldMesh({ ...config, layout: 'square' })).toBe(true);
+    expect(canBuildManifoldMesh({ ...config, mode: 'lithophane' })).toBe(true);
+    expect(canBuildManifoldMesh({ ...config, mode: 'lithophane', lithophaneShape: 'curved' })).toBe(false);
+  });
+
+  describe('cylinder', () => {
+    const cylinderConfig = computeImageConfig({ ...config, shape: 'cylinder', widthInPixels: 4 });
+    const image: ProcessedImageData = { data: [[0, 85, 255, 170], [170, 0, 85, 255]], width: 4, height: 2 };
+
+    it('should mesh the tube, floor and walls as one closed body', () => {
+      const mesh = buildManifoldMesh(generateShadowCasterGeometry(image, image, cylinderConfig, image, image), cylinderConfig);
+
+      expect(edgeProblems(mesh)).toEqual([]);
+      expect(hasDegenerateTriangles(mesh)).toBe(false);
+      expect(shellCount(mesh)).toBe(1);
+      expect(signedVolume(mesh)).toBeGreaterThan(0);
+    });
+
+    it('should enclose the tube, its floor and walls fanning out from the axis', () => {
+      const geometry = generateShadowCasterGeometry(image, null, cylinderConfig);
+      const mesh = buildManifoldMesh(geometry, cylinderConfig);
+
+      // Four columns make a square tube; walls widen by their height over the radius
+      const { bottomThk: thk, cellSize } = cylinderConfig;
+      const radius = cellSize / 2;
+      const tubeHeight = Math.max(...geometry.base.map(box => box.position[2] + box.size[2] / 2));
+      const square = (apothem: number) => 4 * apothem * apothem;
+      const walls = geometry.leftWalls.reduce((sum, wall) => {
+        const [height, width, length] = wall.size;
+        return sum + width * length * (height + height * height / (2 * radius));
+      }, 0);
+      const volume = square(radius) * thk + (square(radius) - square(radius - thk)) * (tubeHeight - thk) + walls;
+
+      expect(edgeProblems(mesh)).toEqual([]);
+      expect(signedVolume(mesh)).toBeCloseTo(volume, 3);
+    });
+
+    it('should handle more walls than fit in an argument list', () => {
+      // 300 x 260 pixels with two images, all stacked in one cell so the grid stays small
+      const model = generateShadowCasterGeometry(image, null, cylinderConfig);
+      const leftWalls = Array.from({ length: 300 * 260 * 2 }, () => model.leftWalls[0]);
+      const geometry = { ...model, leftWalls };
+
+      const mesh = buildManifoldMesh(geometry, cylinderConfig);
+      expect(edgeProblems(mesh)).toEqual([]);
+    });
+  });
+
+  it('should mesh walls without a base from their own floor', () => {
+    const walls = [box([2, 2, 1], [3, 8, 4]), box([3, 2, 1], [6, 3, 2])];
+    const mesh = buildBoxUnionMesh(walls);
+
+    expect(edgeProblems(mesh)).toEqual([]);
+    expect(signedVolume(mesh)).toBeCloseTo(18 + 3, 4);
+    expect(Math.min(...Array.from(mesh.positions.filter((_, n) => n % 3 === 2)))).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createMTLData, createOBJData } from '../objExporter';
+import { buildManifoldMesh } from '../manifoldMesh';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const config = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 4 });
+
+const image: ProcessedImageData = {
+  data: [
+    [0, 255, 85, 170],
+    [170, 0, 255, 0]
+  ],
+  width: 4,
+  height: 2
+};
+
+const geometry = generateShadowCasterGeometry(image, image, config);
+
+function linesStarting(obj: string, keyword: string): string[][] {
+  return obj.split('\n')
+    .filter(line => line.startsWith(`${keyword} `))
+    .map(line => line.split(' ').slice(1));
+}
+
+describe('OBJ export', () => {
+  it('should write the watertight mesh as one object without materials', () => {
+    const obj = createOBJData(geometry, config, { materialLibrary: null });
+    const mesh = buildManifoldMesh(geometry, config);
+
+    expect(linesStarting(obj, 'o')).toEqual([['shadow_caster']]);
+    expect(linesStarting(obj, 'v')).toHaveLength(mesh.positions.length / 3);
+    expect(linesStarting(obj, 'f')).toHaveLength(mesh.indices.length / 3);
+    expect(obj).not.toContain('mtllib');
+    expect(obj).not.toContain('usemtl');
+  });
+
+  it('should use 1-based face indices that stay within the vertex list', () => {
+    const obj = createOBJData(geometry, config, { materialLibrary: 'model.mtl' });
+    const vertexCount = linesStarting(obj, 'v').length;
+    const indices = linesStarting(obj, 'f').flat().map(Number);
+
+    expect(Math.min(...indices)).toBe(1);
+    expect(Math.max(...indices)).toBe(vertexCount);
+  });
+
+  it('should give the base and walls their own object and material', () => {
+    const obj = createOBJData(geometry, config, { materialLibrary: 'model.mtl' });
+
+    expect(obj).toContain('mtllib model.mtl');
+    expect(linesStarting(obj, 'o')).toEqual([['base'], ['walls']]);
+    expect(linesStarting(obj, 'usemtl')).toEqual([['base'], ['walls']]);
+  });
+
+  it('should define every material the OBJ uses', () => {
+    const obj = createOBJData(geometry, config, { materialLibrary: 'model.mtl' });
+    const defined = linesStarting(createMTLData(), 'newmtl').map(([name]) => name);
+
+    linesStarting(obj, 'usemtl').forEach(([name]) => expect(defined).toContain(name));
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import {
+  jobTransferables,
+  loadImages,
+  packGeometry,
+  packImageData,
+  resultTransferables,
+  runPipeline,
+  unpackGeometry,
+  unpackImageData,
+  unpackImageStages
+} from '../pipeline';
+import { PipelineCancelledError, PipelineClient } from '../pipelineClient';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { defaultExportOptions } from '../exportFormats';
+import { ditherImage } from '../imageProcessing';
+import { hexLatticeRows } from '../hexGrid';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { PipelineProgress } from '../pipeline';
+import type { ProcessedImageData } from '../imageProcessing';
+import type { ImageDecoder } from '../imageDecoding';
+
+const config = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 4 });
+
+const gradient: ProcessedImageData = {
+  data: [
+    [0, 40, 80, 120],
+    [140, 180, 220, 255],
+    [255, 200, 100, 0]
+  ],
+  width: 4,
+  height: 3
+};
+
+describe('pipeline', () => {
+  describe('packing', () => {
+    it('should round-trip image data through a typed array', () => {
+      const packed = packImageData({ ...gradient, levels: [0, 85, 170, 255] });
+
+      expect(packed.pixels).toBeInstanceOf(Float64Array);
+      expect(packed.pixels.length).toBe(12);
+      expect(unpackImageData(packed)).toEqual({ ...gradient, levels: [0, 85, 170, 255] });
+    });
+
+    it('should round-trip geometry through typed arrays', () => {
+      const geometry = generateShadowCasterGeometry(gradient, gradient, config);
+      const packed = packGeometry(geometry);
+
+      expect(packed.leftWalls.length).toBe(geometry.leftWalls.length * 7);
+      expect(unpackGeometry(packed)).toEqual(geometry);
+    });
+
+    it('should round-trip turned hex walls', () => {
+      const hexConfig = computeImageConfig({ ...config, layout: 'hex' });
+      const geometry = generateShadowCasterGeometry(gradient, gradient, hexConfig, gradient);
+
+      expect(geometry.rightWalls[0].rotation).toBe(330);
+      expect(unpackGeometry(packGeometry(geometry))).toEqual(geometry);
+    });
+  });
+
+  describe('runPipeline', () => {
+    it('should produce the same model as processing on the main thread', () => {
+      const result = runPipeline({ horiz: packImageData(gradient), vert: null, right: null, down: null, config });
+
+      const dithered = ditherImage(gradient, config.numberOfColors, {
+        algorithm: config.ditherAlgorithm,
+        quantizer: config.quantizer
+      });
+      const expected = generateShadowCasterGeometry(dithered, null, config);
+
+      expect(unpackImageStages(result.horizStages!).dithered).toEqual(dithered);
+      expect(unpackGeometry(result.geometry)).toEqual(expected);
+      expect(result.vertStages).toBeNull();
+    });
+
+    it('should share the grayscale stage when no adjustments apply', () => {
+      const result = runPipeline({ horiz: packImageData(gradient), vert: null, right: null, down: null, config });
+      const stages = unpackImageStages(result.horizStages!);
+
+      expect(result.horizStages!.adjusted).toBeNull();
+      expect(stages.adjusted).toBe(stages.grayscale);
+    });
+
+    it('should report increasing progress ending at 1', () => {
+      const updates: PipelineProgress[] = [];
+      runPipeline({ horiz: packImageData(gradient), vert: packImageData(gradient), right: null, down: null, config }, p => updates.push(p));
+
+      expect(updates.map(u => u.stage)).toEqual([
+        'Dithering horizontal image',
+        'Dithering vertical image',
+        'Generating geometry',
+        'Done'
+      ]);
+      const fractions = updates.map(u => u.progress);
+      expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+      expect(fractions[fractions.length - 1]).toBe(1);
+    });
+
+    it('should solve the wall heights together when asked', () => {
+      const request = { horiz: packImageData(gradient), vert: packImageData(gradient), right: null, down: null };
+      const updates: PipelineProgress[] = [];
+
+      const plain = runPipeline({ ...request, config });
+      const solved = runPipeline({ ...request, config: { ...config, optimizeHeights: true } }, p => updates.push(p));
+      const plusWalls = runPipeline({ ...request, config: { ...config, optimizeHeights: true, plusWalls: true } });
+
+      expect(plain.heightReport).toBeNull();
+      // The two images trade error; together it only goes down
+      const { horizontal, vertical } = solved.heightReport!;
+      expect(horizontal!.after ** 2 + vertical!.after ** 2)
+        .toBeLessThan(horizontal!.before ** 2 + vertical!.before ** 2);
+      expect(updates.map(u => u.stage)).toContain('Optimizing wall heights');
+      expect(plusWalls.heightReport).toBeNull();
+    });
+
+    it('should sample every image onto the hex lattice and cast the right image', () => {
+      const hexConfig = computeImageConfig({ ...config, layout: 'hex' });
+      const request = { horiz: packImageData(gradient), vert: null, right: packImageData(gradient), down: null };
+
+      const hex = runPipeline({ ...request, config: hexConfig });
+      const dithered = unpackImageStages(hex.rightStages!).dithered;
+      expect(dithered.width).toBe(4);
+      expect(dithered.height).toBe(hexLatticeRows(3));
+      expect(unpackGeometry(hex.geometry).rightWalls).toHaveLength(4 * hexLatticeRows(3));
+
+      // Plus walls leave no room for the right walls
+      const plus = runPipeline({ ...request, config: computeImageConfig({ ...config, plusWalls: true }) });
+      expect(plus.rightStages).toBeNull();
+      expect(unpackGeometry(plus.geometry).rightWalls).toEqual([]);
+    });
+
+    it('should list every result buffer as transferable', () => {
+      const result = runPipeline({ horiz: packImageData(gradient), vert: packImageData(gradient), right: null, down: null, config });
+
+      // grayscale and dithered per image, plus the four wall arrays
+      expect(resultTransferables(result)).toHaveLength(8);
+    });
+  });
+
+  describe('loadImages', () => {
+    // Every file decodes to an 8x4 black image
+    const decoder: ImageDecoder = {
+      decode: async () => ({
+        width: 8,
+        height: 4,
+        data: Uint8ClampedArray.from({ length: 8 * 4 * 4 }, (_, i) => (i % 4 === 3 ? 255 : 0))
+      })
+    };
+    const file = new Blob([]);
+
+    it('should shrink each given image to the model width', async () => {
+      const loaded = await loadImages({ horiz: file, vert: null, right: null, down: null, config: { ...config, widthInPixels: 4 } }, undefined, decoder);
+
+      expect(loaded.vert).toBeNull();
+      expect(unpackImageData(loaded.horiz!)).toEqual({
+        data: [[0, 0, 0, 0], [0, 0, 0, 0]],
+        width: 4,
+        height: 2
+      });
+    });
+
+    it('should apply each image its own crop', async () => {
+      const loaded = await loadImages({
+        horiz: file,
+        vert: file,
+        right: null,
+        down: null,
+        config: { ...config, widthInPixels: 4, vertCrop: { ...config.vertCrop, quarterTurns: 1 } }
+      }, undefined, decoder);
+
+      expect(loaded.horiz!.height).toBe(2);
+      expect(loaded.vert!.height).toBe(8);
+    });
+
+    it('should report progress per image and list the results as transferable', async () => {
+      const updates: PipelineProgress[] = [];
+      const loaded = await loadImages({ horiz: file, vert: file, right: null, down: null, config }, p => updates.push(p), decoder);
+
+      expect(updates.map(u => u.stage)).toEqual(['Loading horizontal image', 'Loading vertical image', 'Done']);
+      expect(resultTransferables(loaded)).toHaveLength(2);
+      expect(jobTransferables({ kind: 'load', request: { horiz: file, vert: file, right: null, down: null, config } })).toEqual([]);
+    });
+  });
+
+  describe('PipelineClient', () => {
+    it('should run jobs inline when workers are unavailable', async () => {
+      const client = new PipelineClient();
+      const result = await client.process({ horiz: packImageData(gradient), vert: null, right: null, down: null, config });
+
+      expect(unpackGeometry(result.geometry).leftWalls).toHaveLength(12);
+    });
+
+    it('should cancel a job when a newer one starts', async () => {
+      const client = new PipelineClient();
+      const first = client.process({ horiz: packImageData(gradient), vert: null, right: null, down: null, config });
+      const second = client.process({ horiz: null, vert: packImageData(gradient), right: null, down: null, config });
+
+      await expect(first).rejects.toBeInstanceOf(PipelineCancelledError);
+      const result = await second;
+      expect(unpackGeometry(result.geometry).upWalls).toHaveLength(12);
+    });
+
+    it('should build STL bytes for a model', async () => {
+      const client = new PipelineClient();
+      const geometry = generateShadowCasterGeometry(gradient, null, config);
+      const boxes = { ...defaultExportOptions, manifoldExport: false, mergeWalls: false };
+      const [stl] = await client.encode(packGeometry(geometry), config, 'stl', boxes);
+
+      // 12 triangles per box: the base and 12 walls
+      const triangles = 12 * 13;
+      expect(stl.filename).toBe(config.outputFilename);
+      expect(stl.data.byteLength).toBe(84 + 50 * triangles);
+      expect(new DataView(stl.data.buffer, stl.data.byteOffset).getUint32(80, true)).toBe(triangles);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { createPLYData } from '../plyExporter';
+import { buildManifoldMesh } from '../manifoldMesh';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const config = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 4 });
+
+const image: ProcessedImageData = {
+  data: [
+    [0, 255, 85],
+    [170, 0, 255]
+  ],
+  width: 3,
+  height: 2
+};
+
+const geometry = generateShadowCasterGeometry(image, image, config);
+const mesh = buildManifoldMesh(geometry, config);
+
+// Split a PLY file into its header lines and the bytes after end_header
+function splitHeader(data: Uint8Array): { header: string[]; body: Uint8Array } {
+  const marker = 'end_header\n';
+  const text = new TextDecoder('latin1').decode(data);
+  const end = text.indexOf(marker) + marker.length;
+  return { header: text.slice(0, end).trim().split('\n'), body: data.subarray(end) };
+}
+
+describe('PLY export', () => {
+  it('should declare the vertex and face counts in the header', () => {
+    const { header } = splitHeader(createPLYData(geometry, config, { binary: true }));
+
+    expect(header[0]).toBe('ply');
+    expect(header).toContain('format binary_little_endian 1.0');
+    expect(header).toContain(`element vertex ${mesh.positions.length / 3}`);
+    expect(header).toContain(`element face ${mesh.indices.length / 3}`);
+    expect(header).toContain('property list uchar int vertex_indices');
+  });
+
+  it('should write binary vertices and faces that read back exactly', () => {
+    const { body } = splitHeader(createPLYData(geometry, config, { binary: true }));
+    const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+
+    expect(body.byteLength).toBe(mesh.positions.length * 4 + (mesh.indices.length / 3) * 13);
+    const positions = Array.from(mesh.positions, (_, i) => view.getFloat32(i * 4, true));
+    expect(positions).toEqual(Array.from(mesh.positions));
+
+    const faces = mesh.positions.length * 4;
+    expect(view.getUint8(faces)).toBe(3);
+    expect([1, 5, 9].map(offset => view.getInt32(faces + offset, true))).toEqual(Array.from(mesh.indices.slice(0, 3)));
+  });
+
+  it('should write the same mesh as ASCII', () => {
+    const { header, body } = splitHeader(createPLYData(geometry, config, { binary: false }));
+    const lines = new TextDecoder().decode(body).trim().split('\n');
+    const vertexCount = mesh.positions.length / 3;
+
+    expect(header).toContain('format ascii 1.0');
+    expect(lines).toHaveLength(vertexCount + mesh.indices.length / 3);
+    expect(lines[0].split(' ').map(Number)).toEqual(Array.from(mesh.positions.slice(0, 3)));
+    expect(lines[vertexCount]).toBe(`3 ${mesh.indices[0]} ${mesh.indices[1]} ${mesh.indices[2]}`);
+  });
+});
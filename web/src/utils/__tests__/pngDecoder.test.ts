@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { zlibSync } from 'fflate';
+import { decodePNG, isPNG } from '../pngDecoder';
+
+interface TestPNG {
+  width: number;
+  height: number;
+  colorType: number;
+  bitDepth: number;
+  // Samples of each row, channel by channel
+  rows: number[][];
+  filter?: number;
+  interlaced?: boolean;
+  palette?: number[];
+  transparency?: number[];
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+];
+
+function chunk(type: string, data: number[] | Uint8Array): number[] {
+  const length = data.length;
+  // The decoder doesn't check CRCs, so leave them zero
+  return [length >>> 24, (length >> 16) & 255, (length >> 8) & 255, length & 255,
+    ...Array.from(type, c => c.charCodeAt(0)), ...data, 0, 0, 0, 0];
+}
+
+function packRow(samples: number[], bitDepth: number): number[] {
+  if (bitDepth === 8) return samples;
+  if (bitDepth === 16) return samples.flatMap(sample => [sample >> 8, sample & 255]);
+  const bytes = new Array(Math.ceil(samples.length * bitDepth / 8)).fill(0);
+  samples.forEach((sample, i) => {
+    const bit = i * bitDepth;
+    bytes[bit >> 3] |= sample << (8 - bitDepth - (bit & 7));
+  });
+  return bytes;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Filter packed rows with one filter type, each row prefixed by its type
+function filterRows(rows: number[][], filter: number, bytesPerPixel: number): number[] {
+  return rows.flatMap((row, y) => {
+    const previous = y > 0 ? rows[y - 1] : row.map(() => 0);
+    return [filter, ...row.map((value, i) => {
+      const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      const predictor = [0, left, previous[i], (left + previous[i]) >> 1, paeth(left, previous[i], upLeft)][filter];
+      return (value - predictor) & 255;
+    })];
+  });
+}
+
+function encodePNG(png: TestPNG): Uint8Array {
+  const channels = CHANNELS[png.colorType];
+  const bytesPerPixel = Math.max(1, (channels * png.bitDepth) >> 3);
+  const passes = png.interlaced ? ADAM7 : [[0, 0, 1, 1]];
+
+  const raw = passes.flatMap(([x0, y0, dx, dy]) => {
+    const rows: number[][] = [];
+    for (let y = y0; y < png.height; y += dy) {
+      const samples: number[] = [];
+      for (let x = x0; x < png.width; x += dx) {
+        samples.push(...png.rows[y].slice(x * channels, (x + 1) * channels));
+      }
+      if (samples.length > 0) rows.push(packRow(samples, png.bitDepth));
+    }
+    return filterRows(rows, png.filter ?? 0, bytesPerPixel);
+  });
+
+  const header = [
+    png.width >>> 24, (png.width >> 16) & 255, (png.width >> 8) & 255, png.width & 255,
+    png.height >>> 24, (png.height >> 16) & 255, (png.height >> 8) & 255, png.height & 255,
+    png.bitDepth, png.colorType, 0, 0, png.interlaced ? 1 : 0
+  ];
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk('IHDR', header),
+    ...(png.palette ? chunk('PLTE', png.palette) : []),
+    ...(png.transparency ? chunk('tRNS', png.transparency) : []),
+    ...chunk('IDAT', zlibSync(new Uint8Array(raw))),
+    ...chunk('IEND', [])
+  ]);
+}
+
+// An RGBA test image whose every byte differs, so filters have work to do
+function gradientRows(width: number, height: number): number[][] {
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width * 4 }, (_, i) => (y * 37 + i * 11 + (i % 4 === 3 ? 200 : 0)) & 255));
+}
+
+describe('PNG decoder', () => {
+  it('should recognise the PNG signature', () => {
+    const png = encodePNG({ width: 1, height: 1, colorType: 0, bitDepth: 8, rows: [[0]] });
+    expect(isPNG(png)).toBe(true);
+    expect(isPNG(new Uint8Array([0xff, 0xd8, 0xff]))).toBe(false);
+    expect(() => decodePNG(new Uint8Array([1, 2, 3]))).toThrow('Not a PNG file');
+  });
+
+  it.each([0, 1, 2, 3, 4])('should undo filter type %i', filter => {
+    const rows = gradientRows(5, 4);
+    const image = decodePNG(encodePNG({ width: 5, height: 4, colorType: 6, bitDepth: 8, rows, filter }));
+
+    expect(image.width).toBe(5);
+    expect(image.height).toBe(4);
+    expect(Array.from(image.data)).toEqual(rows.flat());
+  });
+
+  it('should expand 8-bit gray to opaque RGBA', () => {
+    const image = decodePNG(encodePNG({ width: 2, height: 1, colorType: 0, bitDepth: 8, rows: [[10, 200]] }));
+    expect(Array.from(image.data)).toEqual([10, 10, 10, 255, 200, 200, 200, 255]);
+  });
+
+  it('should scale low bit depth gray levels to 0-255', () => {
+    const image = decodePNG(encodePNG({ width: 4, height: 1, colorType: 0, bitDepth: 2, rows: [[0, 1, 2, 3]] }));
+    expect(Array.from(image.data.filter((_, i) => i % 4 === 0))).toEqual([0, 85, 170, 255]);
+  });
+
+  it('should keep the high byte of 16-bit samples', () => {
+    const image = decodePNG(encodePNG({
+      width: 1, height: 1, colorType: 2, bitDepth: 16, rows: [[0x1234, 0xabcd, 0xff00]]
+    }));
+    expect(Array.from(image.data)).toEqual([0x12, 0xab, 0xff, 255]);
+  });
+
+  it('should look up palette colours and their transparency', () => {
+    const image = decodePNG(encodePNG({
+      width: 3, height: 1, colorType: 3, bitDepth: 4,
+      rows: [[0, 1, 2]],
+      palette: [255, 0, 0, 0, 255, 0, 0, 0, 255],
+      transparency: [128]
+    }));
+    expect(Array.from(image.data)).toEqual([255, 0, 0, 128, 0, 255, 0, 255, 0, 0, 255, 255]);
+  });
+
+  it('should make tRNS key colours transparent', () => {
+    const image = decodePNG(encodePNG({
+      width: 2, height: 1, colorType: 2, bitDepth: 8,
+      rows: [[1, 2, 3, 4, 5, 6]],
+      transparency: [0, 4, 0, 5, 0, 6]
+    }));
+    expect(image.data[3]).toBe(255);
+    expect(image.data[7]).toBe(0);
+  });
+
+  it('should read gray with alpha', () => {
+    const image = decodePNG(encodePNG({ width: 1, height: 1, colorType: 4, bitDepth: 8, rows: [[50, 60]] }));
+    expect(Array.from(image.data)).toEqual([50, 50, 50, 60]);
+  });
+
+  it('should reassemble Adam7 interlaced images', () => {
+    const rows = gradientRows(11, 9);
+    const image = decodePNG(encodePNG({
+      width: 11, height: 9, colorType: 6, bitDepth: 8, rows, filter: 4, interlaced: true
+    }));
+    expect(Array.from(image.data)).toEqual(rows.flat());
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { defaultPrinterProfile, hasErrors, issuesFor, validateConfig, validateGeometry } from '../printability';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig, presetConfigs } from '../../types/ImageConfig';
+import type { ImageConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+function check(changes: Partial<ImageConfig>) {
+  return validateConfig(computeImageConfig({ ...defaultConfig, ...changes }), defaultPrinterProfile);
+}
+
+function blank(width: number, height: number): ProcessedImageData {
+  return {
+    data: Array.from({ length: height }, () => new Array(width).fill(128)),
+    width,
+    height
+  };
+}
+
+describe('printability', () => {
+  describe('validateConfig', () => {
+    it('should pass the default config', () => {
+      expect(check({})).toEqual([]);
+    });
+
+    it('should stop settings the model cannot be built with', () => {
+      expect(issuesFor(check({ layerHeight: 0 }), 'layerHeight')).toEqual([
+        { severity: 'error', field: 'layerHeight', message: 'Layer height must be above 0' }
+      ]);
+      expect(hasErrors(check({ wallWidth: 2.5 }))).toBe(true);
+      expect(hasErrors(check({ widthInPixels: 0 }))).toBe(true);
+      expect(hasErrors(check({ numberOfColorsOverride: -3 }))).toBe(true);
+      expect(hasErrors(check({ numberOfColorsOverride: 1 }))).toBe(true);
+      expect(issuesFor(check({ downLightElevation: 90 }), 'downLightElevation')[0].severity).toBe('error');
+    });
+
+    it('should stop a model too wide for the bed before it is built', () => {
+      expect(issuesFor(check({ widthInPixels: 3000 }), 'widthInPixels')[0].message).toBe('Width can be at most 300 pixels');
+      // 150 cells of 2.1mm and the border come to 320mm
+      expect(issuesFor(check({ widthInPixels: 150 }), 'widthInPixels')[0].message).toMatch(/at least 320mm across/);
+      // Wrapped round, the same cells fit
+      expect(check({ widthInPixels: 150, shape: 'cylinder' })).toEqual([]);
+      expect(check({ widthInPixels: 150, mode: 'lithophane', lithophaneShape: 'cylinder' })).toEqual([]);
+    });
+
+    it('should warn about settings that will print badly', () => {
+      const issues = check({ wallWidth: 0.2, layerHeight: 0.4, numberOfColorsOverride: 40 });
+
+      expect(hasErrors(issues)).toBe(false);
+      expect(issues.map(issue => issue.field)).toEqual(['layerHeight', 'numberOfColorsOverride', 'wallWidth']);
+      // A finer nozzle takes the thin walls of the small preset
+      const fine = { ...defaultPrinterProfile, nozzleDiameter: 0.2, minWallWidth: 0.2 };
+      expect(validateConfig(computeImageConfig(presetConfigs.p2), fine)).toEqual([]);
+    });
+
+    it('should check a lithophane by its thickness instead of its walls', () => {
+      expect(check({ mode: 'lithophane', wallWidth: 5 })).toEqual([]);
+      expect(issuesFor(check({ mode: 'lithophane', lithophaneThickness: 0.5 }), 'lithophaneThickness')).toHaveLength(1);
+      expect(hasErrors(check({ mode: 'lithophane', lithophaneShape: 'curved', lithophaneArc: 400 }))).toBe(true);
+    });
+  });
+
+  describe('validateGeometry', () => {
+    const config = computeImageConfig({ ...defaultConfig, widthInPixels: 20 });
+    const geometry = generateShadowCasterGeometry(blank(20, 10), blank(20, 10), config);
+
+    it('should pass a model that fits the bed either way round', () => {
+      expect(validateGeometry(geometry, defaultPrinterProfile)).toEqual([]);
+      expect(validateGeometry(geometry, { ...defaultPrinterProfile, bedWidth: 30, bedDepth: 50 })).toEqual([]);
+    });
+
+    it('should stop a model too big for the printer', () => {
+      const small = { ...defaultPrinterProfile, bedWidth: 30, bedDepth: 30, maxBuildHeight: 1 };
+      const issues = validateGeometry(geometry, small);
+
+      expect(issues).toHaveLength(2);
+      expect(hasErrors(issues)).toBe(true);
+      expect(issues.every(issue => issue.field === undefined)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeHistogram,
+  computeLevels,
+  kMeansLevels,
+  medianCutLevels,
+  neuQuantLevels
+} from '../quantization';
+import { ditherImage } from '../imageProcessing';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const image = (data: number[][]): ProcessedImageData => ({
+  data,
+  width: data[0].length,
+  height: data.length
+});
+
+// A low-key photo: most pixels are dark with a few highlights and nothing in between
+const lowKey = image([
+  [10, 12, 14, 16, 10, 12, 14, 16],
+  [20, 22, 24, 26, 20, 22, 24, 26],
+  [30, 32, 34, 36, 30, 32, 34, 36],
+  [200, 200, 210, 210, 10, 12, 14, 16]
+]);
+
+const histogramOf = (pairs: [number, number][]) => {
+  const histogram = new Array<number>(256).fill(0);
+  pairs.forEach(([value, count]) => { histogram[value] = count; });
+  return histogram;
+};
+
+describe('quantization', () => {
+  describe('computeHistogram', () => {
+    it('should count rounded and clamped values', () => {
+      const histogram = computeHistogram(image([[0, 0.4, 254.6, 300], [-5, 128, 128, 128]]));
+      expect(histogram[0]).toBe(3);
+      expect(histogram[128]).toBe(3);
+      expect(histogram[255]).toBe(2);
+      expect(histogram.reduce((a, b) => a + b, 0)).toBe(8);
+    });
+  });
+
+  describe('kMeansLevels', () => {
+    it('should find the centres of well separated clusters', () => {
+      const histogram = histogramOf([[10, 5], [12, 5], [100, 4], [104, 4], [250, 1]]);
+      expect(kMeansLevels(histogram, 3)).toEqual([11, 102, 250]);
+    });
+
+    it('should return each tone when there are fewer tones than colors', () => {
+      const histogram = histogramOf([[40, 3], [90, 1]]);
+      expect(kMeansLevels(histogram, 5)).toEqual([40, 90]);
+    });
+  });
+
+  describe('medianCutLevels', () => {
+    it('should split at the widest gap first', () => {
+      const histogram = histogramOf([[0, 1], [2, 1], [200, 1], [202, 1]]);
+      expect(medianCutLevels(histogram, 2)).toEqual([1, 201]);
+    });
+
+    it('should weight levels by pixel count', () => {
+      const histogram = histogramOf([[10, 3], [14, 1], [200, 2], [204, 2]]);
+      expect(medianCutLevels(histogram, 2)).toEqual([11, 202]);
+    });
+  });
+
+  describe('neuQuantLevels', () => {
+    it('should move neurons into the populated part of the histogram', () => {
+      const levels = neuQuantLevels(lowKey, 4, 1);
+      // Evenly spaced levels would put three of four levels above 85
+      expect(levels.filter(level => level < 60).length).toBeGreaterThanOrEqual(2);
+      expect(levels[levels.length - 1]).toBeGreaterThan(100);
+    });
+  });
+
+  describe('computeLevels', () => {
+    it('should return sorted levels no longer than numberOfColors for every quantizer', () => {
+      (['uniform', 'kmeans', 'median-cut', 'neuquant'] as const).forEach(quantizer => {
+        const levels = computeLevels(lowKey, 4, quantizer);
+        expect(levels.length).toBeLessThanOrEqual(4);
+        expect([...levels].sort((a, b) => a - b)).toEqual(levels);
+      });
+    });
+
+    it('should spend more levels on dark tones than uniform steps for a low-key image', () => {
+      const darkLevels = (levels: number[]) => levels.filter(level => level < 60).length;
+      expect(darkLevels(computeLevels(lowKey, 4, 'uniform'))).toBe(1);
+      expect(darkLevels(computeLevels(lowKey, 4, 'kmeans'))).toBe(3);
+      expect(darkLevels(computeLevels(lowKey, 4, 'median-cut'))).toBe(3);
+    });
+  });
+
+  describe('ditherImage', () => {
+    it('should dither onto the adaptive levels and record them', () => {
+      const result = ditherImage(lowKey, 4, { quantizer: 'kmeans' });
+      expect(result.levels).toHaveLength(4);
+      result.data.flat().forEach(value => expect(result.levels).toContain(value));
+    });
+  });
+});
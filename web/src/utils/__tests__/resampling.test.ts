@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { orientPlane, resampleFilterLabels, resamplePlane } from '../resampling';
+import { defaultCrop } from '../imageCrop';
+import type { GrayPlane, ResampleFilter } from '../resampling';
+
+function plane(rows: number[][]): GrayPlane {
+  return { width: rows[0].length, height: rows.length, data: Float32Array.from(rows.flat()) };
+}
+
+function rows(result: GrayPlane): number[][] {
+  return Array.from({ length: result.height }, (_, y) =>
+    Array.from(result.data.subarray(y * result.width, (y + 1) * result.width)));
+}
+
+const filters = Object.keys(resampleFilterLabels) as ResampleFilter[];
+
+describe('resampling', () => {
+  it.each(filters)('should keep a flat image flat with the %s filter', filter => {
+    const flat = plane(Array.from({ length: 9 }, () => new Array(13).fill(120)));
+    const result = resamplePlane(flat, { x: 0, y: 0, width: 13, height: 9 }, 5, 3, filter);
+
+    result.data.forEach(value => expect(value).toBeCloseTo(120, 4));
+  });
+
+  it.each(filters)('should leave a same-size copy unchanged with the %s filter', filter => {
+    const source = plane([[0, 50, 100], [150, 200, 250]]);
+    const result = resamplePlane(source, { x: 0, y: 0, width: 3, height: 2 }, 3, 2, filter);
+
+    rows(result).flat().forEach((value, i) => expect(value).toBeCloseTo(source.data[i], 4));
+  });
+
+  it('should interpolate between pixels when enlarging bilinearly', () => {
+    const result = resamplePlane(plane([[0, 100]]), { x: 0, y: 0, width: 2, height: 1 }, 4, 1, 'bilinear');
+    const [values] = rows(result);
+
+    expect(values[0]).toBeCloseTo(0);
+    expect(values[1]).toBeCloseTo(25);
+    expect(values[2]).toBeCloseTo(75);
+    expect(values[3]).toBeCloseTo(100);
+  });
+
+  it('should average every source pixel when shrinking bilinearly', () => {
+    // Point sampling would see only the 0s or only the 255s
+    const stripes = plane([Array.from({ length: 16 }, (_, x) => (x % 2 ? 255 : 0))]);
+    const result = resamplePlane(stripes, { x: 0, y: 0, width: 16, height: 1 }, 4, 1, 'bilinear');
+
+    rows(result)[0].forEach(value => expect(value).toBeGreaterThan(100));
+    rows(result)[0].forEach(value => expect(value).toBeLessThan(155));
+  });
+
+  it('should keep edges sharper with Lanczos than with area averaging', () => {
+    const edge = plane([Array.from({ length: 30 }, (_, x) => (x < 14 ? 0 : 255))]);
+    const rect = { x: 0, y: 0, width: 30, height: 1 };
+    const contrast = (filter: ResampleFilter) => {
+      const [values] = rows(resamplePlane(edge, rect, 10, 1, filter));
+      return values[5] - values[4];
+    };
+
+    expect(contrast('lanczos')).toBeGreaterThan(contrast('area'));
+  });
+
+  it('should only resample the given rectangle', () => {
+    const source = plane([[10, 20, 30, 40]]);
+    const result = resamplePlane(source, { x: 2, y: 0, width: 2, height: 1 }, 1, 1, 'area');
+    expect(result.data[0]).toBeCloseTo(35);
+  });
+
+  it('should turn a plane half way exactly', () => {
+    const result = orientPlane(plane([[1, 2], [3, 4]]), { ...defaultCrop, quarterTurns: 2 });
+    expect(rows(result)).toEqual([[4, 3], [2, 1]]);
+  });
+
+  it('should flip a plane vertically', () => {
+    const result = orientPlane(plane([[1, 2], [3, 4]]), { ...defaultCrop, flipVertical: true });
+    expect(rows(result)).toEqual([[3, 4], [1, 2]]);
+  });
+});
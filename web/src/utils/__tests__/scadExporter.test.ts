@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { createSCADData } from '../scadExporter';
+import { generateShadowCasterGeometry, mergeAdjacentWalls } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const config = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 4 });
+
+const image: ProcessedImageData = {
+  data: [
+    [0, 0, 255],
+    [85, 170, 255]
+  ],
+  width: 3,
+  height: 2
+};
+
+const geometry = generateShadowCasterGeometry(image, image, config);
+
+// Parse every box statement back into its centre and size
+function parseBoxes(script: string): { position: number[]; size: number[] }[] {
+  const pattern = /(?:move|translate)\(\[([^\]]*)\]\) (?:cuboid|cube)\(\[([^\]]*)\]/g;
+  return Array.from(script.matchAll(pattern), ([, position, size]) => ({
+    position: position.split(',').map(Number),
+    size: size.split(',').map(Number)
+  }));
+}
+
+describe('OpenSCAD export', () => {
+  it('should write BOSL cuboids with the library includes', () => {
+    const script = createSCADData(geometry, config, { useBOSL: true, mergeWalls: false });
+
+    expect(script).toContain('include <BOSL/constants.scad>');
+    expect(script).toContain('use <BOSL/shapes.scad>');
+    expect(script).toMatch(/move\(\[[^\]]*\]\) cuboid\(/);
+    expect(script).not.toContain('cube(');
+  });
+
+  it('should write plain cubes without any library', () => {
+    const script = createSCADData(geometry, config, { useBOSL: false, mergeWalls: false });
+
+    expect(script).not.toContain('BOSL');
+    expect(script).not.toContain('cuboid(');
+    expect(script).toMatch(/translate\(\[[^\]]*\]\) cube\(\[[^\]]*\], center=true\);/);
+  });
+
+  it('should place one box per wall at the geometry positions', () => {
+    const boxes = parseBoxes(createSCADData(geometry, config, { useBOSL: false, mergeWalls: false }));
+    const expected = [...geometry.base, ...geometry.leftWalls, ...geometry.upWalls];
+
+    expect(boxes).toHaveLength(expected.length);
+    boxes.forEach((box, index) => {
+      box.position.forEach((value, axis) => expect(value).toBeCloseTo(expected[index].position[axis], 3));
+      box.size.forEach((value, axis) => expect(value).toBeCloseTo(expected[index].size[axis], 3));
+    });
+  });
+
+  it('should merge runs of equal-height walls when asked', () => {
+    const merged = mergeAdjacentWalls(geometry);
+    const boxes = parseBoxes(createSCADData(geometry, config, { useBOSL: true, mergeWalls: true }));
+
+    expect(boxes).toHaveLength(1 + merged.leftWalls.length + merged.upWalls.length);
+    expect(boxes.length).toBeLessThan(1 + geometry.leftWalls.length + geometry.upWalls.length);
+  });
+
+  it('should keep each part in its own module for editing', () => {
+    const script = createSCADData(geometry, config, { useBOSL: true, mergeWalls: false });
+
+    expect(script).toContain('module base() {');
+    expect(script).toContain('module left_walls() {');
+    expect(script).toContain('module up_walls() {');
+    expect(script).toMatch(/union\(\) \{\n {2}base\(\);\n {2}left_walls\(\);\n {2}up_walls\(\);\n\}/);
+  });
+
+  it('should add modules for right and down walls when the model has them', () => {
+    const fourWay = generateShadowCasterGeometry(image, image, config, image, image);
+    const script = createSCADData(fourWay, config, { useBOSL: true, mergeWalls: false });
+
+    expect(script).toContain('module right_walls() {');
+    expect(script).toContain('module down_walls() {');
+    expect(script).toContain(`// Down image: ${config.downImageFilename}`);
+    expect(script).toMatch(/ {2}up_walls\(\);\n {2}right_walls\(\);\n {2}down_walls\(\);\n\}/);
+  });
+
+  it('should turn hex walls about their centre and add the right walls', () => {
+    const hexConfig = computeImageConfig({ ...config, layout: 'hex' });
+    const hex = generateShadowCasterGeometry(image, image, hexConfig, image);
+    const bosl = createSCADData(hex, hexConfig, { useBOSL: true, mergeWalls: false });
+    const plain = createSCADData(hex, hexConfig, { useBOSL: false, mergeWalls: false });
+
+    expect(bosl).toMatch(/move\(\[[^\]]*\]\) zrot\(210\) cuboid\(/);
+    expect(plain).toMatch(/translate\(\[[^\]]*\]\) rotate\(\[0, 0, 330\]\) cube\(/);
+    expect(bosl).toContain('module right_walls() {');
+    expect(bosl).toContain(`// Right image: ${hexConfig.rightImageFilename}`);
+    expect(createSCADData(geometry, config, { useBOSL: true, mergeWalls: false })).not.toContain('right_walls');
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import { designLightAngles, lightPosition, shadowCoverage, simulateShadowImage } from '../shadowSimulation';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+// 1mm cells with 0.2mm walls leave 0.8mm of open floor; 0.1mm layers, 9 colors
+const config = computeImageConfig({
+  ...defaultConfig,
+  cellSize: 1,
+  wallWidth: 0.2,
+  layerHeight: 0.1,
+  numberOfColorsOverride: 9
+});
+
+describe('shadowSimulation', () => {
+  describe('shadowCoverage', () => {
+    it('should cover the open floor in proportion to wall height at 45 degrees', () => {
+      expect(shadowCoverage(0.4, 0.8)).toBeCloseTo(0.5);
+      expect(shadowCoverage(0.8, 0.8)).toBeCloseTo(1);
+      expect(shadowCoverage(2, 0.8)).toBe(1);
+      expect(shadowCoverage(0, 0.8)).toBe(0);
+    });
+
+    it('should lengthen shadows for a lower light', () => {
+      // tan(30°) = 0.577, so a 0.4mm wall casts a 0.69mm shadow
+      expect(shadowCoverage(0.4, 0.8, 30)).toBeCloseTo(0.866, 2);
+    });
+  });
+
+  describe('simulateShadowImage', () => {
+    const horiz: ProcessedImageData = {
+      data: [
+        [0, 255, 128],
+        [255, 0, 255]
+      ],
+      width: 3,
+      height: 2
+    };
+    const vert: ProcessedImageData = {
+      data: [
+        [255, 255],
+        [0, 255],
+        [255, 0]
+      ],
+      width: 2,
+      height: 3
+    };
+
+    it('should put each wall back at its pixel position', () => {
+      const geometry = generateShadowCasterGeometry(horiz, vert, config);
+      const horizontal = simulateShadowImage(geometry, config, 'horizontal')!;
+      const vertical = simulateShadowImage(geometry, config, 'vertical')!;
+
+      expect(horizontal.width).toBe(3);
+      expect(horizontal.height).toBe(2);
+      expect(vertical.width).toBe(2);
+      expect(vertical.height).toBe(3);
+
+      // Black pixels get the tallest walls and so the darkest shadows
+      expect(horizontal.data[0][0]).toBeLessThan(horizontal.data[0][2]);
+      expect(horizontal.data[0][2]).toBeLessThan(horizontal.data[0][1]);
+      expect(horizontal.data[1][1]).toBeLessThan(horizontal.data[1][0]);
+      expect(vertical.data[1][0]).toBeLessThan(vertical.data[1][1]);
+      expect(vertical.data[2][1]).toBeLessThan(vertical.data[2][0]);
+    });
+
+    it('should match the wall heights exactly', () => {
+      const geometry = generateShadowCasterGeometry(horiz, null, config);
+      const horizontal = simulateShadowImage(geometry, config, 'horizontal')!;
+
+      // Black: 0.8mm + 0.1mm minimum layer covers the whole floor
+      expect(horizontal.data[0][0]).toBe(0);
+      // White: only the 0.1mm minimum layer, 1/8 of the floor
+      expect(horizontal.data[0][1]).toBe(Math.round(255 * 7 / 8));
+    });
+
+    it('should put right and down walls back at their pixel position', () => {
+      const geometry = generateShadowCasterGeometry(horiz, vert, config);
+      const opposite = generateShadowCasterGeometry(null, null, config, horiz, vert);
+
+      expect(simulateShadowImage(opposite, config, 'right')).toEqual(simulateShadowImage(geometry, config, 'horizontal'));
+      expect(simulateShadowImage(opposite, config, 'down')).toEqual(simulateShadowImage(geometry, config, 'vertical'));
+    });
+
+    it('should shade a wall as far as the taller wall behind it', () => {
+      const geometry = generateShadowCasterGeometry(horiz, null, config);
+      // A full-cover right wall in the first column, back to back with the
+      // white second column's left wall
+      const rightWall = { ...geometry.leftWalls[1], position: [...geometry.leftWalls[1].position] as [number, number, number] };
+      rightWall.position[0] -= config.wallWidth;
+      rightWall.size = [rightWall.size[0], rightWall.size[1], 0.8];
+      rightWall.position[2] = config.bottomThk + 0.4;
+      const backed = { ...geometry, rightWalls: [rightWall] };
+
+      expect(simulateShadowImage(geometry, config, 'horizontal')!.data[0][1]).toBe(Math.round(255 * 7 / 8));
+      expect(simulateShadowImage(backed, config, 'horizontal')!.data[0][1]).toBe(0);
+      expect(simulateShadowImage(backed, config, 'right')!.data).toEqual([[0]]);
+    });
+
+    it('should put hex walls back at their lattice position', () => {
+      const hexConfig = computeImageConfig({ ...config, layout: 'hex' });
+      const geometry = generateShadowCasterGeometry(horiz, null, hexConfig, horiz);
+
+      (['horizontal', 'right'] as const).forEach(direction => {
+        const shadow = simulateShadowImage(geometry, hexConfig, direction)!;
+        expect(shadow.width).toBe(3);
+        expect(shadow.height).toBe(2);
+        expect(shadow.data[0][0]).toBe(0);
+        expect(shadow.data[0][0]).toBeLessThan(shadow.data[0][2]);
+        expect(shadow.data[0][2]).toBeLessThan(shadow.data[0][1]);
+        expect(shadow.data[1][1]).toBe(0);
+      });
+    });
+
+    it('should judge a cylinder as if it were unwrapped', () => {
+      const cylinderConfig = computeImageConfig({ ...config, shape: 'cylinder' });
+      const flat = generateShadowCasterGeometry(horiz, vert, config);
+      const wrapped = generateShadowCasterGeometry(horiz, vert, cylinderConfig);
+
+      expect(simulateShadowImage(wrapped, cylinderConfig, 'horizontal'))
+        .toEqual(simulateShadowImage(flat, config, 'horizontal'));
+      expect(simulateShadowImage(wrapped, cylinderConfig, 'vertical'))
+        .toEqual(simulateShadowImage(flat, config, 'vertical'));
+    });
+
+    it('should reproduce the image under its own light and darkness model', () => {
+      const gray: ProcessedImageData = { data: [[0, 64, 128, 192, 255]], width: 5, height: 1 };
+      // Fine layers so rounding to them barely moves the shadows
+      const fine = { ...config, layerHeight: 0.001, numberOfColorsOverride: 0 };
+
+      [
+        computeImageConfig({ ...fine, horizLightElevation: 30 }),
+        computeImageConfig({ ...fine, horizLightElevation: 70, darknessModel: 'perceptual' })
+      ].forEach(lit => {
+        const shadow = simulateShadowImage(generateShadowCasterGeometry(gray, null, lit), lit, 'horizontal')!;
+        shadow.data[0].slice(0, -1).forEach((value, x) => expect(Math.abs(value - gray.data[0][x])).toBeLessThanOrEqual(2));
+        // White still gets the one-layer minimum wall
+        expect(shadow.data[0][4]).toBeGreaterThan(250);
+      });
+    });
+
+    it('should reproduce every image of a four-image model', () => {
+      // Left and right walls of a cell face each other across 0.6mm of
+      // floor, as do up and down walls. Back-to-back walls share a height,
+      // so each right pixel repeats the left pixel of the next column, and
+      // each down pixel the up pixel of the row below.
+      const fine = computeImageConfig({ ...config, layerHeight: 0.001, numberOfColorsOverride: 0 });
+      const left: ProcessedImageData = { data: [[0, 64, 128], [192, 32, 96]], width: 3, height: 2 };
+      const right: ProcessedImageData = { data: [[64, 128, 160], [32, 96, 224]], width: 3, height: 2 };
+      const up: ProcessedImageData = { data: [[0, 200], [64, 128], [160, 32]], width: 2, height: 3 };
+      const down: ProcessedImageData = { data: [[64, 128], [160, 32], [96, 224]], width: 2, height: 3 };
+      const geometry = generateShadowCasterGeometry(left, up, fine, right, down);
+
+      ([
+        ['horizontal', left],
+        ['vertical', up],
+        ['right', right],
+        ['down', down]
+      ] as const).forEach(([direction, image]) => {
+        const shadow = simulateShadowImage(geometry, fine, direction)!;
+        image.data.forEach((row, y) => row.forEach((value, x) => {
+          expect(Math.abs(shadow.data[y][x] - value)).toBeLessThanOrEqual(2);
+        }));
+      });
+    });
+
+    it('should return null when there are no walls for a direction', () => {
+      const geometry = generateShadowCasterGeometry(horiz, null, config);
+      expect(simulateShadowImage(geometry, config, 'vertical')).toBeNull();
+    });
+
+    it('should handle more walls than fit in an argument list', () => {
+      // 300 x 500 pixels, the UI's widest setting with a portrait photo
+      const width = 300;
+      const leftWalls = Array.from({ length: width * 500 }, (_, i) => ({
+        position: [config.border + (i % width) * config.cellSize + 0.1, config.border + (Math.floor(i / width) + 0.5) * config.cellSize, config.bottomThk + 0.2] as [number, number, number],
+        size: [config.wallWidth, config.cellSize, 0.4] as [number, number, number]
+      }));
+      const geometry = { base: [], leftWalls, upWalls: [], rightWalls: [], downWalls: [] };
+
+      const shadow = simulateShadowImage(geometry, config, 'horizontal')!;
+      expect([shadow.width, shadow.height]).toEqual([300, 500]);
+    });
+  });
+
+  describe('light placement', () => {
+    it('should light the left walls from -x and the up walls from +y', () => {
+      const horizontal = lightPosition(designLightAngles('horizontal'), [0, 0, 0], 10);
+      const vertical = lightPosition(designLightAngles('vertical'), [0, 0, 0], 10);
+
+      expect(horizontal[0]).toBeCloseTo(-7.07, 2);
+      expect(horizontal[1]).toBeCloseTo(0);
+      expect(horizontal[2]).toBeCloseTo(7.07, 2);
+      expect(vertical[0]).toBeCloseTo(0);
+      expect(vertical[1]).toBeCloseTo(7.07, 2);
+      expect(vertical[2]).toBeCloseTo(7.07, 2);
+    });
+
+    it('should light the right walls from +x and the down walls from -y', () => {
+      const right = lightPosition(designLightAngles('right'), [0, 0, 0], 10);
+      const down = lightPosition(designLightAngles('down'), [0, 0, 0], 10);
+
+      expect(right[0]).toBeCloseTo(7.07, 2);
+      expect(right[1]).toBeCloseTo(0);
+      expect(down[0]).toBeCloseTo(0);
+      expect(down[1]).toBeCloseTo(-7.07, 2);
+    });
+
+    it('should raise the light to the given elevation', () => {
+      const low = lightPosition(designLightAngles('horizontal', 'square', 30), [0, 0, 0], 10);
+
+      expect(low[0]).toBeCloseTo(-10 * Math.cos(Math.PI / 6));
+      expect(low[2]).toBeCloseTo(5);
+    });
+
+    it('should light hex walls from the outward normal of their edge', () => {
+      const right = lightPosition(designLightAngles('right', 'hex'), [0, 0, 0], 10);
+      const left = lightPosition(designLightAngles('horizontal', 'hex'), [0, 0, 0], 10);
+
+      expect(right[0]).toBeCloseTo(7.07 * Math.cos(Math.PI / 6), 2);
+      expect(right[1]).toBeCloseTo(-7.07 / 2, 2);
+      expect(left[0]).toBeCloseTo(-7.07 * Math.cos(Math.PI / 6), 2);
+      expect(left[1]).toBeCloseTo(-7.07 / 2, 2);
+    });
+
+    it('should offset the light from the target', () => {
+      const [x, y, z] = lightPosition({ azimuth: 0, elevation: 90 }, [5, 6, 1], 20);
+      expect(x).toBeCloseTo(5);
+      expect(y).toBeCloseTo(6);
+      expect(z).toBeCloseTo(21);
+    });
+  });
+});
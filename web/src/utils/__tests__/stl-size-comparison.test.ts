@@ -1,36 +1,12 @@
-import { describe, it, expect, vi } from 'vitest';
-import { generateShadowCasterGeometry } from '../geometryGenerator';
-import { exportToSTL } from '../stlExporter';
+import { describe, it, expect } from 'vitest';
+import { generateShadowCasterGeometry, mergeAdjacentWalls } from '../geometryGenerator';
+import type { WallGeometry } from '../geometryGenerator';
+import { defaultExportOptions, encodeExport } from '../exportFormats';
 import type { ProcessedImageData } from '../imageProcessing';
+import { defaultAdjustments } from '../imageAdjustments';
+import { defaultCrop } from '../imageCrop';
 import type { ComputedImageConfig } from '../../types/ImageConfig';
 
-// Mock DOM
-let capturedBlobs: { data: any, type: string }[] = [];
-
-const mockLink = {
-  href: '',
-  download: '',
-  click: vi.fn()
-};
-
-(globalThis as any).document = {
-  createElement: vi.fn().mockReturnValue(mockLink),
-  body: {
-    appendChild: vi.fn(),
-    removeChild: vi.fn()
-  }
-};
-
-(globalThis as any).Blob = vi.fn().mockImplementation((content: any[], options: any) => {
-  capturedBlobs.push({ data: content[0], type: options.type });
-  return { content, options };
-});
-
-(globalThis as any).URL = {
-  createObjectURL: vi.fn().mockReturnValue('blob:mock-url'),
-  revokeObjectURL: vi.fn()
-};
-
 describe('STL File Size Comparison', () => {
   it('should show the difference between ASCII and binary STL formats', () => {
     // Create test geometry
@@ -47,6 +23,8 @@ describe('STL File Size Comparison', () => {
     const config: ComputedImageConfig = {
       horizImageFilename: 'test-horiz.png',
       vertImageFilename: 'test-vert.png',
+      rightImageFilename: 'test-right.png',
+      downImageFilename: 'test-down.png',
       widthInPixels: 3,
       cellSize: 4.0,
       wallWidth: 0.6,
@@ -56,46 +34,194 @@ describe('STL File Size Comparison', () => {
       border: 1.5,
       numberOfColors: 11,
       numberOfColorsOverride: 0,
+      horizLightElevation: 45,
+      vertLightElevation: 45,
+      rightLightElevation: 45,
+      downLightElevation: 45,
+      darknessModel: 'linear',
+      ditherAlgorithm: 'floyd-steinberg',
+      serpentine: false,
+      quantizer: 'uniform',
+      horizAdjustments: defaultAdjustments,
+      vertAdjustments: defaultAdjustments,
+      rightAdjustments: defaultAdjustments,
+      downAdjustments: defaultAdjustments,
+      horizCrop: defaultCrop,
+      vertCrop: defaultCrop,
+      rightCrop: defaultCrop,
+      downCrop: defaultCrop,
+      cropAspectRatio: 0,
+      resampleFilter: 'area',
+      mode: 'shadowCaster',
+      lithophaneShape: 'flat',
+      lithophaneThickness: 3,
+      lithophaneArc: 120,
+      layout: 'square',
+      shape: 'plate',
+      plusWalls: false,
+      optimizeHeights: false,
       doHorizImage: true,
       doVertImage: false,
+      doRightImage: false,
+      doDownImage: false,
       outputFilename: 'size-test.stl'
     };
 
     // Generate geometry
     const geometry = generateShadowCasterGeometry(imageData, null, config);
     
-    // Clear captured blobs
-    capturedBlobs = [];
-    
-    // Export with current binary setting
-    exportToSTL(geometry, config, 'test-binary.stl');
-    
-    expect(capturedBlobs).toHaveLength(1);
-    const binaryBlob = capturedBlobs[0];
-    
+    // Encode with the current settings
+    const [stlFile] = encodeExport(geometry, config, 'stl', { ...defaultExportOptions, manifoldExport: false });
+    const data = new DataView(stlFile.data.buffer, stlFile.data.byteOffset, stlFile.data.byteLength);
+
     console.log(`📊 STL Export Results:`);
     console.log(`   Geometry: ${geometry.leftWalls.length} walls + 1 base`);
-    
-    if (typeof binaryBlob.data === 'string') {
-      console.log(`   Format: ASCII text`);
-      console.log(`   Size: ${binaryBlob.data.length} characters`);
-      console.log(`   MIME type: ${binaryBlob.type}`);
-      
-      // Count triangles in ASCII format
-      const triangleCount = (binaryBlob.data.match(/facet normal/g) || []).length;
-      console.log(`   Triangles: ${triangleCount}`);
-    } else {
-      console.log(`   Format: Binary`);
-      console.log(`   Size: ${binaryBlob.data.byteLength || binaryBlob.data.length} bytes`);
-      console.log(`   MIME type: ${binaryBlob.type}`);
-      
-      // Binary STL header: 80 bytes + 4-byte triangle count + (50 bytes per triangle)
-      const expectedSize = 80 + 4 + (50 * (geometry.leftWalls.length + 1) * 12); // 12 triangles per box
-      console.log(`   Expected size: ~${expectedSize} bytes`);
-    }
-    
+    console.log(`   Format: Binary`);
+    console.log(`   Size: ${data.byteLength} bytes`);
+    console.log(`   MIME type: ${stlFile.mimeType}`);
+
+    // Binary STL header: 80 bytes + 4-byte triangle count + (50 bytes per triangle)
+    const expectedSize = 80 + 4 + (50 * (geometry.leftWalls.length + 1) * 12); // 12 triangles per box
+    console.log(`   Expected size: ~${expectedSize} bytes`);
+
     // Verify the export worked
-    expect(binaryBlob.data).toBeTruthy();
-    expect(binaryBlob.type).toBe('application/octet-stream');
+    expect(data.byteLength).toBe(84 + 50 * data.getUint32(80, true));
+    expect(stlFile.mimeType).toBe('application/octet-stream');
   });
-});
\ No newline at end of file
+
+  describe('wall merging', () => {
+    // Columns of equal values give long runs of equal-height left walls,
+    // rows of equal values give long runs of equal-height up walls
+    const columns: ProcessedImageData = {
+      data: [
+        [0, 255, 128, 0],
+        [0, 255, 128, 0],
+        [0, 255, 128, 255],
+        [0, 255, 0, 255]
+      ],
+      width: 4,
+      height: 4
+    };
+    const rows: ProcessedImageData = {
+      data: [
+        [0, 0, 0, 0],
+        [255, 255, 255, 255],
+        [128, 128, 0, 0],
+        [0, 255, 255, 255]
+      ],
+      width: 4,
+      height: 4
+    };
+
+    const config: ComputedImageConfig = {
+      horizImageFilename: 'test-horiz.png',
+      vertImageFilename: 'test-vert.png',
+      rightImageFilename: 'test-right.png',
+      downImageFilename: 'test-down.png',
+      widthInPixels: 4,
+      cellSize: 2.1,
+      wallWidth: 0.4,
+      maxHeight: 1.7,
+      layerHeight: 0.1,
+      bottomThk: 0.8,
+      border: 2.1,
+      numberOfColors: 17,
+      numberOfColorsOverride: 0,
+      horizLightElevation: 45,
+      vertLightElevation: 45,
+      rightLightElevation: 45,
+      downLightElevation: 45,
+      darknessModel: 'linear',
+      ditherAlgorithm: 'floyd-steinberg',
+      serpentine: false,
+      quantizer: 'uniform',
+      horizAdjustments: defaultAdjustments,
+      vertAdjustments: defaultAdjustments,
+      rightAdjustments: defaultAdjustments,
+      downAdjustments: defaultAdjustments,
+      horizCrop: defaultCrop,
+      vertCrop: defaultCrop,
+      rightCrop: defaultCrop,
+      downCrop: defaultCrop,
+      cropAspectRatio: 0,
+      resampleFilter: 'area',
+      mode: 'shadowCaster',
+      lithophaneShape: 'flat',
+      lithophaneThickness: 3,
+      lithophaneArc: 120,
+      layout: 'square',
+      shape: 'plate',
+      plusWalls: false,
+      optimizeHeights: false,
+      doHorizImage: true,
+      doVertImage: true,
+      doRightImage: false,
+      doDownImage: false,
+      outputFilename: 'merge-test.stl'
+    };
+
+    const exportedTriangles = (geometry: Parameters<typeof encodeExport>[0]) => {
+      // Merging is applied by the tests themselves
+      const [{ data }] = encodeExport(geometry, config, 'stl', { ...defaultExportOptions, manifoldExport: false, mergeWalls: false });
+      return new DataView(data.buffer, data.byteOffset).getUint32(80, true);
+    };
+
+    const volume = (walls: WallGeometry[]) =>
+      walls.reduce((total, wall) => total + wall.size[0] * wall.size[1] * wall.size[2], 0);
+
+    const contains = (outer: WallGeometry, inner: WallGeometry) =>
+      [0, 1, 2].every(axis =>
+        inner.position[axis] - inner.size[axis] / 2 >= outer.position[axis] - outer.size[axis] / 2 - 1e-9 &&
+        inner.position[axis] + inner.size[axis] / 2 <= outer.position[axis] + outer.size[axis] / 2 + 1e-9
+      );
+
+    it('should reduce the triangle count of the exported STL', () => {
+      const geometry = generateShadowCasterGeometry(columns, rows, config);
+      const merged = mergeAdjacentWalls(geometry);
+
+      // 4 columns of left walls: 1 + 1 + 2 + 2 runs; 4 rows of up walls: 1 + 1 + 2 + 2 runs
+      expect(merged.leftWalls).toHaveLength(6);
+      expect(merged.upWalls).toHaveLength(6);
+
+      const before = exportedTriangles(geometry);
+      const after = exportedTriangles(merged);
+      expect(before).toBe((1 + 16 + 16) * 12);
+      expect(after).toBe((1 + 6 + 6) * 12);
+      console.log(`   Merged walls: ${before} -> ${after} triangles`);
+    });
+
+    it('should leave the printed shape unchanged', () => {
+      const geometry = generateShadowCasterGeometry(columns, rows, config);
+      const merged = mergeAdjacentWalls(geometry);
+
+      expect(merged.base).toEqual(geometry.base);
+      expect(volume(merged.leftWalls)).toBeCloseTo(volume(geometry.leftWalls), 9);
+      expect(volume(merged.upWalls)).toBeCloseTo(volume(geometry.upWalls), 9);
+
+      // Every original wall lies inside exactly one merged wall
+      geometry.leftWalls.forEach(wall => {
+        expect(merged.leftWalls.filter(box => contains(box, wall))).toHaveLength(1);
+      });
+      geometry.upWalls.forEach(wall => {
+        expect(merged.upWalls.filter(box => contains(box, wall))).toHaveLength(1);
+      });
+    });
+
+    it('should not merge walls of different heights or across gaps', () => {
+      const checkerboard: ProcessedImageData = {
+        data: [
+          [0, 255],
+          [255, 0]
+        ],
+        width: 2,
+        height: 2
+      };
+      const geometry = generateShadowCasterGeometry(checkerboard, checkerboard, config);
+      const merged = mergeAdjacentWalls(geometry);
+
+      expect(merged.leftWalls).toHaveLength(4);
+      expect(merged.upWalls).toHaveLength(4);
+      expect(exportedTriangles(merged)).toBe(exportedTriangles(geometry));
+    });
+  });
+});
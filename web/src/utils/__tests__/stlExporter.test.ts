@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { STLExporter } from 'three-stdlib';
+import { createSTLData, stlByteLength } from '../stlExporter';
+import { buildManifoldMesh } from '../manifoldMesh';
+import { generateShadowCasterGeometry, mergeAdjacentWalls } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ShadowCasterGeometry } from '../geometryGenerator';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const config = computeImageConfig({ ...defaultConfig, numberOfColorsOverride: 5 });
+
+const size = 12;
+const image: ProcessedImageData = {
+  data: Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => ((x * 3 + y * 7) % 5) * 63)
+  ),
+  width: size,
+  height: size
+};
+
+const geometry = generateShadowCasterGeometry(image, image, config);
+
+// The export as it was built through three.js: a BoxGeometry per wall moved
+// into place, written by three-stdlib's STLExporter
+function threeBoxSTL(model: ShadowCasterGeometry): Uint8Array {
+  const group = new THREE.Group();
+  [...model.base, ...model.leftWalls, ...model.upWalls].forEach(box => {
+    const boxGeometry = new THREE.BoxGeometry(...box.size);
+    boxGeometry.applyMatrix4(new THREE.Matrix4().compose(
+      new THREE.Vector3(...box.position),
+      new THREE.Quaternion(),
+      new THREE.Vector3(1, 1, 1)
+    ));
+    group.add(new THREE.Mesh(boxGeometry));
+  });
+  const view = new STLExporter().parse(group, { binary: true });
+  return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
+
+function threeManifoldSTL(model: ShadowCasterGeometry): Uint8Array {
+  const mesh = buildManifoldMesh(model, config);
+  const bufferGeometry = new THREE.BufferGeometry();
+  bufferGeometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+  bufferGeometry.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+  const view = new STLExporter().parse(new THREE.Mesh(bufferGeometry), { binary: true });
+  return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
+
+function bytes(view: DataView): Uint8Array {
+  return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
+
+describe('createSTLData', () => {
+  it('should size the buffer from the triangle count', () => {
+    const view = createSTLData(geometry, config, { manifold: false, mergeWalls: false });
+    const triangles = 12 * (1 + geometry.leftWalls.length + geometry.upWalls.length);
+
+    expect(view.getUint32(80, true)).toBe(triangles);
+    expect(view.byteLength).toBe(stlByteLength(triangles));
+    expect(stlByteLength(triangles)).toBe(80 + 4 + 50 * triangles);
+  });
+
+  it('should write boxes byte for byte like the three.js exporter', () => {
+    const view = createSTLData(geometry, config, { manifold: false, mergeWalls: false });
+
+    expect(bytes(view)).toEqual(threeBoxSTL(geometry));
+  });
+
+  it('should write merged walls byte for byte like the three.js exporter', () => {
+    const view = createSTLData(geometry, config, { manifold: false, mergeWalls: true });
+
+    expect(bytes(view)).toEqual(threeBoxSTL(mergeAdjacentWalls(geometry)));
+  });
+
+  it('should write the watertight mesh byte for byte like the three.js exporter', () => {
+    const view = createSTLData(geometry, config, { manifold: true, mergeWalls: false });
+
+    expect(bytes(view)).toEqual(threeManifoldSTL(geometry));
+  });
+});
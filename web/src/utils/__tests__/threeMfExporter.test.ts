@@ -0,0 +1,98 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { create3MFData } from '../threeMfExporter';
+import { buildManifoldMesh } from '../manifoldMesh';
+import { generateShadowCasterGeometry } from '../geometryGenerator';
+import { computeImageConfig, defaultConfig } from '../../types/ImageConfig';
+import type { ProcessedImageData } from '../imageProcessing';
+
+const config = computeImageConfig({
+  ...defaultConfig,
+  numberOfColorsOverride: 4,
+  horizImageFilename: 'wave & "fuji".png',
+  vertImageFilename: 'fuji.jpg'
+});
+
+const image: ProcessedImageData = {
+  data: [
+    [0, 255, 85, 170],
+    [170, 0, 255, 0],
+    [255, 85, 0, 255]
+  ],
+  width: 4,
+  height: 3
+};
+
+const geometry = generateShadowCasterGeometry(image, image, config);
+
+interface XmlElement {
+  attributes: Record<string, string>;
+  text: string;
+}
+
+const unescapeXml = (value: string) => value
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&');
+
+// Just enough XML parsing for the flat structure the exporter writes
+function elements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(`<${tag}((?:\\s+[\\w:]+="[^"]*")*)\\s*(?:/>|>([^<]*)</${tag}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => ({
+    attributes: Object.fromEntries(
+      Array.from(match[1].matchAll(/([\w:]+)="([^"]*)"/g), ([, name, value]) => [name, unescapeXml(value)])
+    ),
+    text: unescapeXml(match[2] ?? '')
+  }));
+}
+
+function unpack(data: Uint8Array) {
+  const files = unzipSync(data);
+  return { files, model: strFromU8(files['3D/3dmodel.model']) };
+}
+
+function metadata(model: string, name: string): string | undefined {
+  return elements(model, 'metadata').find(element => element.attributes.name === name)?.text;
+}
+
+describe('3MF export', () => {
+  it('should package the model with content types and relationships', () => {
+    const { files, model } = unpack(create3MFData(geometry, config, { separateParts: false }));
+
+    expect(Object.keys(files).sort()).toEqual(['3D/3dmodel.model', '[Content_Types].xml', '_rels/.rels']);
+    expect(strFromU8(files['_rels/.rels'])).toContain('Target="/3D/3dmodel.model"');
+    expect(model).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<model unit="millimeter"/);
+  });
+
+  it('should record the source images and settings as metadata', () => {
+    const { model } = unpack(create3MFData(geometry, config, { separateParts: false }));
+
+    expect(metadata(model, 'sc:HorizontalImage')).toBe('wave & "fuji".png');
+    expect(metadata(model, 'sc:VerticalImage')).toBe('fuji.jpg');
+    expect(JSON.parse(metadata(model, 'sc:Config')!)).toEqual(config);
+  });
+
+  it('should write the watertight mesh as a single object', () => {
+    const { model } = unpack(create3MFData(geometry, config, { separateParts: false }));
+    const mesh = buildManifoldMesh(geometry, config);
+
+    expect(model.match(/<object /g)).toHaveLength(1);
+    expect(elements(model, 'vertex')).toHaveLength(mesh.positions.length / 3);
+    expect(elements(model, 'triangle')).toHaveLength(mesh.indices.length / 3);
+    expect(elements(model, 'item')).toHaveLength(1);
+  });
+
+  it('should write the base and each wall direction as separate objects', () => {
+    const { model } = unpack(create3MFData(geometry, config, { separateParts: true }));
+
+    const objects = Array.from(model.matchAll(/<object id="(\d+)" type="model" name="([^"]*)"/g));
+    expect(objects.map(([, , name]) => name)).toEqual(['Base', 'Horizontal walls', 'Vertical walls']);
+    expect(elements(model, 'base')).toHaveLength(3);
+
+    const items = elements(model, 'item');
+    expect(items.map(item => item.attributes.objectid)).toEqual(objects.map(([, id]) => id));
+  });
+});
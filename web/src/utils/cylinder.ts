@@ -0,0 +1,142 @@
+import type { ShadowCasterGeometry, WallGeometry } from './geometryGenerator';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+// A square-grid model wrapped around a vertical axis through the origin, for
+// lampshades and lanterns. The plate becomes a tube with one flat facet per
+// pixel column, so each column's walls keep their flat shape on their facet.
+// Walls stand out radially: plate height becomes distance from the axis, and
+// the image's rows run up the tube. A floor closes the bottom. The same
+// wrapping bends a lithophane through part or all of a turn.
+//
+// The walls stand on the outside of a solid tube, so each facet must be lit
+// from outside, like the flat plate. A point light on the axis is blocked by
+// the tube wall and casts nothing.
+
+type CylinderConfig = Pick<ComputedImageConfig, 'widthInPixels' | 'cellSize' | 'border' | 'bottomThk'>;
+
+// Columns around the tube. Fewer than three can't close.
+export function columnCount(config: CylinderConfig): number {
+  return Math.max(3, config.widthInPixels);
+}
+
+// The columns share arc degrees of a turn, 360 closing the tube
+function columnAngle(column: number, config: CylinderConfig, arc: number): number {
+  return (column + 0.5) * arc / columnCount(config);
+}
+
+// Distance from the axis to the middle of each outer facet, which is exactly
+// one cell wide. Close to widthInPixels * cellSize / 2π for a full turn.
+export function cylinderRadius(config: CylinderConfig, arc = 360): number {
+  return config.cellSize / (2 * Math.tan(Math.PI * arc / 360 / columnCount(config)));
+}
+
+// A box on the facet of a column, offset along the facet by tangent and
+// centred at radius from the axis. Its size is across the facet (radial),
+// along it and up the axis.
+function facetBox(
+  column: number,
+  radius: number,
+  tangent: number,
+  z: number,
+  size: [number, number, number],
+  config: CylinderConfig,
+  arc = 360
+): WallGeometry {
+  const rotation = columnAngle(column, config, arc);
+  const radians = rotation * Math.PI / 180;
+  return {
+    position: [
+      radius * Math.cos(radians) - tangent * Math.sin(radians),
+      radius * Math.sin(radians) + tangent * Math.cos(radians),
+      z
+    ],
+    size,
+    rotation
+  };
+}
+
+// Move a wall from the flat plate onto its column's facet
+export function wrapWall(wall: WallGeometry, config: CylinderConfig, arc = 360): WallGeometry {
+  const [x, y, z] = wall.position;
+  const [width, depth, height] = wall.size;
+  const column = Math.floor((x - config.border) / config.cellSize);
+  const tangent = x - config.border - (column + 0.5) * config.cellSize;
+  const radius = cylinderRadius(config, arc) + z - config.bottomThk;
+  return facetBox(column, radius, tangent, y, [height, width, depth], config, arc);
+}
+
+// Where a point of the flat plate lands on the tube, for wrapping a mesh
+// vertex by vertex. Unlike wrapWall, which keeps each box flat on its facet,
+// distance along a facet grows in step with distance from the axis, so
+// neighbouring facets meet edge to edge at every radius and a closed mesh
+// stays closed. Heights above the tube are kept; walls fan out slightly.
+export function wrapPoint(x: number, y: number, z: number, config: CylinderConfig): [number, number, number] {
+  const radius = cylinderRadius(config);
+  const column = Math.min(Math.max(Math.floor((x - config.border) / config.cellSize), 0), columnCount(config) - 1);
+  const tangent = x - config.border - (column + 0.5) * config.cellSize;
+  const scale = (radius + z - config.bottomThk) / radius;
+  const radians = columnAngle(column, config, 360) * Math.PI / 180;
+  return [
+    scale * (radius * Math.cos(radians) - tangent * Math.sin(radians)),
+    scale * (radius * Math.sin(radians) + tangent * Math.cos(radians)),
+    y
+  ];
+}
+
+// Move a wrapped wall back to where it stood on the flat plate
+export function unwrapWall(wall: WallGeometry, config: CylinderConfig): WallGeometry {
+  const [x, y, z] = wall.position;
+  const [height, width, depth] = wall.size;
+  const rotation = wall.rotation ?? 0;
+  const radians = rotation * Math.PI / 180;
+  const column = Math.round(rotation * columnCount(config) / 360 - 0.5);
+  const radius = x * Math.cos(radians) + y * Math.sin(radians);
+  const tangent = -x * Math.sin(radians) + y * Math.cos(radians);
+  return {
+    position: [
+      config.border + (column + 0.5) * config.cellSize + tangent,
+      z,
+      radius - cylinderRadius(config) + config.bottomThk
+    ],
+    size: [width, depth, height]
+  };
+}
+
+// Wrap a flat square-grid model. The tube is as tall as the plate is deep,
+// base thickness thick, and stands on a floor of the same thickness. Each
+// column gets a tube segment and a floor slice reaching to the axis. The
+// export meshes the tube, floor and walls as one body instead; see
+// buildManifoldMesh.
+export function wrapOnCylinder(geometry: ShadowCasterGeometry, config: CylinderConfig): ShadowCasterGeometry {
+  const radius = cylinderRadius(config);
+  const height = Math.max(...geometry.base.map(plate => plate.size[1]));
+  const base: WallGeometry[] = [];
+
+  for (let column = 0; column < columnCount(config); column++) {
+    base.push(facetBox(
+      column,
+      radius - config.bottomThk / 2,
+      0,
+      (config.bottomThk + height) / 2,
+      [config.bottomThk, config.cellSize, height - config.bottomThk],
+      config
+    ));
+    base.push(facetBox(
+      column,
+      radius / 2,
+      0,
+      config.bottomThk / 2,
+      [radius, config.cellSize, config.bottomThk],
+      config
+    ));
+  }
+
+  const wrap = (walls: WallGeometry[]) => walls.map(wall => wrapWall(wall, config));
+  return {
+    base,
+    leftWalls: wrap(geometry.leftWalls),
+    upWalls: wrap(geometry.upWalls),
+    rightWalls: wrap(geometry.rightWalls),
+    downWalls: wrap(geometry.downWalls)
+  };
+}
@@ -0,0 +1,270 @@
+import type { ProcessedImageData } from './imageProcessing';
+
+export type DitherAlgorithm =
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'jarvis-judice-ninke'
+  | 'stucki'
+  | 'sierra'
+  | 'burkes'
+  | 'bayer2'
+  | 'bayer4'
+  | 'bayer8'
+  | 'none';
+
+export interface DitherOptions {
+  algorithm?: DitherAlgorithm;
+  // Alternate scan direction on every row (error diffusion only)
+  serpentine?: boolean;
+}
+
+// An error diffusion kernel. Each entry is [dx, dy, weight] relative to the
+// current pixel, and the error pushed to a neighbour is weight / divisor.
+export interface DiffusionKernel {
+  divisor: number;
+  offsets: [number, number, number][];
+}
+
+export const diffusionKernels = {
+  'floyd-steinberg': {
+    divisor: 16,
+    offsets: [
+      [1, 0, 7],
+      [-1, 1, 3], [0, 1, 5], [1, 1, 1]
+    ]
+  },
+  // Only diffuses 6/8 of the error, which keeps highlights and shadows crisp.
+  // This is the kernel the original Dart implementation used.
+  'atkinson': {
+    divisor: 8,
+    offsets: [
+      [1, 0, 1], [2, 0, 1],
+      [-1, 1, 1], [0, 1, 1], [1, 1, 1],
+      [0, 2, 1]
+    ]
+  },
+  'jarvis-judice-ninke': {
+    divisor: 48,
+    offsets: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1]
+    ]
+  },
+  'stucki': {
+    divisor: 42,
+    offsets: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1]
+    ]
+  },
+  'sierra': {
+    divisor: 32,
+    offsets: [
+      [1, 0, 5], [2, 0, 3],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+      [-1, 2, 2], [0, 2, 3], [1, 2, 2]
+    ]
+  },
+  'burkes': {
+    divisor: 32,
+    offsets: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2]
+    ]
+  }
+} satisfies Record<string, DiffusionKernel>;
+
+export type DiffusionAlgorithm = keyof typeof diffusionKernels;
+
+export const ditherAlgorithmLabels: Record<DitherAlgorithm, string> = {
+  'floyd-steinberg': 'Floyd-Steinberg',
+  'atkinson': 'Atkinson',
+  'jarvis-judice-ninke': 'Jarvis-Judice-Ninke',
+  'stucki': 'Stucki',
+  'sierra': 'Sierra',
+  'burkes': 'Burkes',
+  'bayer2': 'Ordered (Bayer 2x2)',
+  'bayer4': 'Ordered (Bayer 4x4)',
+  'bayer8': 'Ordered (Bayer 8x8)',
+  'none': 'None (posterize only)'
+};
+
+export function isDiffusionAlgorithm(algorithm: DitherAlgorithm): algorithm is DiffusionAlgorithm {
+  return algorithm in diffusionKernels;
+}
+
+// Build an n x n Bayer index matrix (n must be a power of two) using the
+// recursive definition M(2n) = [[4M, 4M+2], [4M+3, 4M+1]].
+export function bayerMatrix(size: number): number[][] {
+  if (size <= 1) {
+    return [[0]];
+  }
+
+  const half = bayerMatrix(size / 2);
+  const halfSize = half.length;
+  const matrix: number[][] = [];
+
+  for (let y = 0; y < size; y++) {
+    matrix[y] = [];
+    for (let x = 0; x < size; x++) {
+      const base = 4 * half[y % halfSize][x % halfSize];
+      const quadrant = (y < halfSize ? 0 : 2) + (x < halfSize ? 0 : 1);
+      matrix[y][x] = base + [0, 2, 3, 1][quadrant];
+    }
+  }
+
+  return matrix;
+}
+
+// Evenly spaced gray levels from 0 to 255
+export function uniformLevels(numberOfColors: number): number[] {
+  if (numberOfColors < 2) {
+    return [0];
+  }
+
+  const step = 255 / (numberOfColors - 1);
+  const levels: number[] = [];
+  for (let i = 0; i < numberOfColors; i++) {
+    levels.push(i * step);
+  }
+  return levels;
+}
+
+// Find the closest level to value. Levels must be sorted ascending.
+export function nearestLevel(value: number, levels: number[]): number {
+  let best = levels[0];
+  let bestDistance = Math.abs(value - best);
+
+  for (let i = 1; i < levels.length; i++) {
+    const distance = Math.abs(value - levels[i]);
+    if (distance < bestDistance) {
+      best = levels[i];
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+export function posterize(
+  imageData: ProcessedImageData,
+  levels: number[]
+): ProcessedImageData {
+  return {
+    data: imageData.data.map(row => row.map(value => nearestLevel(value, levels))),
+    width: imageData.width,
+    height: imageData.height
+  };
+}
+
+export function errorDiffusionDither(
+  imageData: ProcessedImageData,
+  levels: number[],
+  kernel: DiffusionKernel,
+  serpentine = false
+): ProcessedImageData {
+  const { data, width, height } = imageData;
+  const dithered: number[][] = data.map(row => [...row]);
+
+  for (let y = 0; y < height; y++) {
+    const reverse = serpentine && y % 2 === 1;
+    const direction = reverse ? -1 : 1;
+
+    for (let i = 0; i < width; i++) {
+      const x = reverse ? width - 1 - i : i;
+      const oldPixel = dithered[y][x];
+      const newPixel = nearestLevel(oldPixel, levels);
+      dithered[y][x] = newPixel;
+
+      const error = oldPixel - newPixel;
+      if (error === 0) {
+        continue;
+      }
+
+      // Mirror the kernel horizontally when scanning right-to-left
+      for (const [dx, dy, weight] of kernel.offsets) {
+        const nx = x + dx * direction;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny < height) {
+          dithered[ny][nx] += error * weight / kernel.divisor;
+        }
+      }
+    }
+  }
+
+  return {
+    data: dithered,
+    width,
+    height
+  };
+}
+
+export function orderedDither(
+  imageData: ProcessedImageData,
+  levels: number[],
+  matrixSize: number
+): ProcessedImageData {
+  const { data, width, height } = imageData;
+  const matrix = bayerMatrix(matrixSize);
+  const cells = matrixSize * matrixSize;
+
+  const dithered: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    dithered[y] = [];
+    for (let x = 0; x < width; x++) {
+      const value = Math.min(Math.max(data[y][x], levels[0]), levels[levels.length - 1]);
+
+      // Find the pair of levels bracketing this value
+      let upper = 0;
+      while (upper < levels.length - 1 && levels[upper] < value) {
+        upper++;
+      }
+      const lower = Math.max(upper - 1, 0);
+
+      if (levels[upper] === levels[lower]) {
+        dithered[y][x] = levels[upper];
+        continue;
+      }
+
+      // Pick the upper level when the position between the two levels
+      // exceeds this pixel's threshold in the Bayer matrix
+      const fraction = (value - levels[lower]) / (levels[upper] - levels[lower]);
+      const threshold = (matrix[y % matrixSize][x % matrixSize] + 0.5) / cells;
+      dithered[y][x] = fraction > threshold ? levels[upper] : levels[lower];
+    }
+  }
+
+  return {
+    data: dithered,
+    width,
+    height
+  };
+}
+
+export function applyDither(
+  imageData: ProcessedImageData,
+  levels: number[],
+  options: DitherOptions = {}
+): ProcessedImageData {
+  const algorithm = options.algorithm ?? 'floyd-steinberg';
+
+  switch (algorithm) {
+    case 'bayer2':
+      return orderedDither(imageData, levels, 2);
+    case 'bayer4':
+      return orderedDither(imageData, levels, 4);
+    case 'bayer8':
+      return orderedDither(imageData, levels, 8);
+    case 'none':
+      return posterize(imageData, levels);
+    default:
+      return errorDiffusionDither(
+        imageData,
+        levels,
+        diffusionKernels[algorithm],
+        options.serpentine ?? false
+      );
+  }
+}
@@ -0,0 +1,99 @@
+import type { EncodedFile } from './exportFormats';
+
+// The parts of the File System Access API we use, which the DOM lib lacks
+interface WritableFileStream {
+  write(data: BlobPart): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface SaveFileHandle {
+  createWritable(): Promise<WritableFileStream>;
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}
+
+type SaveFilePicker = (options?: SaveFilePickerOptions) => Promise<SaveFileHandle>;
+
+// Where an export goes: a file the user picked in a "Save as" dialog, or the
+// browser's downloads
+export type SaveTarget =
+  | { kind: 'file'; handle: SaveFileHandle }
+  | { kind: 'download' };
+
+function saveFilePicker(): SaveFilePicker | undefined {
+  return typeof window === 'undefined'
+    ? undefined
+    : (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+}
+
+export function canShowSaveDialog(): boolean {
+  return saveFilePicker() !== undefined;
+}
+
+// Hand the browser a file to save
+export function downloadFile(
+  data: BlobPart,
+  filename: string,
+  mimeType = 'application/octet-stream'
+): void {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+// Ask where to save with the "Save as" dialog where the browser has one,
+// otherwise fall back to downloading. Call this straight from the click,
+// before encoding: browsers only open the dialog in response to user input.
+// Resolves null if the user cancels the dialog.
+export async function chooseSaveTarget(
+  filename: string,
+  mimeType: string,
+  description: string
+): Promise<SaveTarget | null> {
+  const picker = saveFilePicker();
+  if (!picker) {
+    return { kind: 'download' };
+  }
+
+  const dot = filename.lastIndexOf('.');
+  try {
+    const handle = await picker({
+      suggestedName: filename,
+      types: dot > 0 ? [{ description, accept: { [mimeType]: [filename.slice(dot)] } }] : undefined
+    });
+    return { kind: 'file', handle };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Write an export's files. A picked file takes the first (main) file; any
+// companion files, like an OBJ's materials, are downloaded.
+export async function saveFiles(files: EncodedFile[], target: SaveTarget): Promise<void> {
+  let remaining = files;
+
+  if (target.kind === 'file' && files.length > 0) {
+    const writable = await target.handle.createWritable();
+    await writable.write(files[0].data as Uint8Array<ArrayBuffer>);
+    await writable.close();
+    remaining = files.slice(1);
+  }
+
+  remaining.forEach(file => {
+    downloadFile(file.data as Uint8Array<ArrayBuffer>, file.filename, file.mimeType);
+  });
+}
@@ -0,0 +1,131 @@
+import { createSTLData } from './stlExporter';
+import { canBuildManifoldMesh } from './manifoldMesh';
+import { create3MFData } from './threeMfExporter';
+import { createMTLData, createOBJData } from './objExporter';
+import { createPLYData } from './plyExporter';
+import { createSCADData } from './scadExporter';
+import type { ShadowCasterGeometry } from './geometryGenerator';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+export type ExportFormat = 'stl' | '3mf' | 'obj' | 'ply' | 'scad';
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const exportFormats: Record<ExportFormat, ExportFormatInfo> = {
+  stl: { label: 'STL', extension: 'stl', mimeType: 'application/octet-stream' },
+  '3mf': { label: '3MF', extension: '3mf', mimeType: 'model/3mf' },
+  obj: { label: 'OBJ', extension: 'obj', mimeType: 'model/obj' },
+  ply: { label: 'PLY', extension: 'ply', mimeType: 'application/x-ply' },
+  scad: { label: 'OpenSCAD', extension: 'scad', mimeType: 'application/x-openscad' }
+};
+
+const MTL_MIME_TYPE = 'model/mtl';
+
+// Format-specific choices that aren't part of the model config, so changing
+// them never rebuilds the model
+export interface ExportOptions {
+  // STL: one watertight mesh instead of overlapping boxes
+  manifoldExport: boolean;
+  // STL and OpenSCAD: merge runs of equal-height walls into single boxes.
+  // Only affects the box export.
+  mergeWalls: boolean;
+  // 3MF: base and each wall direction as separate objects
+  separateParts: boolean;
+  // OBJ: colour base and walls through an accompanying MTL file
+  objMaterials: boolean;
+  // PLY: binary rather than ASCII
+  binaryPly: boolean;
+  // OpenSCAD: BOSL cuboids rather than plain cubes
+  useBOSL: boolean;
+}
+
+export const defaultExportOptions: ExportOptions = {
+  manifoldExport: true,
+  mergeWalls: true,
+  separateParts: false,
+  objMaterials: true,
+  binaryPly: true,
+  useBOSL: true
+};
+
+// One file of an export, ready to save or write to disk
+export interface EncodedFile {
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+// Swap a filename's extension, e.g. the computed `.stl` name for another format
+export function withExtension(filename: string, extension: string): string {
+  const dot = filename.lastIndexOf('.');
+  return `${dot > 0 ? filename.slice(0, dot) : filename}.${extension}`;
+}
+
+export function exportFilename(config: ComputedImageConfig, format: ExportFormat): string {
+  return withExtension(config.outputFilename, exportFormats[format].extension);
+}
+
+function mtlFilename(config: ComputedImageConfig): string {
+  return withExtension(config.outputFilename, 'mtl');
+}
+
+function textBytes(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function encodeData(
+  geometry: ShadowCasterGeometry,
+  config: ComputedImageConfig,
+  format: ExportFormat,
+  options: ExportOptions
+): Uint8Array {
+  switch (format) {
+    case 'stl': {
+      // A mesh that can't be a true union is no better than the boxes, which
+      // can at least be merged
+      const manifold = options.manifoldExport && canBuildManifoldMesh(config);
+      const view = createSTLData(geometry, config, { manifold, mergeWalls: options.mergeWalls });
+      return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    }
+    case '3mf':
+      return create3MFData(geometry, config, { separateParts: options.separateParts });
+    case 'obj':
+      return textBytes(createOBJData(geometry, config, {
+        materialLibrary: options.objMaterials ? mtlFilename(config) : null
+      }));
+    case 'ply':
+      return createPLYData(geometry, config, { binary: options.binaryPly });
+    case 'scad':
+      return textBytes(createSCADData(geometry, config, { useBOSL: options.useBOSL, mergeWalls: options.mergeWalls }));
+  }
+}
+
+// Encode the model in a format, without touching the DOM, so the same bytes
+// can be saved by the browser, written by a CLI or checked in tests. Most
+// formats are one file; OBJ with materials also needs its MTL file.
+export function encodeExport(
+  geometry: ShadowCasterGeometry,
+  config: ComputedImageConfig,
+  format: ExportFormat,
+  options: ExportOptions = defaultExportOptions
+): EncodedFile[] {
+  const files: EncodedFile[] = [{
+    filename: exportFilename(config, format),
+    mimeType: exportFormats[format].mimeType,
+    data: encodeData(geometry, config, format, options)
+  }];
+
+  if (format === 'obj' && options.objMaterials) {
+    files.push({
+      filename: mtlFilename(config),
+      mimeType: MTL_MIME_TYPE,
+      data: textBytes(createMTLData())
+    });
+  }
+
+  return files;
+}
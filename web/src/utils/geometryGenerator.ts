@@ -1,36 +1,159 @@
 import * as THREE from 'three';
 import { roundToLayerHeight } from './imageProcessing';
+import { nearestLevel } from './dithering';
+import { HEX_SIDE, HEX_WALL_ANGLES, hexCellCenter, hexGridSize } from './hexGrid';
+import { wrapOnCylinder } from './cylinder';
+import { grayForLitFraction, heightForCoverage, lightElevation, litFraction, openFloorWidth } from './heightModel';
 import type { ProcessedImageData } from './imageProcessing';
+import type { ShadowDirection } from './shadowSimulation';
 import type { ComputedImageConfig } from '../types/ImageConfig';
 
+// How the pixel cells tile the base
+export type CellLayout = 'square' | 'hex';
+
+export const cellLayoutLabels: Record<CellLayout, string> = {
+  square: 'Square grid (up to four images)',
+  hex: 'Hexagonal grid (three images)'
+};
+
+// What the image pipeline builds: walls casting shadows, or a lithophane
+export type ModelMode = 'shadowCaster' | 'lithophane';
+
+export const modelModeLabels: Record<ModelMode, string> = {
+  shadowCaster: 'Shadow caster',
+  lithophane: 'Lithophane (one image)'
+};
+
+// What the cell grid is laid out on
+export type ModelShape = 'plate' | 'cylinder';
+
+export const modelShapeLabels: Record<ModelShape, string> = {
+  plate: 'Flat plate',
+  cylinder: 'Cylinder (lampshade)'
+};
+
 export interface WallGeometry {
   position: [number, number, number];
   size: [number, number, number];
+  // Degrees counterclockwise about the vertical axis through the position.
+  // Only walls on hex edges are turned; absent means axis-aligned.
+  rotation?: number;
 }
 
 export interface ShadowCasterGeometry {
-  base: WallGeometry;
+  // Boxes the walls stand on: one plate, or the tube and floor of a cylinder
+  base: WallGeometry[];
   leftWalls: WallGeometry[];
   upWalls: WallGeometry[];
+  // Walls for the third image: on the right side of square cells, or the
+  // lower right edge of hex cells
+  rightWalls: WallGeometry[];
+  // Walls on the bottom side of square cells; empty on a hex grid
+  downWalls: WallGeometry[];
+}
+
+// The wall sets in a fixed order, as they are drawn and exported
+export const WALL_SETS = ['leftWalls', 'upWalls', 'rightWalls', 'downWalls'] as const;
+
+export function allWalls(geometry: ShadowCasterGeometry): WallGeometry[] {
+  return WALL_SETS.flatMap(set => geometry[set]);
+}
+
+// Which of the optional images a layout can cast. Square cells take two more
+// on their right and bottom sides, except with plus walls, whose walls fill
+// the middle of the cell from both sides. Hex cells have one third edge.
+// Lithophanes take one image only.
+export function layoutImages(
+  config: Pick<ComputedImageConfig, 'layout' | 'plusWalls' | 'mode'>
+): { right: boolean; down: boolean } {
+  if (config.mode === 'lithophane') {
+    return { right: false, down: false };
+  }
+  if (config.layout === 'hex') {
+    return { right: true, down: false };
+  }
+  return { right: !config.plusWalls, down: !config.plusWalls };
+}
+
+// Offset (dx, dy) from a wall's centre, turned with the wall
+export function rotateWallOffset(wall: WallGeometry, dx: number, dy: number): [number, number] {
+  if (!wall.rotation) {
+    return [dx, dy];
+  }
+  const radians = wall.rotation * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [dx * cos - dy * sin, dx * sin + dy * cos];
+}
+
+// Share of the open floor a pixel's wall should shade to show its gray under
+// the darkness model. When the image carries the levels it was quantized to,
+// the value is snapped to the nearest one, which keeps its own gray, so an
+// adaptive palette doesn't stretch the image's contrast.
+export function coverageForValue(
+  val: number,
+  levels: number[] | undefined,
+  config: Pick<ComputedImageConfig, 'darknessModel'>
+): number {
+  const gray = levels && levels.length > 0 ? nearestLevel(val, levels) : val;
+  return 1 - litFraction(gray, config.darknessModel);
+}
+
+// Height of a wall above its one-layer minimum, chosen so the shadow of the
+// image's design light covers the share of the open floor given by
+// coverageForValue. The floor is narrower where a wall faces it across the
+// cell.
+export function wallHeightForValue(
+  val: number,
+  levels: number[] | undefined,
+  config: ComputedImageConfig,
+  direction: ShadowDirection,
+  openFloor = openFloorWidth(config)
+): number {
+  const coverage = coverageForValue(val, levels, config);
+  const height = heightForCoverage(coverage, lightElevation(config, direction), openFloor);
+  return Math.max(roundToLayerHeight(height, config.layerHeight) - config.layerHeight, 0);
 }
 
 export function generateShadowCasterGeometry(
   horizImageData: ProcessedImageData | null,
   vertImageData: ProcessedImageData | null,
-  config: ComputedImageConfig
+  config: ComputedImageConfig,
+  rightImageData: ProcessedImageData | null = null,
+  downImageData: ProcessedImageData | null = null
 ): ShadowCasterGeometry {
+  if (config.layout === 'hex') {
+    return generateHexGeometry(horizImageData, vertImageData, rightImageData, config);
+  }
+
   const leftWalls: WallGeometry[] = [];
   const upWalls: WallGeometry[] = [];
+  const rightWalls: WallGeometry[] = [];
+  const downWalls: WallGeometry[] = [];
+  // What each wall was sized to shade, for pairing walls below
+  const targets: Record<ShadowDirection, ShadeTarget[]> = { horizontal: [], vertical: [], right: [], down: [] };
+  const extraImages = layoutImages(config);
+  // The images whose walls are built. A left wall faces the right wall of
+  // its cell, and an up wall the down wall of the cell it shades.
+  const built: Record<ShadowDirection, ProcessedImageData | null> = {
+    horizontal: config.doHorizImage ? horizImageData : null,
+    vertical: config.doVertImage ? vertImageData : null,
+    right: config.doRightImage && extraImages.right ? rightImageData : null,
+    down: config.doDownImage && extraImages.down ? downImageData : null
+  };
+  const openFloor = (facing: ShadowDirection, image: ProcessedImageData, x: number, y: number) =>
+    openFloorWidth(config, hasPixelInCell(built[facing], image, x, y));
+  // Plus walls shift left walls right and up walls back, as the Dart version did
+  const plusOffset = config.plusWalls ? 0.5 * (config.cellSize - config.wallWidth) : 0;
 
   // Generate left walls (horizontal shadow image)
   if (horizImageData && config.doHorizImage) {
     for (let y = 0; y < horizImageData.height; y++) {
       for (let x = 0; x < horizImageData.width; x++) {
         const val = horizImageData.data[y][x];
-        const wallHeight = roundToLayerHeight(
-          (1 - val / 256) * (config.maxHeight - config.layerHeight),
-          config.layerHeight
-        );
+        const floor = openFloor('right', horizImageData, x, y);
+        const wallHeight = wallHeightForValue(val, horizImageData.levels, config, 'horizontal', floor);
+        targets.horizontal.push({ coverage: coverageForValue(val, horizImageData.levels, config), openFloor: floor });
 
         const size: [number, number, number] = [
           config.wallWidth,
@@ -38,7 +161,7 @@ export function generateShadowCasterGeometry(
           wallHeight + config.layerHeight
         ];
         
-        const posX = config.border + size[0] / 2 + x * config.cellSize;
+        const posX = config.border + size[0] / 2 + x * config.cellSize + plusOffset;
         const posY = config.border + (horizImageData.height - y - 0.5) * config.cellSize;
         const posZ = size[2] / 2 + config.bottomThk;
 
@@ -46,6 +169,20 @@ export function generateShadowCasterGeometry(
           position: [posX, posY, posZ] as [number, number, number],
           size: size
         });
+
+
+        // const posX = config.border + (x + 1.5) * config.cellSize;
+        // const posY = config.border + (vertImageData.height - y) * config.cellSize - config.wallWidth/2;
+        // const posZ = config.bottomThk + wallHeight / 2 + config.layerHeight / 2;
+
+        // upWalls.push({
+        //   position: [posX, posY, posZ],
+        //   size: [
+        //     config.cellSize + 0.01,
+        //     config.wallWidth + 0.01,
+        //     wallHeight + config.layerHeight
+        //   ]
+        // });
       }
     }
   }
@@ -55,10 +192,9 @@ export function generateShadowCasterGeometry(
     for (let y = 0; y < vertImageData.height; y++) {
       for (let x = 0; x < vertImageData.width; x++) {
         const val = vertImageData.data[y][x];
-        const wallHeight = roundToLayerHeight(
-          (1 - val / 256) * (config.maxHeight - config.layerHeight),
-          config.layerHeight
-        );
+        const floor = openFloor('down', vertImageData, x, y);
+        const wallHeight = wallHeightForValue(val, vertImageData.levels, config, 'vertical', floor);
+        targets.vertical.push({ coverage: coverageForValue(val, vertImageData.levels, config), openFloor: floor });
 
         const size: [number, number, number] = [
           config.cellSize,
@@ -67,53 +203,313 @@ export function generateShadowCasterGeometry(
         ];
         
         const posX = config.border + size[0] / 2 + x * config.cellSize;
-        const posY = config.border + (vertImageData.height - y) * config.cellSize + config.wallWidth / 2;
+        const posY = config.border + (vertImageData.height - y) * config.cellSize + config.wallWidth / 2 + plusOffset;
         const posZ = size[2] / 2 + config.bottomThk;
 
         upWalls.push({
           position: [posX, posY, posZ] as [number, number, number],
           size: size
         });
+      }
+    }
+  }
 
+  // Generate right walls (third image, lit from the right). They stand
+  // inside the right edge of each cell, back to back with the next cell's
+  // left wall.
+  if (rightImageData && config.doRightImage && extraImages.right) {
+    for (let y = 0; y < rightImageData.height; y++) {
+      for (let x = 0; x < rightImageData.width; x++) {
+        const val = rightImageData.data[y][x];
+        const floor = openFloor('horizontal', rightImageData, x, y);
+        const wallHeight = wallHeightForValue(val, rightImageData.levels, config, 'right', floor);
+        targets.right.push({ coverage: coverageForValue(val, rightImageData.levels, config), openFloor: floor });
+        const size: [number, number, number] = [
+          config.wallWidth,
+          config.cellSize,
+          wallHeight + config.layerHeight
+        ];
 
-        // const posX = config.border + (x + 1.5) * config.cellSize;
-        // const posY = config.border + (vertImageData.height - y) * config.cellSize - config.wallWidth/2;
-        // const posZ = config.bottomThk + wallHeight / 2 + config.layerHeight / 2;
+        rightWalls.push({
+          position: [
+            config.border + (x + 1) * config.cellSize - size[0] / 2,
+            config.border + (rightImageData.height - y - 0.5) * config.cellSize,
+            size[2] / 2 + config.bottomThk
+          ],
+          size
+        });
+      }
+    }
+  }
 
-        // upWalls.push({
-        //   position: [posX, posY, posZ],
-        //   size: [
-        //     config.cellSize + 0.01,
-        //     config.wallWidth + 0.01,
-        //     wallHeight + config.layerHeight
-        //   ]
-        // });
+  // Generate down walls (fourth image, lit from the bottom). Up walls stand
+  // just above a cell's top edge, so down walls stand one wall width above
+  // its bottom edge, back to back with the up walls of the row below.
+  if (downImageData && config.doDownImage && extraImages.down) {
+    for (let y = 0; y < downImageData.height; y++) {
+      for (let x = 0; x < downImageData.width; x++) {
+        const val = downImageData.data[y][x];
+        const floor = openFloor('vertical', downImageData, x, y);
+        const wallHeight = wallHeightForValue(val, downImageData.levels, config, 'down', floor);
+        targets.down.push({ coverage: coverageForValue(val, downImageData.levels, config), openFloor: floor });
+        const size: [number, number, number] = [
+          config.cellSize,
+          config.wallWidth,
+          wallHeight + config.layerHeight
+        ];
+
+        downWalls.push({
+          position: [
+            config.border + (x + 0.5) * config.cellSize,
+            config.border + (downImageData.height - y - 1) * config.cellSize + config.wallWidth * 1.5,
+            size[2] / 2 + config.bottomThk
+          ],
+          size
+        });
       }
     }
   }
 
+  // Right walls sit just left of the next column's left walls and down walls
+  // just above the up walls of the row below
+  shareBackToBackHeights(leftWalls, targets.horizontal, 'horizontal', rightWalls, targets.right, 'right', [-config.wallWidth, 0], config);
+  shareBackToBackHeights(upWalls, targets.vertical, 'vertical', downWalls, targets.down, 'down', [0, config.wallWidth], config);
+
   // Calculate base dimensions
-  const imageWidth = Math.max(
-    horizImageData?.width || 0,
-    vertImageData?.width || 0
-  );
-  const imageHeight = Math.max(
-    horizImageData?.height || 0,
-    vertImageData?.height || 0
-  );
+  const images = [horizImageData, vertImageData, rightImageData, downImageData];
+  const imageWidth = Math.max(...images.map(image => image?.width || 0));
+  const imageHeight = Math.max(...images.map(image => image?.height || 0));
 
   const baseWidth = config.border * 2 + config.cellSize * imageWidth;
   const baseHeight = config.border * 2 + config.cellSize * imageHeight + config.wallWidth;
 
-  const base: WallGeometry = {
+  const base: WallGeometry[] = [{
     position: [baseWidth / 2, baseHeight / 2, config.bottomThk / 2],
     size: [baseWidth, baseHeight, config.bottomThk]
+  }];
+
+  const geometry = { base, leftWalls, upWalls, rightWalls, downWalls };
+  return config.shape === 'cylinder' ? wrapOnCylinder(geometry, config) : geometry;
+}
+
+// Whether an image has a pixel in the cell of pixel (x, y) of another. Rows
+// of images of different heights line up at the bottom of the base.
+function hasPixelInCell(
+  image: ProcessedImageData | null,
+  other: ProcessedImageData,
+  x: number,
+  y: number
+): boolean {
+  const row = y + (image?.height ?? 0) - other.height;
+  return image !== null && x < image.width && row >= 0 && row < image.height;
+}
+
+// The share of the open floor beside a wall its height was chosen to shade
+interface ShadeTarget {
+  coverage: number;
+  openFloor: number;
+}
+
+// Height above the base, in whole layers, that best shows each of several
+// images' coverages at once under their own lights
+function sharedWallHeight(targets: [ShadeTarget, ShadowDirection][], config: ComputedImageConfig): number {
+  const layer = config.layerHeight;
+  const fullCover = targets.map(([{ openFloor }, direction]) => heightForCoverage(1, lightElevation(config, direction), openFloor));
+  const maxSteps = Math.max(1, Math.round(Math.max(...fullCover) / layer));
+  const gray = (coverage: number) => grayForLitFraction(1 - coverage, config.darknessModel);
+
+  let best = 1;
+  let bestError = Infinity;
+  for (let steps = 1; steps <= maxSteps; steps++) {
+    const error = targets.reduce((sum, [{ coverage }], i) => {
+      const cast = fullCover[i] > 0 ? Math.min(steps * layer / fullCover[i], 1) : 1;
+      return sum + (gray(cast) - gray(coverage)) ** 2;
+    }, 0);
+    if (error < bestError - 1e-9) {
+      best = steps;
+      bestError = error;
+    }
+  }
+  return best * layer;
+}
+
+// Walls standing back to back act as one: lit from either side, the taller
+// of the two casts the shadow, so both images see the same height. Give each
+// pair the height that best serves both images. The back wall of a front
+// wall stands offset from it by (dx, dy).
+function shareBackToBackHeights(
+  front: WallGeometry[],
+  frontTargets: ShadeTarget[],
+  frontDirection: ShadowDirection,
+  back: WallGeometry[],
+  backTargets: ShadeTarget[],
+  backDirection: ShadowDirection,
+  [dx, dy]: [number, number],
+  config: ComputedImageConfig
+): void {
+  const key = (x: number, y: number) => `${coordinateKey(x)},${coordinateKey(y)}`;
+  const backIndex = new Map(back.map((wall, i) => [key(wall.position[0], wall.position[1]), i]));
+  const resize = (wall: WallGeometry, height: number): WallGeometry => ({
+    ...wall,
+    position: [wall.position[0], wall.position[1], config.bottomThk + height / 2],
+    size: [wall.size[0], wall.size[1], height]
+  });
+
+  front.forEach((wall, i) => {
+    const j = backIndex.get(key(wall.position[0] + dx, wall.position[1] + dy));
+    if (j === undefined) return;
+    const height = sharedWallHeight([[frontTargets[i], frontDirection], [backTargets[j], backDirection]], config);
+    front[i] = resize(wall, height);
+    back[j] = resize(back[j], height);
+  });
+}
+
+// Walls on one edge of every cell of a hex-sampled image. Each wall lies
+// inside its cell against the edge whose outward normal is at angle degrees,
+// and is lit from that side by the light of the given direction.
+function hexWalls(
+  imageData: ProcessedImageData,
+  angle: number,
+  direction: ShadowDirection,
+  config: ComputedImageConfig
+): WallGeometry[] {
+  const walls: WallGeometry[] = [];
+  const radians = angle * Math.PI / 180;
+  const inset = config.cellSize / 2 - config.wallWidth / 2;
+  const side = HEX_SIDE * config.cellSize;
+
+  for (let y = 0; y < imageData.height; y++) {
+    for (let x = 0; x < imageData.width; x++) {
+      const wallHeight = wallHeightForValue(imageData.data[y][x], imageData.levels, config, direction);
+      const [centerX, centerY] = hexCellCenter(x, y, imageData.height, config.cellSize, config.border);
+      const height = wallHeight + config.layerHeight;
+
+      const position: [number, number, number] = [
+        centerX + inset * Math.cos(radians),
+        centerY + inset * Math.sin(radians),
+        height / 2 + config.bottomThk
+      ];
+
+      // Walls facing +y stay axis-aligned. The others are thin across x
+      // before turning, so their rotation is the normal's angle.
+      walls.push(angle === HEX_WALL_ANGLES.up
+        ? { position, size: [side, config.wallWidth, height] }
+        : { position, size: [config.wallWidth, side, height], rotation: angle });
+    }
+  }
+  return walls;
+}
+
+// Hexagonal cells with a wall on three alternate edges, each set casting its
+// own image. The images must already be sampled onto the hex lattice.
+function generateHexGeometry(
+  horizImageData: ProcessedImageData | null,
+  vertImageData: ProcessedImageData | null,
+  rightImageData: ProcessedImageData | null,
+  config: ComputedImageConfig
+): ShadowCasterGeometry {
+  const wallsFor = (
+    imageData: ProcessedImageData | null,
+    enabled: boolean,
+    angle: number,
+    direction: ShadowDirection
+  ) => imageData && enabled ? hexWalls(imageData, angle, direction, config) : [];
+
+  const images = [horizImageData, vertImageData, rightImageData];
+  const grid = hexGridSize(
+    Math.max(...images.map(image => image?.width || 0)),
+    Math.max(...images.map(image => image?.height || 0)),
+    config.cellSize
+  );
+  const baseWidth = config.border * 2 + grid.width;
+  const baseHeight = config.border * 2 + grid.height;
+
+  return {
+    base: [{
+      position: [baseWidth / 2, baseHeight / 2, config.bottomThk / 2],
+      size: [baseWidth, baseHeight, config.bottomThk]
+    }],
+    leftWalls: wallsFor(horizImageData, config.doHorizImage, HEX_WALL_ANGLES.left, 'horizontal'),
+    upWalls: wallsFor(vertImageData, config.doVertImage, HEX_WALL_ANGLES.up, 'vertical'),
+    rightWalls: wallsFor(rightImageData, config.doRightImage, HEX_WALL_ANGLES.right, 'right'),
+    downWalls: []
   };
+}
+
+// Tolerance when comparing wall coordinates, well below any printable size
+const MERGE_EPSILON = 1e-6;
+
+function coordinateKey(value: number): string {
+  return Math.round(value / MERGE_EPSILON).toString();
+}
+
+// Merge walls that touch end to end along the given axis and have the same
+// cross-section and height into single boxes. Turned walls are kept as they are.
+function mergeWallRuns(walls: WallGeometry[], axis: 0 | 1): WallGeometry[] {
+  const across = axis === 0 ? 1 : 0;
+  const groups = new Map<string, WallGeometry[]>();
+  const merged: WallGeometry[] = [];
+
+  walls.forEach(wall => {
+    if (wall.rotation) {
+      merged.push(wall);
+      return;
+    }
+    const key = [
+      wall.position[across],
+      wall.size[across],
+      wall.position[2],
+      wall.size[2]
+    ].map(coordinateKey).join(',');
+    const group = groups.get(key);
+    if (group) {
+      group.push(wall);
+    } else {
+      groups.set(key, [wall]);
+    }
+  });
 
+  groups.forEach(group => {
+    group.sort((a, b) => a.position[axis] - b.position[axis]);
+
+    let start = group[0].position[axis] - group[0].size[axis] / 2;
+    let end = group[0].position[axis] + group[0].size[axis] / 2;
+    const flush = (template: WallGeometry) => {
+      const position = [...template.position] as [number, number, number];
+      const size = [...template.size] as [number, number, number];
+      position[axis] = (start + end) / 2;
+      size[axis] = end - start;
+      merged.push({ position, size });
+    };
+
+    for (let i = 1; i < group.length; i++) {
+      const wall = group[i];
+      const wallStart = wall.position[axis] - wall.size[axis] / 2;
+      if (Math.abs(wallStart - end) < MERGE_EPSILON) {
+        end = wallStart + wall.size[axis];
+        continue;
+      }
+      flush(group[i - 1]);
+      start = wallStart;
+      end = wallStart + wall.size[axis];
+    }
+    flush(group[group.length - 1]);
+  });
+
+  return merged;
+}
+
+// Optimization pass for export: runs of equal-height left and right walls
+// down a column and up and down walls along a row become single boxes. The printed shape is
+// unchanged, but there are far fewer triangles. The merged walls no longer map
+// one to one onto pixels, so the preview keeps the unmerged geometry.
+export function mergeAdjacentWalls(geometry: ShadowCasterGeometry): ShadowCasterGeometry {
   return {
-    base,
-    leftWalls,
-    upWalls
+    base: geometry.base,
+    leftWalls: mergeWallRuns(geometry.leftWalls, 1),
+    upWalls: mergeWallRuns(geometry.upWalls, 0),
+    rightWalls: mergeWallRuns(geometry.rightWalls, 1),
+    downWalls: mergeWallRuns(geometry.downWalls, 0)
   };
 }
 
@@ -128,38 +524,72 @@ function getMaterial(color: number): THREE.Material {
   return materialCache.get(key)!;
 }
 
+// Reused so every instance update avoids allocating
+const instanceMatrix = new THREE.Matrix4();
+const instancePosition = new THREE.Vector3();
+const instanceScale = new THREE.Vector3();
+const instanceRotation = new THREE.Quaternion();
+const verticalAxis = new THREE.Vector3(0, 0, 1);
+
+// Write each wall's transform into the instance matrices. The instances share
+// a unit cube, so a wall's size is its scale.
+function setWallInstances(mesh: THREE.InstancedMesh, walls: WallGeometry[]): void {
+  walls.forEach((wall, i) => {
+    instancePosition.set(...wall.position);
+    instanceScale.set(...wall.size);
+    instanceRotation.setFromAxisAngle(verticalAxis, (wall.rotation ?? 0) * Math.PI / 180);
+    instanceMatrix.compose(instancePosition, instanceRotation, instanceScale);
+    mesh.setMatrixAt(i, instanceMatrix);
+  });
+  mesh.instanceMatrix.needsUpdate = true;
+  mesh.computeBoundingBox();
+  mesh.computeBoundingSphere();
+}
+
+function createWallInstances(
+  walls: WallGeometry[],
+  material: THREE.Material,
+  name: string
+): THREE.InstancedMesh {
+  const mesh = new THREE.InstancedMesh(new THREE.BoxGeometry(1, 1, 1), material, walls.length);
+  mesh.name = name;
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  setWallInstances(mesh, walls);
+  return mesh;
+}
+
+// Build the preview with one draw call for the base and one per wall set.
+// Every box is an instance of a single cube, so even 80,000+ walls stay
+// interactive.
 export function createThreeGeometry(geometry: ShadowCasterGeometry): THREE.Group {
   const group = new THREE.Group();
 
-  // Create base
-  const baseGeometry = new THREE.BoxGeometry(...geometry.base.size);
-  const baseMaterial = getMaterial(0x888888);
-  const baseMesh = new THREE.Mesh(baseGeometry, baseMaterial);
-  baseMesh.position.set(...geometry.base.position);
-  group.add(baseMesh);
+  group.add(createWallInstances(geometry.base, getMaterial(0x888888), 'base'));
 
   // Get wall material (reused for all walls)
   const wallMaterial = getMaterial(0xcccccc);
 
-  // Create left walls
-  geometry.leftWalls.forEach(wall => {
-    const wallGeometry = new THREE.BoxGeometry(...wall.size);
-    const wallMesh = new THREE.Mesh(wallGeometry, wallMaterial);
-    wallMesh.position.set(...wall.position);
-    group.add(wallMesh);
-  });
-
-  // Create up walls
-  geometry.upWalls.forEach(wall => {
-    const wallGeometry = new THREE.BoxGeometry(...wall.size);
-    const wallMesh = new THREE.Mesh(wallGeometry, wallMaterial);
-    wallMesh.position.set(...wall.position);
-    group.add(wallMesh);
-  });
+  WALL_SETS.forEach(set => group.add(createWallInstances(geometry[set], wallMaterial, set)));
 
   return group;
 }
 
+// Update a group from createThreeGeometry in place. This only works when the
+// box counts are unchanged, e.g. when only wall heights changed; returns
+// false if the group has to be rebuilt instead.
+export function updateThreeGeometry(group: THREE.Group, geometry: ShadowCasterGeometry): boolean {
+  const sets = ['base', ...WALL_SETS] as const;
+  const meshes = sets.map(set => group.getObjectByName(set));
+
+  if (meshes.some((mesh, i) => !(mesh instanceof THREE.InstancedMesh) || mesh.count !== geometry[sets[i]].length)) {
+    return false;
+  }
+
+  meshes.forEach((mesh, i) => setWallInstances(mesh as THREE.InstancedMesh, geometry[sets[i]]));
+
+  return true;
+}
+
 export function disposeGroup(group: THREE.Group): void {
   group.traverse((child) => {
     if (child instanceof THREE.Mesh) {
@@ -167,6 +597,11 @@ export function disposeGroup(group: THREE.Group): void {
       if (child.geometry) {
         child.geometry.dispose();
       }
+
+      // Free the per-instance buffers of instanced walls
+      if (child instanceof THREE.InstancedMesh) {
+        child.dispose();
+      }
       
       // Note: We don't dispose materials here since they're cached
       // Materials will be disposed when disposeMaterialCache is called
@@ -190,15 +625,20 @@ export function calculateSceneBounds(geometry: ShadowCasterGeometry): {
   center: THREE.Vector3;
   size: THREE.Vector3;
 } {
-  const allGeometries = [geometry.base, ...geometry.leftWalls, ...geometry.upWalls];
+  const allGeometries = [...geometry.base, ...allWalls(geometry)];
   
   let minX = Infinity, minY = Infinity, minZ = Infinity;
   let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
 
   allGeometries.forEach(wall => {
     const [x, y, z] = wall.position;
-    const [w, h, d] = wall.size;
-    
+    const [, , d] = wall.size;
+    // Width and depth of the wall's footprint, turned or not
+    const [cornerX, cornerY] = rotateWallOffset(wall, wall.size[0] / 2, wall.size[1] / 2);
+    const [otherX, otherY] = rotateWallOffset(wall, wall.size[0] / 2, -wall.size[1] / 2);
+    const w = 2 * Math.max(Math.abs(cornerX), Math.abs(otherX));
+    const h = 2 * Math.max(Math.abs(cornerY), Math.abs(otherY));
+
     minX = Math.min(minX, x - w/2);
     maxX = Math.max(maxX, x + w/2);
     minY = Math.min(minY, y - h/2);
@@ -0,0 +1,60 @@
+import type { ImageConfig } from '../types/ImageConfig';
+import type { ShadowDirection } from './shadowSimulation';
+
+// How a pixel's gray value sets the share of its cell's open floor left lit.
+// A cell is seen as the average of its lit and shaded floor, which is linear
+// light, while gray values are usually sRGB encoded.
+export type DarknessModel = 'linear' | 'perceptual';
+
+export const darknessModelLabels: Record<DarknessModel, string> = {
+  linear: 'Linear (gray value is the lit share)',
+  perceptual: 'Perceptual (gamma-corrected sRGB)'
+};
+
+export type LightElevations = Pick<
+  ImageConfig,
+  'horizLightElevation' | 'vertLightElevation' | 'rightLightElevation' | 'downLightElevation'
+>;
+
+// Elevation above the base of the light an image is designed for
+export function lightElevation(config: LightElevations, direction: ShadowDirection): number {
+  return {
+    horizontal: config.horizLightElevation,
+    vertical: config.vertLightElevation,
+    right: config.rightLightElevation,
+    down: config.downLightElevation
+  }[direction];
+}
+
+// Fraction (0-1) of a cell's open floor left lit to show a gray value
+export function litFraction(gray: number, model: DarknessModel): number {
+  const encoded = Math.min(Math.max(gray / 255, 0), 1);
+  if (model === 'linear') {
+    return encoded;
+  }
+  return encoded <= 0.04045 ? encoded / 12.92 : Math.pow((encoded + 0.055) / 1.055, 2.4);
+}
+
+// The gray value (0-255) a cell shows with the given fraction of its floor lit
+export function grayForLitFraction(lit: number, model: DarknessModel): number {
+  const fraction = Math.min(Math.max(lit, 0), 1);
+  if (model === 'linear') {
+    return 255 * fraction;
+  }
+  return 255 * (fraction <= 0.0031308 ? fraction * 12.92 : 1.055 * Math.pow(fraction, 1 / 2.4) - 0.055);
+}
+
+// Width of the floor a wall's shadow can fall on: its cell less the wall
+// itself, and less the wall facing it across the cell where there is one
+export function openFloorWidth(
+  config: Pick<ImageConfig, 'cellSize' | 'wallWidth'>,
+  facingWall = false
+): number {
+  return Math.max(config.cellSize - (facingWall ? 2 : 1) * config.wallWidth, 0);
+}
+
+// Height above the base of a wall whose shadow, cast by a light at the given
+// elevation, covers the given fraction of an open floor openFloor mm wide
+export function heightForCoverage(coverage: number, elevationDegrees: number, openFloor: number): number {
+  return coverage * openFloor * Math.tan(elevationDegrees * Math.PI / 180);
+}
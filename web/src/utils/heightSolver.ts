@@ -0,0 +1,368 @@
+import { coverageForValue } from './geometryGenerator';
+import { unwrapWall, wrapWall } from './cylinder';
+import { grayForLitFraction, lightElevation, openFloorWidth } from './heightModel';
+import type { ShadowCasterGeometry, WallGeometry } from './geometryGenerator';
+import type { ProcessedImageData } from './imageProcessing';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+// Joint heights for the left and up walls of a square grid.
+//
+// Seen from above, a cell is its open floor, its own left wall along one side
+// and, in a strip along the bottom, the up wall of the cell below. The
+// horizontal light skims along that strip, so besides the floor it shades the
+// up wall's top wherever the left wall stands taller; the vertical light does
+// the same to the left wall's top. A tall up wall therefore lightens the
+// horizontal image and a tall left wall the vertical one. The solver moves
+// both sets of heights a layer at a time until no wall can lower the two
+// images' combined error, which may leave one of them a little worse off.
+//
+// Right walls stand back to back with the left walls of the next column, and
+// down walls with the up walls of the row below. Lit from either side, the
+// taller of a pair casts the shadow, so a pair keeps one height, chosen for
+// both images at once. Their floors are judged on their own. A cell's right
+// wall faces its left wall, and its down wall the up wall shading it, which
+// narrows the floor each of them shades and adds a down wall to the bottom
+// strip and a right wall to the strips the vertical light crosses.
+
+// Passes over the grid at most; each pass only ever lowers the error
+const MAX_ITERATIONS = 20;
+
+export interface ImageError {
+  // RMS difference between the image and its shadow in gray levels (0-255),
+  // with the heights the model was built with and after solving
+  before: number;
+  after: number;
+}
+
+export interface HeightErrorReport {
+  horizontal: ImageError | null;
+  vertical: ImageError | null;
+  right: ImageError | null;
+  down: ImageError | null;
+  // Passes made over the grid
+  iterations: number;
+}
+
+// Plus walls cross mid-cell and hex cells have no bottom strip, so the
+// solver's picture of a cell only fits the walls of plain square cells
+export function canOptimizeHeights(config: Pick<ComputedImageConfig, 'layout' | 'plusWalls' | 'mode'>): boolean {
+  return config.mode === 'shadowCaster' && config.layout === 'square' && !config.plusWalls;
+}
+
+interface Grid {
+  columns: number;
+  rows: number;
+  // Index of the wall standing in each cell, or -1. Rows count up from the
+  // bottom edge of the base.
+  left: Int32Array;
+  up: Int32Array;
+  right: Int32Array;
+  down: Int32Array;
+  // Target gray of each cell's pixel, NaN where there is none
+  leftTarget: Float64Array;
+  upTarget: Float64Array;
+  rightTarget: Float64Array;
+  downTarget: Float64Array;
+}
+
+interface GridWalls {
+  left: WallGeometry[];
+  up: WallGeometry[];
+  right: WallGeometry[];
+  down: WallGeometry[];
+}
+
+interface GridImages {
+  horizontal: ProcessedImageData | null;
+  vertical: ProcessedImageData | null;
+  right: ProcessedImageData | null;
+  down: ProcessedImageData | null;
+}
+
+function cellOf(x: number, y: number, config: ComputedImageConfig): [number, number] {
+  return [
+    Math.floor((x - config.border) / config.cellSize + 1e-6),
+    Math.floor((y - config.border) / config.cellSize + 1e-6)
+  ];
+}
+
+function buildGrid(walls: GridWalls, images: GridImages, config: ComputedImageConfig): Grid {
+  const all = Object.values(images);
+  const columns = Math.max(...all.map(image => image?.width || 0));
+  const rows = Math.max(...all.map(image => image?.height || 0));
+  const cells = () => new Int32Array(columns * rows).fill(-1);
+  const targets = () => new Float64Array(columns * rows).fill(NaN);
+  const grid: Grid = {
+    columns,
+    rows,
+    left: cells(),
+    up: cells(),
+    right: cells(),
+    down: cells(),
+    leftTarget: targets(),
+    upTarget: targets(),
+    rightTarget: targets(),
+    downTarget: targets()
+  };
+
+  const place = (walls: WallGeometry[], cells: Int32Array, rowOffset: number) => {
+    walls.forEach((wall, index) => {
+      const [column, row] = cellOf(wall.position[0], wall.position[1], config);
+      const cell = (row + rowOffset) * columns + column;
+      if (column >= 0 && column < columns && row + rowOffset >= 0 && row + rowOffset < rows) {
+        cells[cell] = index;
+      }
+    });
+  };
+  place(walls.left, grid.left, 0);
+  // Up walls stand just above the top edge of their cell
+  place(walls.up, grid.up, -1);
+  place(walls.right, grid.right, 0);
+  place(walls.down, grid.down, 0);
+
+  const target = (imageData: ProcessedImageData | null, targets: Float64Array) => {
+    if (!imageData) return;
+    for (let y = 0; y < imageData.height; y++) {
+      for (let x = 0; x < imageData.width; x++) {
+        const coverage = coverageForValue(imageData.data[y][x], imageData.levels, config);
+        targets[(imageData.height - 1 - y) * columns + x] = grayForLitFraction(1 - coverage, config.darknessModel);
+      }
+    }
+  };
+  target(images.horizontal, grid.leftTarget);
+  target(images.vertical, grid.upTarget);
+  target(images.right, grid.rightTarget);
+  target(images.down, grid.downTarget);
+
+  return grid;
+}
+
+// Adjust the wall heights of a square-grid model together so each image
+// allows for the shading of the other's walls and back-to-back walls share a
+// height. The images are the dithered ones the model was built from.
+export function optimizeWallHeights(
+  geometry: ShadowCasterGeometry,
+  horizImageData: ProcessedImageData | null,
+  vertImageData: ProcessedImageData | null,
+  config: ComputedImageConfig,
+  rightImageData: ProcessedImageData | null = null,
+  downImageData: ProcessedImageData | null = null
+): { geometry: ShadowCasterGeometry; report: HeightErrorReport } {
+  const cylinder = config.shape === 'cylinder';
+  const flatten = (walls: WallGeometry[]) => cylinder ? walls.map(wall => unwrapWall(wall, config)) : walls;
+  const walls: GridWalls = {
+    left: flatten(geometry.leftWalls),
+    up: flatten(geometry.upWalls),
+    right: flatten(geometry.rightWalls),
+    down: flatten(geometry.downWalls)
+  };
+  const grid = buildGrid(
+    walls,
+    { horizontal: horizImageData, vertical: vertImageData, right: rightImageData, down: downImageData },
+    config
+  );
+  const { columns, rows } = grid;
+
+  const open = openFloorWidth(config);
+  const layer = config.layerHeight;
+  const tanLeft = Math.tan(lightElevation(config, 'horizontal') * Math.PI / 180);
+  const tanUp = Math.tan(lightElevation(config, 'vertical') * Math.PI / 180);
+  const tanRight = Math.tan(lightElevation(config, 'right') * Math.PI / 180);
+  const tanDown = Math.tan(lightElevation(config, 'down') * Math.PI / 180);
+
+  // Heights above the base in whole layers
+  const toSteps = (walls: WallGeometry[], cells: Int32Array) =>
+    Int32Array.from(cells, index => index < 0 ? 0 : Math.max(1, Math.round(walls[index].size[2] / layer)));
+  const leftSteps = toSteps(walls.left, grid.left);
+  const upSteps = toSteps(walls.up, grid.up);
+  const rightSteps = toSteps(walls.right, grid.right);
+  const downSteps = toSteps(walls.down, grid.down);
+
+  // The right wall behind each cell's left wall and the down wall behind each
+  // up wall, or -1
+  const rightPartner = (cell: number) => cell % columns > 0 && grid.right[cell - 1] >= 0 ? cell - 1 : -1;
+  const downPartner = (cell: number) => cell + columns < columns * rows && grid.down[cell + columns] >= 0 ? cell + columns : -1;
+
+  // Floor each light shades in a cell, along the light: narrower where the
+  // wall facing the lit one across the cell stands
+  const horizontalFloor = (cell: number) => openFloorWidth(config, grid.right[cell] >= 0);
+  const verticalFloor = (cell: number) => openFloorWidth(config, grid.down[cell] >= 0);
+
+  // Gray of a cell lit past a wall of the given height across a floor as long
+  // as along. The strips of crossing walls, given as [steps, width], make up
+  // the rest of the cell's width; their tops are shaded where the lit wall
+  // stands taller.
+  const shadowGray = (steps: number, tan: number, along: number, strips: [number, number][]) => {
+    if (along <= 0) return grayForLitFraction(0, config.darknessModel);
+    const floor = Math.min(steps * layer / tan, along);
+    let shaded = (config.cellSize - strips.reduce((sum, [, width]) => sum + width, 0)) * floor;
+    strips.forEach(([crossingSteps, width]) => {
+      shaded += width * Math.min(Math.max(steps - crossingSteps, 0) * layer / tan, along);
+    });
+    return grayForLitFraction(1 - shaded / (along * config.cellSize), config.darknessModel);
+  };
+
+  // The horizontal light crosses the up wall of the cell below and the
+  // cell's own down wall; the vertical light the cell's left and right walls
+  const horizontalStrips = (cell: number): [number, number][] => {
+    const strips: [number, number][] = [[cell >= columns ? upSteps[cell - columns] : 0, config.wallWidth]];
+    if (grid.down[cell] >= 0) strips.push([downSteps[cell], config.wallWidth]);
+    return strips;
+  };
+  const verticalStrips = (cell: number): [number, number][] => {
+    const strips: [number, number][] = [[leftSteps[cell], config.wallWidth]];
+    if (grid.right[cell] >= 0) strips.push([rightSteps[cell], config.wallWidth]);
+    return strips;
+  };
+
+  const leftError = (cell: number) => {
+    if (grid.left[cell] < 0 || Number.isNaN(grid.leftTarget[cell])) return 0;
+    return (shadowGray(leftSteps[cell], tanLeft, horizontalFloor(cell), horizontalStrips(cell)) - grid.leftTarget[cell]) ** 2;
+  };
+  const upError = (cell: number) => {
+    if (grid.up[cell] < 0 || Number.isNaN(grid.upTarget[cell])) return 0;
+    return (shadowGray(upSteps[cell], tanUp, verticalFloor(cell), verticalStrips(cell)) - grid.upTarget[cell]) ** 2;
+  };
+  const floorGray = (steps: number, tan: number, along: number) => along > 0
+    ? grayForLitFraction(1 - Math.min(steps * layer / tan, along) / along, config.darknessModel)
+    : grayForLitFraction(0, config.darknessModel);
+  // Right walls face the cell's left wall, and down walls its up wall
+  const rightError = (cell: number) => {
+    if (grid.right[cell] < 0 || Number.isNaN(grid.rightTarget[cell])) return 0;
+    const along = openFloorWidth(config, grid.left[cell] >= 0);
+    return (floorGray(rightSteps[cell], tanRight, along) - grid.rightTarget[cell]) ** 2;
+  };
+  const downError = (cell: number) => {
+    if (grid.down[cell] < 0 || Number.isNaN(grid.downTarget[cell])) return 0;
+    const along = openFloorWidth(config, grid.up[cell] >= 0);
+    return (floorGray(downSteps[cell], tanDown, along) - grid.downTarget[cell]) ** 2;
+  };
+
+  const rms = (error: (cell: number) => number, cells: Int32Array, targets: Float64Array) => {
+    let sum = 0;
+    let count = 0;
+    for (let cell = 0; cell < cells.length; cell++) {
+      if (cells[cell] >= 0 && !Number.isNaN(targets[cell])) {
+        sum += error(cell);
+        count++;
+      }
+    }
+    return count > 0 ? Math.sqrt(sum / count) : null;
+  };
+  const leftBefore = rms(leftError, grid.left, grid.leftTarget);
+  const upBefore = rms(upError, grid.up, grid.upTarget);
+  const rightBefore = rms(rightError, grid.right, grid.rightTarget);
+  const downBefore = rms(downError, grid.down, grid.downTarget);
+
+  // Walls go no taller than a full cover for their own light, or for either
+  // light of a back-to-back pair
+  const maxLeftSteps = Math.max(1, Math.round(open * tanLeft / layer));
+  const maxUpSteps = Math.max(1, Math.round(open * tanUp / layer));
+  const maxRightSteps = Math.max(1, Math.round(open * tanRight / layer));
+  const maxDownSteps = Math.max(1, Math.round(open * tanDown / layer));
+
+  // Each wall in turn takes the height that minimises the error of the
+  // cells it affects, keeping its height on a tie so the passes settle
+  const bestSteps = (current: number, maxSteps: number, error: (steps: number) => number) => {
+    let best = current;
+    let bestError = error(current);
+    for (let steps = 1; steps <= maxSteps; steps++) {
+      const candidate = error(steps);
+      if (candidate < bestError - 1e-9) {
+        best = steps;
+        bestError = candidate;
+      }
+    }
+    return best;
+  };
+
+  let iterations = 0;
+  let changed = open > 0;
+  while (changed && iterations < MAX_ITERATIONS) {
+    changed = false;
+    iterations++;
+    for (let cell = 0; cell < columns * rows; cell++) {
+      if (grid.left[cell] >= 0) {
+        const current = leftSteps[cell];
+        const partner = rightPartner(cell);
+        leftSteps[cell] = bestSteps(current, partner >= 0 ? Math.max(maxLeftSteps, maxRightSteps) : maxLeftSteps, steps => {
+          leftSteps[cell] = steps;
+          if (partner < 0) return leftError(cell) + upError(cell);
+          rightSteps[partner] = steps;
+          return leftError(cell) + upError(cell) + rightError(partner) + upError(partner);
+        });
+        if (partner >= 0) rightSteps[partner] = leftSteps[cell];
+        changed ||= leftSteps[cell] !== current;
+      }
+      if (grid.up[cell] >= 0) {
+        const current = upSteps[cell];
+        const above = cell + columns < columns * rows ? cell + columns : -1;
+        const partner = downPartner(cell);
+        upSteps[cell] = bestSteps(current, partner >= 0 ? Math.max(maxUpSteps, maxDownSteps) : maxUpSteps, steps => {
+          upSteps[cell] = steps;
+          if (partner < 0) return upError(cell) + (above >= 0 ? leftError(above) : 0);
+          downSteps[partner] = steps;
+          return upError(cell) + leftError(above) + downError(partner);
+        });
+        if (partner >= 0) downSteps[partner] = upSteps[cell];
+        changed ||= upSteps[cell] !== current;
+      }
+      // Walls with no partner only shade their own floor
+      if (grid.right[cell] >= 0 && (cell % columns === columns - 1 || grid.left[cell + 1] < 0)) {
+        const current = rightSteps[cell];
+        rightSteps[cell] = bestSteps(current, maxRightSteps, steps => {
+          rightSteps[cell] = steps;
+          return rightError(cell) + upError(cell);
+        });
+        changed ||= rightSteps[cell] !== current;
+      }
+      if (grid.down[cell] >= 0 && (cell < columns || grid.up[cell - columns] < 0)) {
+        const current = downSteps[cell];
+        downSteps[cell] = bestSteps(current, maxDownSteps, steps => {
+          downSteps[cell] = steps;
+          return downError(cell) + leftError(cell);
+        });
+        changed ||= downSteps[cell] !== current;
+      }
+    }
+  }
+
+  const resize = (walls: WallGeometry[], cells: Int32Array, steps: Int32Array): WallGeometry[] => {
+    const heights = new Map<number, number>();
+    cells.forEach((index, cell) => {
+      if (index >= 0) heights.set(index, steps[cell] * layer);
+    });
+    return walls.map((wall, index) => {
+      const height = heights.get(index) ?? wall.size[2];
+      const resized: WallGeometry = {
+        ...wall,
+        position: [wall.position[0], wall.position[1], config.bottomThk + height / 2],
+        size: [wall.size[0], wall.size[1], height]
+      };
+      return cylinder ? wrapWall(resized, config) : resized;
+    });
+  };
+
+  const leftAfter = rms(leftError, grid.left, grid.leftTarget);
+  const upAfter = rms(upError, grid.up, grid.upTarget);
+  const rightAfter = rms(rightError, grid.right, grid.rightTarget);
+  const downAfter = rms(downError, grid.down, grid.downTarget);
+  const imageError = (before: number | null, after: number | null) =>
+    before === null || after === null ? null : { before, after };
+  return {
+    geometry: {
+      ...geometry,
+      leftWalls: resize(walls.left, grid.left, leftSteps),
+      upWalls: resize(walls.up, grid.up, upSteps),
+      rightWalls: resize(walls.right, grid.right, rightSteps),
+      downWalls: resize(walls.down, grid.down, downSteps)
+    },
+    report: {
+      horizontal: imageError(leftBefore, leftAfter),
+      vertical: imageError(upBefore, upAfter),
+      right: imageError(rightBefore, rightAfter),
+      down: imageError(downBefore, downAfter),
+      iterations
+    }
+  };
+}
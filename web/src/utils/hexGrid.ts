@@ -0,0 +1,79 @@
+import { interpolateBilinear } from './resampling';
+import type { ProcessedImageData } from './imageProcessing';
+
+// Flat-topped hexagonal cells, cellSize across the flats. Columns are 3/4 of
+// a hexagon's width apart and odd columns sit half a cell lower, so every
+// cell touches six others. Images are held in offset coordinates: data[y][x]
+// is the cell in column x, row y from the top.
+
+// Column pitch as a fraction of cellSize: 1.5 sides of sqrt(3)/2
+export const HEX_COLUMN_PITCH = Math.sqrt(3) / 2;
+
+// Side length as a fraction of cellSize
+export const HEX_SIDE = 1 / Math.sqrt(3);
+
+// Outward normals, in degrees counterclockwise from +x, of the three edges a
+// cell puts walls on. The other three edges get the walls of its neighbours.
+export const HEX_WALL_ANGLES = {
+  left: 210,
+  up: 90,
+  right: 330
+} as const;
+
+// Rows of cells covering an image of the given height. An image pixel is one
+// column pitch wide, so rows, a whole cell apart, are fewer than pixel rows.
+export function hexLatticeRows(imageHeight: number): number {
+  return Math.max(1, Math.round(imageHeight * HEX_COLUMN_PITCH));
+}
+
+function isOffsetColumn(column: number): boolean {
+  return column % 2 === 1;
+}
+
+// Sample a grayscale image at the centre of every hex cell, keeping one
+// column per image column and the image's proportions
+export function sampleHexLattice(image: ProcessedImageData): ProcessedImageData {
+  const rows = hexLatticeRows(image.height);
+  const at = (column: number, row: number) => image.data[row][column];
+  const data: number[][] = [];
+  for (let y = 0; y < rows; y++) {
+    data[y] = [];
+    for (let x = 0; x < image.width; x++) {
+      // Cell centre in image pixels
+      const v = (y + (isOffsetColumn(x) ? 1 : 0.5)) / HEX_COLUMN_PITCH;
+      data[y][x] = Math.round(interpolateBilinear(image.width, image.height, at, x + 0.5, v));
+    }
+  }
+  return { data, width: image.width, height: rows };
+}
+
+// Footprint of a lattice of columns x rows cells, in mm
+export function hexGridSize(columns: number, rows: number, cellSize: number): { width: number; height: number } {
+  return {
+    width: (1.5 * columns + 0.5) * HEX_SIDE * cellSize,
+    height: (rows + 0.5) * cellSize
+  };
+}
+
+// Centre of a cell, with the lattice's bottom left corner at (origin, origin)
+// and the image's rows counted down from the top
+export function hexCellCenter(
+  column: number,
+  row: number,
+  rows: number,
+  cellSize: number,
+  origin: number
+): [number, number] {
+  return [
+    origin + (1 + 1.5 * column) * HEX_SIDE * cellSize,
+    origin + (rows - 1 - row + (isOffsetColumn(column) ? 0.5 : 1)) * cellSize
+  ];
+}
+
+// Column, and row counted up from the bottom, of the cell centred at (x, y)
+export function hexCellAt(x: number, y: number, cellSize: number, origin: number): { column: number; row: number } {
+  // Floor rather than round, which gives -0 just below the first cell
+  const column = Math.floor((x - origin) / (HEX_SIDE * cellSize) / 1.5 - 2 / 3 + 0.5);
+  const row = Math.floor((y - origin) / cellSize - (isOffsetColumn(column) ? 0.5 : 1) + 0.5);
+  return { column, row };
+}
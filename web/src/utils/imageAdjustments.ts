@@ -0,0 +1,256 @@
+import type { ProcessedImageData } from './imageProcessing';
+import { computeHistogram } from './quantization';
+
+export type EqualizationMode = 'none' | 'global' | 'clahe';
+
+export interface ImageAdjustments {
+  // -100 to 100
+  brightness: number;
+  // -100 to 100
+  contrast: number;
+  // Values above 1 brighten midtones, below 1 darken them
+  gamma: number;
+  // Input values at or below blackPoint become black, at or above whitePoint become white
+  blackPoint: number;
+  whitePoint: number;
+  // Stretch the darkest and brightest 0.5% of pixels to black and white
+  autoLevels: boolean;
+  equalization: EqualizationMode;
+  // CLAHE only: tiles per side and the histogram clip limit as a multiple of the mean bin count
+  claheTiles: number;
+  claheClipLimit: number;
+  invert: boolean;
+}
+
+export const defaultAdjustments: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  blackPoint: 0,
+  whitePoint: 255,
+  autoLevels: false,
+  equalization: 'none',
+  claheTiles: 8,
+  claheClipLimit: 2,
+  invert: false,
+};
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 255);
+}
+
+function mapPixels(
+  imageData: ProcessedImageData,
+  fn: (value: number) => number
+): ProcessedImageData {
+  return {
+    data: imageData.data.map(row => row.map(value => clamp(fn(value)))),
+    width: imageData.width,
+    height: imageData.height
+  };
+}
+
+export function adjustBrightness(imageData: ProcessedImageData, amount: number): ProcessedImageData {
+  const offset = amount * 2.55;
+  return mapPixels(imageData, value => value + offset);
+}
+
+export function adjustContrast(imageData: ProcessedImageData, amount: number): ProcessedImageData {
+  const c = Math.min(Math.max(amount, -100), 100) * 2.55;
+  const factor = (259 * (c + 255)) / (255 * (259 - c));
+  return mapPixels(imageData, value => factor * (value - 128) + 128);
+}
+
+export function applyGamma(imageData: ProcessedImageData, gamma: number): ProcessedImageData {
+  const exponent = 1 / Math.max(gamma, 0.01);
+  return mapPixels(imageData, value => 255 * Math.pow(clamp(value) / 255, exponent));
+}
+
+export function applyLevels(
+  imageData: ProcessedImageData,
+  blackPoint: number,
+  whitePoint: number
+): ProcessedImageData {
+  const range = Math.max(whitePoint - blackPoint, 1);
+  return mapPixels(imageData, value => (value - blackPoint) / range * 255);
+}
+
+export function autoLevels(imageData: ProcessedImageData, clipPercent = 0.5): ProcessedImageData {
+  const histogram = computeHistogram(imageData);
+  const total = imageData.width * imageData.height;
+  const clip = total * clipPercent / 100;
+
+  let low = 0;
+  for (let seen = 0; low < 255; low++) {
+    seen += histogram[low];
+    if (seen > clip) {
+      break;
+    }
+  }
+
+  let high = 255;
+  for (let seen = 0; high > 0; high--) {
+    seen += histogram[high];
+    if (seen > clip) {
+      break;
+    }
+  }
+
+  if (high <= low) {
+    return mapPixels(imageData, value => value);
+  }
+
+  return applyLevels(imageData, low, high);
+}
+
+// Lookup table mapping each gray value through the normalized cumulative histogram
+function equalizationTable(histogram: number[]): number[] {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  const table = new Array<number>(256).fill(0);
+
+  let cdfMin = 0;
+  for (let value = 0; value < 256; value++) {
+    if (histogram[value] > 0) {
+      cdfMin = histogram[value];
+      break;
+    }
+  }
+
+  let cdf = 0;
+  for (let value = 0; value < 256; value++) {
+    cdf += histogram[value];
+    table[value] = total === cdfMin
+      ? value
+      : Math.round((cdf - cdfMin) / (total - cdfMin) * 255);
+  }
+
+  return table;
+}
+
+export function equalizeHistogram(imageData: ProcessedImageData): ProcessedImageData {
+  const table = equalizationTable(computeHistogram(imageData));
+  return mapPixels(imageData, value => table[Math.round(clamp(value))]);
+}
+
+// Contrast limited adaptive histogram equalization. The image is split into
+// tiles x tiles regions, each region's histogram is clipped and equalized on
+// its own, and pixels blend bilinearly between the four nearest tile tables.
+export function clahe(
+  imageData: ProcessedImageData,
+  tiles = 8,
+  clipLimit = 2
+): ProcessedImageData {
+  const { data, width, height } = imageData;
+  const tilesX = Math.max(1, Math.min(tiles, width));
+  const tilesY = Math.max(1, Math.min(tiles, height));
+  const tileWidth = width / tilesX;
+  const tileHeight = height / tilesY;
+
+  const tables: number[][][] = [];
+  for (let ty = 0; ty < tilesY; ty++) {
+    tables[ty] = [];
+    for (let tx = 0; tx < tilesX; tx++) {
+      const histogram = new Array<number>(256).fill(0);
+      const x0 = Math.floor(tx * tileWidth);
+      const x1 = Math.floor((tx + 1) * tileWidth);
+      const y0 = Math.floor(ty * tileHeight);
+      const y1 = Math.floor((ty + 1) * tileHeight);
+
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          histogram[Math.round(clamp(data[y][x]))]++;
+        }
+      }
+
+      // Clip each bin and spread the excess evenly over the whole histogram
+      const pixels = (x1 - x0) * (y1 - y0);
+      const limit = Math.max(1, clipLimit * pixels / 256);
+      let excess = 0;
+      for (let value = 0; value < 256; value++) {
+        if (histogram[value] > limit) {
+          excess += histogram[value] - limit;
+          histogram[value] = limit;
+        }
+      }
+      const share = excess / 256;
+      for (let value = 0; value < 256; value++) {
+        histogram[value] += share;
+      }
+
+      // Unlike global equalization, keep the full 0-255 range anchored at 0
+      let cdf = 0;
+      tables[ty][tx] = histogram.map(count => {
+        cdf += count;
+        return cdf / pixels * 255;
+      });
+    }
+  }
+
+  const result: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    result[y] = [];
+    // Position relative to tile centres
+    const gy = Math.min(Math.max((y + 0.5) / tileHeight - 0.5, 0), tilesY - 1);
+    const ty0 = Math.floor(gy);
+    const ty1 = Math.min(ty0 + 1, tilesY - 1);
+    const fy = gy - ty0;
+
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(Math.max((x + 0.5) / tileWidth - 0.5, 0), tilesX - 1);
+      const tx0 = Math.floor(gx);
+      const tx1 = Math.min(tx0 + 1, tilesX - 1);
+      const fx = gx - tx0;
+
+      const value = Math.round(clamp(data[y][x]));
+      const top = tables[ty0][tx0][value] * (1 - fx) + tables[ty0][tx1][value] * fx;
+      const bottom = tables[ty1][tx0][value] * (1 - fx) + tables[ty1][tx1][value] * fx;
+      result[y][x] = clamp(top * (1 - fy) + bottom * fy);
+    }
+  }
+
+  return {
+    data: result,
+    width,
+    height
+  };
+}
+
+export function invertImage(imageData: ProcessedImageData): ProcessedImageData {
+  return mapPixels(imageData, value => 255 - value);
+}
+
+// Run every enabled adjustment in a fixed order: levels, brightness and
+// contrast, gamma, equalization, then invert. Adjustments left at their
+// defaults are skipped so an unadjusted image passes through unchanged.
+export function applyAdjustments(
+  imageData: ProcessedImageData,
+  adjustments: ImageAdjustments
+): ProcessedImageData {
+  let result = imageData;
+
+  if (adjustments.autoLevels) {
+    result = autoLevels(result);
+  }
+  if (adjustments.blackPoint !== 0 || adjustments.whitePoint !== 255) {
+    result = applyLevels(result, adjustments.blackPoint, adjustments.whitePoint);
+  }
+  if (adjustments.brightness !== 0) {
+    result = adjustBrightness(result, adjustments.brightness);
+  }
+  if (adjustments.contrast !== 0) {
+    result = adjustContrast(result, adjustments.contrast);
+  }
+  if (adjustments.gamma !== 1) {
+    result = applyGamma(result, adjustments.gamma);
+  }
+  if (adjustments.equalization === 'global') {
+    result = equalizeHistogram(result);
+  } else if (adjustments.equalization === 'clahe') {
+    result = clahe(result, adjustments.claheTiles, adjustments.claheClipLimit);
+  }
+  if (adjustments.invert) {
+    result = invertImage(result);
+  }
+
+  return result;
+}
@@ -0,0 +1,160 @@
+// Crop, rotation and flip applied to an uploaded image before it is resized
+// and converted to grayscale. The crop rectangle is stored in normalized
+// (0-1) coordinates of the image after rotation and flipping, so it stays
+// valid whatever resolution the source image has.
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Clockwise 90 degree steps, 0-3
+  quarterTurns: number;
+  // Extra clockwise rotation in degrees
+  angle: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const defaultCrop: ImageCrop = {
+  x: 0,
+  y: 0,
+  width: 1,
+  height: 1,
+  quarterTurns: 0,
+  angle: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+};
+
+// Common print-friendly aspect ratios (width / height). 0 means unconstrained.
+export const aspectRatioOptions: { label: string; value: number }[] = [
+  { label: 'Free', value: 0 },
+  { label: '1:1', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '2:3', value: 2 / 3 },
+  { label: '16:9', value: 16 / 9 },
+];
+
+export function rotationDegrees(crop: ImageCrop): number {
+  return crop.quarterTurns * 90 + crop.angle;
+}
+
+export function isIdentityCrop(crop: ImageCrop): boolean {
+  return crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1 &&
+    crop.quarterTurns % 4 === 0 && crop.angle === 0 &&
+    !crop.flipHorizontal && !crop.flipVertical;
+}
+
+// Size of the bounding box of the source image after rotation
+export function transformedSize(
+  width: number,
+  height: number,
+  crop: ImageCrop
+): { width: number; height: number } {
+  const radians = rotationDegrees(crop) * Math.PI / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+
+  // Snap away floating point noise so 90 degree turns swap sides exactly
+  const snap = (n: number) => Math.round(n * 1e6) / 1e6;
+  return {
+    width: snap(width * cos + height * sin),
+    height: snap(width * sin + height * cos)
+  };
+}
+
+function clampCrop(crop: ImageCrop): ImageCrop {
+  const width = Math.min(Math.max(crop.width, 0.01), 1);
+  const height = Math.min(Math.max(crop.height, 0.01), 1);
+  return {
+    ...crop,
+    width,
+    height,
+    x: Math.min(Math.max(crop.x, 0), 1 - width),
+    y: Math.min(Math.max(crop.y, 0), 1 - height)
+  };
+}
+
+// Shrink the crop around its centre until it has the given pixel aspect
+// ratio (width / height). An aspect ratio of 0 leaves the crop untouched.
+export function fitCropToAspect(
+  crop: ImageCrop,
+  sourceWidth: number,
+  sourceHeight: number,
+  aspectRatio: number
+): ImageCrop {
+  if (aspectRatio <= 0) {
+    return clampCrop(crop);
+  }
+
+  const size = transformedSize(sourceWidth, sourceHeight, crop);
+  const pixelWidth = crop.width * size.width;
+  const pixelHeight = crop.height * size.height;
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+
+  let width = crop.width;
+  let height = crop.height;
+  if (pixelWidth / pixelHeight > aspectRatio) {
+    width = pixelHeight * aspectRatio / size.width;
+  } else {
+    height = pixelWidth / aspectRatio / size.height;
+  }
+
+  return clampCrop({
+    ...crop,
+    width,
+    height,
+    x: centerX - width / 2,
+    y: centerY - height / 2
+  });
+}
+
+// The crop rectangle in pixels of the rotated image
+export function cropPixelRect(
+  sourceWidth: number,
+  sourceHeight: number,
+  crop: ImageCrop
+): PixelRect {
+  const size = transformedSize(sourceWidth, sourceHeight, crop);
+  return {
+    x: crop.x * size.width,
+    y: crop.y * size.height,
+    width: crop.width * size.width,
+    height: crop.height * size.height
+  };
+}
+
+// Draw the cropped, rotated and flipped source onto a targetWidth x
+// targetHeight canvas. Areas uncovered by a fine rotation are painted white
+// so they produce the shortest walls rather than black spikes.
+export function drawCroppedImage(
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  crop: ImageCrop,
+  targetWidth: number,
+  targetHeight: number
+): void {
+  const size = transformedSize(img.width, img.height, crop);
+  const rect = cropPixelRect(img.width, img.height, crop);
+
+  ctx.save();
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, targetWidth, targetHeight);
+
+  ctx.scale(targetWidth / rect.width, targetHeight / rect.height);
+  ctx.translate(-rect.x + size.width / 2, -rect.y + size.height / 2);
+  ctx.rotate(rotationDegrees(crop) * Math.PI / 180);
+  ctx.scale(crop.flipHorizontal ? -1 : 1, crop.flipVertical ? -1 : 1);
+  ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  ctx.restore();
+}
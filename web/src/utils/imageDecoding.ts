@@ -0,0 +1,104 @@
+import { decodePNG, isPNG } from './pngDecoder';
+import { decodeJPEG, isJPEG } from './jpegDecoder';
+import { cropPixelRect, isIdentityCrop } from './imageCrop';
+import { orientPlane, resamplePlane } from './resampling';
+import type { ImageCrop, PixelRect } from './imageCrop';
+import type { GrayPlane, ResampleFilter } from './resampling';
+import type { ProcessedImageData } from './imageProcessing';
+
+// Decoded pixels laid out like canvas ImageData: 8-bit RGBA, row by row
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Turns an image file into pixels. Which one to use depends on where the
+// code runs: browsers and their workers have createImageBitmap, Node doesn't.
+export interface ImageDecoder {
+  decode(file: Blob): Promise<DecodedImage>;
+}
+
+// Decode PNG or JPEG file contents without any DOM APIs
+export function decodeImageBytes(bytes: Uint8Array): DecodedImage {
+  if (isPNG(bytes)) {
+    return decodePNG(bytes);
+  }
+  if (isJPEG(bytes)) {
+    return decodeJPEG(bytes);
+  }
+  throw new Error('Unsupported image format: expected PNG or JPEG');
+}
+
+// Pure TypeScript decoding, for Node and anywhere without canvas support
+export const pureImageDecoder: ImageDecoder = {
+  async decode(file) {
+    return decodeImageBytes(new Uint8Array(await file.arrayBuffer()));
+  }
+};
+
+// The browser's own decoder via createImageBitmap and OffscreenCanvas, which
+// both work in workers and handle every format the browser does
+export const bitmapImageDecoder: ImageDecoder = {
+  async decode(file) {
+    const bitmap = await createImageBitmap(file);
+    try {
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('OffscreenCanvas 2D context unavailable');
+      }
+      ctx.drawImage(bitmap, 0, 0);
+      const { data } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+      return { width: bitmap.width, height: bitmap.height, data };
+    } finally {
+      bitmap.close();
+    }
+  }
+};
+
+export function defaultImageDecoder(): ImageDecoder {
+  return typeof createImageBitmap === 'function' && typeof OffscreenCanvas === 'function'
+    ? bitmapImageDecoder
+    : pureImageDecoder;
+}
+
+// Luminance of every pixel, with transparency composited onto white
+function toGrayPlane(image: DecodedImage): GrayPlane {
+  const { width, height, data: pixels } = image;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const alpha = pixels[i * 4 + 3] / 255;
+    const luma = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+    data[i] = luma * alpha + 255 * (1 - alpha);
+  }
+  return { width, height, data };
+}
+
+// Crop the decoded image, resize it to targetWidth keeping the aspect ratio,
+// and convert it to gray levels
+export function decodedToGrayscale(
+  image: DecodedImage,
+  targetWidth: number,
+  crop?: ImageCrop,
+  filter: ResampleFilter = 'area'
+): ProcessedImageData {
+  let plane = toGrayPlane(image);
+  let rect: PixelRect = { x: 0, y: 0, width: image.width, height: image.height };
+  if (crop !== undefined && !isIdentityCrop(crop)) {
+    plane = orientPlane(plane, crop);
+    rect = cropPixelRect(image.width, image.height, crop);
+  }
+
+  const targetHeight = Math.max(1, Math.round(targetWidth * rect.height / rect.width));
+  const resized = resamplePlane(plane, rect, targetWidth, targetHeight, filter);
+
+  const data: number[][] = [];
+  for (let y = 0; y < targetHeight; y++) {
+    data[y] = [];
+    for (let x = 0; x < targetWidth; x++) {
+      data[y][x] = Math.min(255, Math.max(0, Math.round(resized.data[y * targetWidth + x])));
+    }
+  }
+  return { data, width: targetWidth, height: targetHeight };
+}
@@ -1,9 +1,35 @@
+import { applyDither } from './dithering';
+import { computeLevels } from './quantization';
+import { applyAdjustments } from './imageAdjustments';
+import { fitCropToAspect } from './imageCrop';
+import { decodedToGrayscale, defaultImageDecoder } from './imageDecoding';
+import type { DitherOptions } from './dithering';
+import type { QuantizerAlgorithm } from './quantization';
+import type { ImageAdjustments } from './imageAdjustments';
+import type { ImageCrop } from './imageCrop';
+import type { ImageDecoder } from './imageDecoding';
+import type { ResampleFilter } from './resampling';
+
 export interface ProcessedImageData {
   data: number[][];
   width: number;
   height: number;
+  // Gray levels the data was quantized to, darkest first. Set by ditherImage.
+  levels?: number[];
+}
+
+export interface ImageProcessingOptions extends DitherOptions {
+  quantizer?: QuantizerAlgorithm;
+  // Tone adjustments applied after grayscale conversion, before dithering
+  adjustments?: ImageAdjustments;
+  // Crop applied before grayscale conversion, forced to aspectRatio if non-zero
+  crop?: ImageCrop;
+  aspectRatio?: number;
+  // How the image is shrunk to the model grid
+  resampleFilter?: ResampleFilter;
 }
 
+// Load a file as an <img> for on-screen previews such as the crop editor
 export function loadImageFromFile(file: File): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image();
@@ -13,93 +39,15 @@ export function loadImageFromFile(file: File): Promise<HTMLImageElement> {
   });
 }
 
-export function resizeAndGrayscale(
-  img: HTMLImageElement, 
-  targetWidth: number
-): ProcessedImageData {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
-  
-  // Calculate height maintaining aspect ratio
-  const aspectRatio = img.height / img.width;
-  const targetHeight = Math.round(targetWidth * aspectRatio);
-  
-  canvas.width = targetWidth;
-  canvas.height = targetHeight;
-  
-  // Draw and resize image
-  ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
-  
-  // Get image data
-  const imageData = ctx.getImageData(0, 0, targetWidth, targetHeight);
-  const pixels = imageData.data;
-  
-  // Convert to grayscale and create 2D array
-  const data: number[][] = [];
-  for (let y = 0; y < targetHeight; y++) {
-    data[y] = [];
-    for (let x = 0; x < targetWidth; x++) {
-      const idx = (y * targetWidth + x) * 4;
-      const r = pixels[idx];
-      const g = pixels[idx + 1];
-      const b = pixels[idx + 2];
-      
-      // Convert to grayscale using luminance formula
-      const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-      data[y][x] = gray;
-    }
-  }
-  
-  // Clean up
-  URL.revokeObjectURL(img.src);
-  
-  return {
-    data,
-    width: targetWidth,
-    height: targetHeight
-  };
-}
-
 export function ditherImage(
   imageData: ProcessedImageData, 
-  numberOfColors: number
+  numberOfColors: number,
+  options: ImageProcessingOptions = {}
 ): ProcessedImageData {
-  const { data, width, height } = imageData;
-  const dithered: number[][] = data.map(row => [...row]);
-  
-  // Calculate color levels
-  const levels = numberOfColors - 1;
-  const step = 255 / levels;
-  
-  // Floyd-Steinberg dithering
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const oldPixel = dithered[y][x];
-      const newPixel = Math.round(oldPixel / step) * step;
-      dithered[y][x] = newPixel;
-      
-      const error = oldPixel - newPixel;
-      
-      // Distribute error to neighboring pixels
-      if (x + 1 < width) {
-        dithered[y][x + 1] += error * 7 / 16;
-      }
-      if (y + 1 < height) {
-        if (x - 1 >= 0) {
-          dithered[y + 1][x - 1] += error * 3 / 16;
-        }
-        dithered[y + 1][x] += error * 5 / 16;
-        if (x + 1 < width) {
-          dithered[y + 1][x + 1] += error * 1 / 16;
-        }
-      }
-    }
-  }
-  
+  const levels = computeLevels(imageData, numberOfColors, options.quantizer);
   return {
-    data: dithered,
-    width,
-    height
+    ...applyDither(imageData, levels, options),
+    levels
   };
 }
 
@@ -107,13 +55,57 @@ export function roundToLayerHeight(height: number, layerHeight: number): number
   return Math.round(height / layerHeight) * layerHeight;
 }
 
+// Intermediate results of the pipeline, kept for the 2D preview panels
+export interface ProcessedImageStages {
+  grayscale: ProcessedImageData;
+  adjusted: ProcessedImageData;
+  dithered: ProcessedImageData;
+}
+
+// Decode an image file and reduce it to a grayscale grid, cropped first if a
+// crop is given. Needs no DOM, so it runs in the pipeline worker and in Node.
+export async function loadGrayscaleImage(
+  file: Blob,
+  widthInPixels: number,
+  options: Pick<ImageProcessingOptions, 'crop' | 'aspectRatio' | 'resampleFilter'> = {},
+  decoder: ImageDecoder = defaultImageDecoder()
+): Promise<ProcessedImageData> {
+  const image = await decoder.decode(file);
+  const crop = options.crop && options.aspectRatio
+    ? fitCropToAspect(options.crop, image.width, image.height, options.aspectRatio)
+    : options.crop;
+  return decodedToGrayscale(image, widthInPixels, crop, options.resampleFilter);
+}
+
+// Adjust and dither a grayscale image. Pure computation, safe to run in a worker.
+export function processGrayscaleStages(
+  grayscale: ProcessedImageData,
+  numberOfColors: number,
+  options: ImageProcessingOptions = {}
+): ProcessedImageStages {
+  const adjusted = options.adjustments
+    ? applyAdjustments(grayscale, options.adjustments)
+    : grayscale;
+  const dithered = ditherImage(adjusted, numberOfColors, options);
+  return { grayscale, adjusted, dithered };
+}
+
+export async function processImageStages(
+  file: Blob,
+  widthInPixels: number,
+  numberOfColors: number,
+  options: ImageProcessingOptions = {}
+): Promise<ProcessedImageStages> {
+  const grayscale = await loadGrayscaleImage(file, widthInPixels, options);
+  return processGrayscaleStages(grayscale, numberOfColors, options);
+}
+
 export async function processImage(
-  file: File,
+  file: Blob,
   widthInPixels: number,
-  numberOfColors: number
+  numberOfColors: number,
+  options: ImageProcessingOptions = {}
 ): Promise<ProcessedImageData> {
-  const img = await loadImageFromFile(file);
-  const resized = resizeAndGrayscale(img, widthInPixels);
-  const dithered = ditherImage(resized, numberOfColors);
-  return dithered;
+  const stages = await processImageStages(file, widthInPixels, numberOfColors, options);
+  return stages.dithered;
 }
\ No newline at end of file
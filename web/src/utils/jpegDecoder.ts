@@ -0,0 +1,625 @@
+import type { DecodedImage } from './imageDecoding';
+
+// Zig-zag scan position -> natural (row-major) coefficient index
+const ZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10,
+  17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34,
+  27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36,
+  29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46,
+  53, 60, 61, 54, 47, 55, 62, 63
+]);
+
+// cos((2x + 1) u pi / 16) scaled by the IDCT's C(u)/2 factor
+const IDCT_TABLE = (() => {
+  const table = new Float64Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      const scale = u === 0 ? Math.SQRT1_2 : 1;
+      table[x * 8 + u] = scale * Math.cos((2 * x + 1) * u * Math.PI / 16) / 2;
+    }
+  }
+  return table;
+})();
+
+interface HuffmanTable {
+  // Largest code of each length (-1 when there are none), the first code of
+  // each length, and where that length's symbols start in values
+  maxCode: Int32Array;
+  minCode: Int32Array;
+  valuePointer: Int32Array;
+  values: Uint8Array;
+}
+
+interface Component {
+  id: number;
+  h: number;
+  v: number;
+  quantizationTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // Storage is padded out to whole MCUs
+  blocksPerLineForMcu: number;
+  // Coefficients of every block, 64 per block in natural order
+  coefficients: Int32Array;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  predictor: number;
+}
+
+interface Frame {
+  width: number;
+  height: number;
+  progressive: boolean;
+  components: Component[];
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+}
+
+export function isJPEG(bytes: Uint8Array): boolean {
+  return bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1);
+  const minCode = new Int32Array(17);
+  const valuePointer = new Int32Array(17);
+  let code = 0;
+  let pointer = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    valuePointer[length] = pointer;
+    minCode[length] = code;
+    if (count > 0) {
+      code += count;
+      pointer += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  return { maxCode, minCode, valuePointer, values };
+}
+
+// Reads the entropy-coded data of one scan. Stuffed 0xFF00 bytes become 0xFF;
+// running into a marker feeds zero bits, as libjpeg does.
+class BitReader {
+  private data: Uint8Array;
+  private position: number;
+  private end: number;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(data: Uint8Array, position: number, end: number) {
+    this.data = data;
+    this.position = position;
+    this.end = end;
+  }
+
+  private readByte(): number {
+    if (this.position >= this.end) return 0;
+    const byte = this.data[this.position];
+    if (byte === 0xff) {
+      const next = this.data[this.position + 1];
+      if (next === 0) {
+        this.position += 2;
+        return 0xff;
+      }
+      // A marker: leave it where it is
+      return 0;
+    }
+    this.position++;
+    return byte;
+  }
+
+  bit(): number {
+    if (this.bitCount === 0) {
+      this.bitBuffer = this.readByte();
+      this.bitCount = 8;
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | this.bit();
+    }
+    return value;
+  }
+
+  // Read a magnitude category's extra bits and sign-extend them
+  extend(size: number): number {
+    if (size === 0) return 0;
+    const value = this.bits(size);
+    return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.bit();
+    for (let length = 1; length <= 16; length++) {
+      if (code <= table.maxCode[length]) {
+        return table.values[table.valuePointer[length] + code - table.minCode[length]];
+      }
+      code = (code << 1) | this.bit();
+    }
+    throw new Error('Invalid JPEG Huffman code');
+  }
+
+  // Skip a restart marker, dropping any partial byte before it
+  restart(): void {
+    this.bitCount = 0;
+    while (this.position < this.end - 1) {
+      if (this.data[this.position] === 0xff && this.data[this.position + 1] >= 0xd0 && this.data[this.position + 1] <= 0xd7) {
+        this.position += 2;
+        return;
+      }
+      this.position++;
+    }
+  }
+}
+
+// Find the marker that ends a scan's entropy-coded data
+function scanEnd(data: Uint8Array, position: number): number {
+  while (position < data.length - 1) {
+    if (data[position] === 0xff) {
+      const next = data[position + 1];
+      if (next !== 0 && (next < 0xd0 || next > 0xd7)) {
+        return position;
+      }
+    }
+    position++;
+  }
+  return data.length;
+}
+
+interface ScanParameters {
+  spectralStart: number;
+  spectralEnd: number;
+  approximationHigh: number;
+  approximationLow: number;
+}
+
+function decodeScan(
+  data: Uint8Array,
+  start: number,
+  end: number,
+  frame: Frame,
+  components: Component[],
+  resetInterval: number,
+  scan: ScanParameters
+): void {
+  const reader = new BitReader(data, start, end);
+  const { spectralStart, spectralEnd, approximationHigh, approximationLow } = scan;
+  let eobRun = 0;
+
+  const decodeBaseline = (component: Component, offset: number) => {
+    const block = component.coefficients;
+    const t = reader.decode(component.dcTable!);
+    component.predictor += reader.extend(t);
+    block[offset] = component.predictor;
+    for (let k = 1; k < 64;) {
+      const rs = reader.decode(component.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      block[offset + ZIGZAG[k]] = reader.extend(s);
+      k++;
+    }
+  };
+
+  const decodeDCFirst = (component: Component, offset: number) => {
+    const t = reader.decode(component.dcTable!);
+    component.predictor += reader.extend(t);
+    component.coefficients[offset] = component.predictor * (1 << approximationLow);
+  };
+
+  const decodeDCRefine = (component: Component, offset: number) => {
+    if (reader.bit()) {
+      component.coefficients[offset] |= 1 << approximationLow;
+    }
+  };
+
+  const decodeACFirst = (component: Component, offset: number) => {
+    if (eobRun > 0) {
+      eobRun--;
+      return;
+    }
+    const block = component.coefficients;
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const rs = reader.decode(component.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobRun = (1 << r) - 1 + reader.bits(r);
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      block[offset + ZIGZAG[k]] = reader.extend(s) * (1 << approximationLow);
+      k++;
+    }
+  };
+
+  // Successive approximation refinement of AC coefficients, after libjpeg's
+  // decode_mcu_AC_refine
+  const decodeACRefine = (component: Component, offset: number) => {
+    const block = component.coefficients;
+    const p1 = 1 << approximationLow;
+    const m1 = -1 << approximationLow;
+    const refine = (index: number) => {
+      if (reader.bit() && (block[index] & p1) === 0) {
+        block[index] += block[index] >= 0 ? p1 : m1;
+      }
+    };
+
+    let k = spectralStart;
+    if (eobRun === 0) {
+      for (; k <= spectralEnd; k++) {
+        const rs = reader.decode(component.acTable!);
+        let r = rs >> 4;
+        let s = rs & 15;
+        if (s) {
+          s = reader.bit() ? p1 : m1;
+        } else if (r !== 15) {
+          eobRun = (1 << r) + (r ? reader.bits(r) : 0);
+          break;
+        }
+        // Skip r zero coefficients, refining the non-zero ones passed on the way
+        while (k <= spectralEnd) {
+          const index = offset + ZIGZAG[k];
+          if (block[index] !== 0) {
+            refine(index);
+          } else if (--r < 0) {
+            break;
+          }
+          k++;
+        }
+        if (s && k <= spectralEnd) {
+          block[offset + ZIGZAG[k]] = s;
+        }
+      }
+    }
+    if (eobRun > 0) {
+      for (; k <= spectralEnd; k++) {
+        const index = offset + ZIGZAG[k];
+        if (block[index] !== 0) {
+          refine(index);
+        }
+      }
+      eobRun--;
+    }
+  };
+
+  let decodeBlock: (component: Component, offset: number) => void;
+  if (!frame.progressive) {
+    decodeBlock = decodeBaseline;
+  } else if (spectralStart === 0) {
+    decodeBlock = approximationHigh === 0 ? decodeDCFirst : decodeDCRefine;
+  } else {
+    decodeBlock = approximationHigh === 0 ? decodeACFirst : decodeACRefine;
+  }
+
+  const blockOffset = (component: Component, row: number, col: number) =>
+    (row * component.blocksPerLineForMcu + col) * 64;
+
+  // A scan of one component covers just its own blocks; interleaved scans go
+  // MCU by MCU
+  const single = components.length === 1;
+  const mcuCount = single
+    ? components[0].blocksPerLine * components[0].blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+
+  for (let mcu = 0; mcu < mcuCount; mcu++) {
+    if (resetInterval > 0 && mcu > 0 && mcu % resetInterval === 0) {
+      reader.restart();
+      components.forEach(component => (component.predictor = 0));
+      eobRun = 0;
+    }
+
+    if (single) {
+      const component = components[0];
+      const row = Math.floor(mcu / component.blocksPerLine);
+      const col = mcu % component.blocksPerLine;
+      decodeBlock(component, blockOffset(component, row, col));
+    } else {
+      const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+      const mcuCol = mcu % frame.mcusPerLine;
+      for (const component of components) {
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            decodeBlock(component, blockOffset(component, mcuRow * component.v + v, mcuCol * component.h + h));
+          }
+        }
+      }
+    }
+  }
+}
+
+// Dequantize and inverse-DCT every block of a component into 8-bit samples
+function componentSamples(component: Component, quantization: Int32Array): Uint8Array {
+  const lineWidth = component.blocksPerLineForMcu * 8;
+  const rows = component.coefficients.length / 64 / component.blocksPerLineForMcu;
+  const samples = new Uint8Array(lineWidth * rows * 8);
+  const dequantized = new Float64Array(64);
+  const temp = new Float64Array(64);
+
+  for (let blockRow = 0; blockRow < rows; blockRow++) {
+    for (let blockCol = 0; blockCol < component.blocksPerLineForMcu; blockCol++) {
+      const offset = (blockRow * component.blocksPerLineForMcu + blockCol) * 64;
+      for (let i = 0; i < 64; i++) {
+        dequantized[i] = component.coefficients[offset + i] * quantization[i];
+      }
+
+      // Rows, then columns
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let u = 0; u < 8; u++) {
+            sum += IDCT_TABLE[x * 8 + u] * dequantized[y * 8 + u];
+          }
+          temp[y * 8 + x] = sum;
+        }
+      }
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          let sum = 0;
+          for (let v = 0; v < 8; v++) {
+            sum += IDCT_TABLE[y * 8 + v] * temp[v * 8 + x];
+          }
+          const value = Math.round(sum + 128);
+          samples[(blockRow * 8 + y) * lineWidth + blockCol * 8 + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+        }
+      }
+    }
+  }
+  return samples;
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+// Decode a baseline or progressive JPEG to 8-bit RGBA. Gray, YCbCr, and
+// Adobe RGB/CMYK/YCCK files are supported; chroma is upsampled by
+// replication.
+export function decodeJPEG(bytes: Uint8Array): DecodedImage {
+  if (!isJPEG(bytes)) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const quantizationTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let resetInterval = 0;
+  let adobeTransform: number | null = null;
+
+  const readUint16 = (position: number) => (bytes[position] << 8) | bytes[position + 1];
+
+  let position = 2;
+  while (position < bytes.length) {
+    if (bytes[position] !== 0xff) {
+      position++;
+      continue;
+    }
+    const marker = bytes[position + 1];
+    position += 2;
+    if (marker === 0xff || marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7)) {
+      // Fill bytes and stray restart markers have no length
+      if (marker === 0xff) position--;
+      continue;
+    }
+    if (marker === 0xd9) {
+      break;
+    }
+
+    const length = readUint16(position);
+    const segment = position + 2;
+    const segmentEnd = position + length;
+
+    switch (marker) {
+      case 0xdb: {
+        // Quantization tables, stored in zig-zag order
+        let p = segment;
+        while (p < segmentEnd) {
+          const precision = bytes[p] >> 4;
+          const id = bytes[p] & 15;
+          p++;
+          const table = new Int32Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = precision ? readUint16(p + k * 2) : bytes[p + k];
+          }
+          p += precision ? 128 : 64;
+          quantizationTables[id] = table;
+        }
+        break;
+      }
+      case 0xc4: {
+        let p = segment;
+        while (p < segmentEnd) {
+          const tableClass = bytes[p] >> 4;
+          const id = bytes[p] & 15;
+          const counts = bytes.subarray(p + 1, p + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const table = buildHuffmanTable(counts, bytes.subarray(p + 17, p + 17 + total));
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+          p += 17 + total;
+        }
+        break;
+      }
+      case 0xdd:
+        resetInterval = readUint16(segment);
+        break;
+      case 0xee:
+        // Adobe APP14 says whether three or four components are transformed
+        if (String.fromCharCode(...bytes.subarray(segment, segment + 5)) === 'Adobe') {
+          adobeTransform = bytes[segment + 11];
+        }
+        break;
+      case 0xc0:
+      case 0xc1:
+      case 0xc2: {
+        if (bytes[segment] !== 8) {
+          throw new Error(`Unsupported JPEG precision ${bytes[segment]}`);
+        }
+        const height = readUint16(segment + 1);
+        const width = readUint16(segment + 3);
+        const componentCount = bytes[segment + 5];
+        const specs = Array.from({ length: componentCount }, (_, i) => {
+          const p = segment + 6 + i * 3;
+          return { id: bytes[p], h: bytes[p + 1] >> 4, v: bytes[p + 1] & 15, quantizationTable: bytes[p + 2] };
+        });
+        const maxH = Math.max(...specs.map(spec => spec.h));
+        const maxV = Math.max(...specs.map(spec => spec.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        frame = {
+          width,
+          height,
+          progressive: marker === 0xc2,
+          maxH,
+          maxV,
+          mcusPerLine,
+          mcusPerColumn,
+          components: specs.map(spec => {
+            const blocksPerLineForMcu = mcusPerLine * spec.h;
+            const blocksPerColumnForMcu = mcusPerColumn * spec.v;
+            return {
+              ...spec,
+              blocksPerLine: Math.ceil(Math.ceil(width * spec.h / maxH) / 8),
+              blocksPerColumn: Math.ceil(Math.ceil(height * spec.v / maxV) / 8),
+              blocksPerLineForMcu,
+              coefficients: new Int32Array(blocksPerLineForMcu * blocksPerColumnForMcu * 64),
+              predictor: 0
+            };
+          })
+        };
+        break;
+      }
+      case 0xda: {
+        if (!frame) {
+          throw new Error('JPEG scan before frame header');
+        }
+        const currentFrame = frame;
+        const count = bytes[segment];
+        const components = Array.from({ length: count }, (_, i) => {
+          const id = bytes[segment + 1 + i * 2];
+          const tables = bytes[segment + 2 + i * 2];
+          const component = currentFrame.components.find(candidate => candidate.id === id);
+          if (!component) {
+            throw new Error(`JPEG scan references unknown component ${id}`);
+          }
+          component.dcTable = dcTables[tables >> 4];
+          component.acTable = acTables[tables & 15];
+          component.predictor = 0;
+          return component;
+        });
+        const p = segment + 1 + count * 2;
+        const end = scanEnd(bytes, segmentEnd);
+        decodeScan(bytes, segmentEnd, end, currentFrame, components, resetInterval, {
+          spectralStart: bytes[p],
+          spectralEnd: bytes[p + 1],
+          approximationHigh: bytes[p + 2] >> 4,
+          approximationLow: bytes[p + 2] & 15
+        });
+        position = end;
+        continue;
+      }
+      default:
+        if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          throw new Error('Unsupported JPEG type: only baseline and progressive Huffman JPEGs can be decoded');
+        }
+    }
+    position = segmentEnd;
+  }
+
+  if (!frame) {
+    throw new Error('JPEG has no frame header');
+  }
+
+  const { width, height, maxH, maxV, components } = frame;
+  const planes = components.map(component => {
+    const table = quantizationTables[component.quantizationTable];
+    if (!table) {
+      throw new Error(`JPEG is missing quantization table ${component.quantizationTable}`);
+    }
+    return componentSamples(component, table);
+  });
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  // Without an Adobe marker, three components are YCbCr (JFIF) and four are
+  // plain CMYK; Adobe CMYK is stored inverted
+  const transform = adobeTransform ?? (components.length === 3 ? 1 : 0);
+  const inverted = adobeTransform !== null;
+
+  // Sample index of each output column and row within every plane
+  const columns = components.map(component =>
+    Int32Array.from({ length: width }, (_, x) => Math.floor(x * component.h / maxH)));
+  const rows = components.map(component =>
+    Int32Array.from({ length: height }, (_, y) => Math.floor(y * component.v / maxV) * component.blocksPerLineForMcu * 8));
+  const values = new Float64Array(components.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let i = 0; i < components.length; i++) {
+        values[i] = planes[i][rows[i][y] + columns[i][x]];
+      }
+
+      let r: number;
+      let g: number;
+      let b: number;
+      if (components.length === 1) {
+        r = g = b = values[0];
+      } else {
+        if (transform) {
+          const luma = values[0];
+          const cb = values[1] - 128;
+          const cr = values[2] - 128;
+          r = clampByte(luma + 1.402 * cr);
+          g = clampByte(luma - 0.344136 * cb - 0.714136 * cr);
+          b = clampByte(luma + 1.772 * cb);
+        } else {
+          r = values[0];
+          g = values[1];
+          b = values[2];
+        }
+        if (components.length === 4) {
+          // r, g and b now hold C, M and Y
+          const k = values[3];
+          if (inverted) {
+            r = clampByte(r * k / 255);
+            g = clampByte(g * k / 255);
+            b = clampByte(b * k / 255);
+          } else {
+            r = clampByte((255 - r) * (255 - k) / 255);
+            g = clampByte((255 - g) * (255 - k) / 255);
+            b = clampByte((255 - b) * (255 - k) / 255);
+          }
+        }
+      }
+
+      const out = (y * width + x) * 4;
+      rgba[out] = r;
+      rgba[out + 1] = g;
+      rgba[out + 2] = b;
+      rgba[out + 3] = 255;
+    }
+  }
+
+  return { width, height, data: rgba };
+}
@@ -0,0 +1,78 @@
+import { roundToLayerHeight } from './imageProcessing';
+import { nearestLevel } from './dithering';
+import { wrapWall } from './cylinder';
+import type { ProcessedImageData } from './imageProcessing';
+import type { ShadowCasterGeometry, WallGeometry } from './geometryGenerator';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+// A lithophane is a plate lit from behind: the thicker the plastic, the less
+// light gets through, so each pixel is a column whose thickness runs from
+// bottomThk for white to lithophaneThickness for black, in whole layers. The
+// columns go in the model's base and there are no walls.
+
+export type LithophaneShape = 'flat' | 'curved' | 'cylinder';
+
+export const lithophaneShapeLabels: Record<LithophaneShape, string> = {
+  flat: 'Flat panel',
+  curved: 'Curved panel',
+  cylinder: 'Cylinder (lamp)'
+};
+
+// Thickness of a pixel's column. Values are snapped to the nearest quantized
+// level, as they are for wall heights.
+export function lithophaneThicknessForValue(
+  val: number,
+  levels: number[] | undefined,
+  config: ComputedImageConfig
+): number {
+  const gray = levels && levels.length > 0 ? nearestLevel(val, levels) : val;
+  const darkness = 1 - gray / 255;
+  const range = Math.max(config.lithophaneThickness - config.bottomThk, 0);
+  return roundToLayerHeight(config.bottomThk + darkness * range, config.layerHeight);
+}
+
+// Build a lithophane from one image. Flat panels lie on the build plate with
+// their relief on top. Curved panels bend through lithophaneArc degrees and
+// cylinders through a full turn, standing with the image's rows running up
+// the axis and the relief facing out.
+export function generateLithophaneGeometry(
+  imageData: ProcessedImageData | null,
+  config: ComputedImageConfig
+): ShadowCasterGeometry {
+  const columns: WallGeometry[] = [];
+
+  if (imageData) {
+    for (let y = 0; y < imageData.height; y++) {
+      for (let x = 0; x < imageData.width; x++) {
+        const thickness = lithophaneThicknessForValue(imageData.data[y][x], imageData.levels, config);
+        columns.push({
+          position: [
+            config.border + (x + 0.5) * config.cellSize,
+            config.border + (imageData.height - y - 0.5) * config.cellSize,
+            thickness / 2
+          ],
+          size: [config.cellSize, config.cellSize, thickness]
+        });
+      }
+    }
+  }
+
+  const arc = { flat: 0, curved: config.lithophaneArc, cylinder: 360 }[config.lithophaneShape];
+  // Raised by bottomThk, as walls on a base are, so wrapping puts the plain
+  // side of each column on its facet
+  const base = arc > 0
+    ? columns.map(column => wrapWall(
+      { ...column, position: [column.position[0], column.position[1], column.position[2] + config.bottomThk] },
+      { ...config, widthInPixels: imageData?.width ?? config.widthInPixels },
+      arc
+    ))
+    : columns;
+
+  return {
+    base,
+    leftWalls: [],
+    upWalls: [],
+    rightWalls: [],
+    downWalls: []
+  };
+}
@@ -0,0 +1,409 @@
+import { allWalls, rotateWallOffset } from './geometryGenerator';
+import { columnCount, unwrapWall, wrapPoint } from './cylinder';
+import type { ShadowCasterGeometry, WallGeometry } from './geometryGenerator';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+// Triangle mesh with shared vertices. Triangles wind counterclockwise seen
+// from outside, so every edge is used exactly twice, once in each direction.
+export interface IndexedMesh {
+  positions: Float32Array;
+  indices: Uint32Array;
+}
+
+// Coordinates closer than this are the same; box edges are computed by
+// different expressions and differ by float rounding.
+const SNAP_SCALE = 1e6;
+
+function snap(value: number): number {
+  return Math.round(value * SNAP_SCALE) / SNAP_SCALE;
+}
+
+function sortedUnique(values: Iterable<number>): number[] {
+  return [...new Set(Array.from(values, snap))].sort((a, b) => a - b);
+}
+
+function indexMap(sorted: number[]): Map<number, number> {
+  return new Map(sorted.map((value, index) => [value, index]));
+}
+
+function boxBounds(box: WallGeometry) {
+  return {
+    x0: snap(box.position[0] - box.size[0] / 2),
+    x1: snap(box.position[0] + box.size[0] / 2),
+    y0: snap(box.position[1] - box.size[1] / 2),
+    y1: snap(box.position[1] + box.size[1] / 2),
+    z0: snap(box.position[2] - box.size[2] / 2),
+    z1: snap(box.position[2] + box.size[2] / 2)
+  };
+}
+
+interface ChainVertex {
+  vertex: number;
+  z: number;
+}
+
+export type MeshConfig = Pick<
+  ComputedImageConfig,
+  'mode' | 'layout' | 'shape' | 'lithophaneShape' | 'widthInPixels' | 'cellSize' | 'border' | 'bottomThk'
+>;
+
+// Whether buildManifoldMesh gives a true union, with no internal faces, for
+// a model built with config. The turned walls of hex cells and bent
+// lithophanes don't fit its grid.
+export function canBuildManifoldMesh(config: Pick<MeshConfig, 'mode' | 'layout' | 'lithophaneShape'>): boolean {
+  return config.mode === 'lithophane'
+    ? config.lithophaneShape === 'flat'
+    : config.layout === 'square';
+}
+
+// Build the boolean union of the base and walls as one closed, edge-manifold
+// mesh. Turned walls are only added alongside it; see buildBoxUnionMesh. A
+// square grid wrapped round a cylinder is unioned flat and then wrapped.
+export function buildManifoldMesh(geometry: ShadowCasterGeometry, config: MeshConfig): IndexedMesh {
+  if (config.mode === 'shadowCaster' && config.layout === 'square' && config.shape === 'cylinder') {
+    return buildCylinderMesh(geometry, config);
+  }
+  return buildBoxUnionMesh([...geometry.base, ...allWalls(geometry)]);
+}
+
+// Corners of a box as bits: 1 = +x side, 2 = +y side, 4 = top. Each face is
+// a quad wound counterclockwise seen from outside.
+const BOX_QUADS = [
+  [0, 2, 3, 1],
+  [4, 5, 7, 6],
+  [0, 1, 5, 4],
+  [2, 6, 7, 3],
+  [0, 4, 6, 2],
+  [1, 3, 7, 5]
+];
+
+// A turned box as its own closed mesh, appended to positions and indices
+function addTurnedBox(box: WallGeometry, positions: number[], indices: number[]): void {
+  const first = positions.length / 3;
+  for (let corner = 0; corner < 8; corner++) {
+    const [dx, dy] = rotateWallOffset(
+      box,
+      (corner & 1 ? 0.5 : -0.5) * box.size[0],
+      (corner & 2 ? 0.5 : -0.5) * box.size[1]
+    );
+    positions.push(
+      box.position[0] + dx,
+      box.position[1] + dy,
+      box.position[2] + (corner & 4 ? 0.5 : -0.5) * box.size[2]
+    );
+  }
+  BOX_QUADS.forEach(([a, b, c, d]) => {
+    indices.push(first + a, first + b, first + c, first + a, first + c, first + d);
+  });
+}
+
+// Build the union of boxes that stand on a common floor or on each other,
+// such as walls on a base. The union is then a height field over a grid of
+// every distinct box edge: each grid cell gets a flat top, and vertical faces
+// join neighbouring cells of different heights.
+//
+// Where two cells touch only along a vertical edge (diagonal neighbours, the
+// corner where an up wall meets the next column's left wall), four faces meet
+// at that edge. Each of the two touching solids then gets its own vertex at
+// the middle of the edge, so no mesh edge is shared by more than two faces.
+//
+// Turned walls (hex cells, bent lithophanes) don't fit the grid. Each is
+// added as its own closed box, so the mesh stays closed and edge-manifold
+// but isn't a union: where boxes overlap, their faces are left inside the
+// solid. The STL export falls back to plain boxes for such models and the UI
+// says so.
+export function buildBoxUnionMesh(walls: WallGeometry[]): IndexedMesh {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const aligned = walls.filter(wall => !wall.rotation);
+  if (aligned.length > 0) {
+    addGridUnion(aligned, positions, indices);
+  }
+  walls.filter(wall => wall.rotation).forEach(wall => addTurnedBox(wall, positions, indices));
+
+  return {
+    positions: new Float32Array(positions),
+    indices: new Uint32Array(indices)
+  };
+}
+
+// With wrapX the grid's left and right ends are the same line, as when the
+// union is to be rolled into a tube: cells at either end are neighbours and
+// no faces close the ends.
+function addGridUnion(walls: WallGeometry[], positions: number[], indices: number[], wrapX = false): void {
+  const boxes = walls.map(boxBounds);
+  const floor = boxes.reduce((lowest, box) => Math.min(lowest, box.z0), Infinity);
+
+  const xs = sortedUnique(boxes.flatMap(box => [box.x0, box.x1]));
+  const ys = sortedUnique(boxes.flatMap(box => [box.y0, box.y1]));
+  const xIndex = indexMap(xs);
+  const yIndex = indexMap(ys);
+  const nx = xs.length;
+  const ny = ys.length;
+  const cellsX = nx - 1;
+  const cellsY = ny - 1;
+
+  // Height of the union over each grid cell
+  const cellHeights = new Float64Array(cellsX * cellsY).fill(floor);
+  boxes.forEach(box => {
+    const i1 = xIndex.get(box.x1)!;
+    const j1 = yIndex.get(box.y1)!;
+    for (let j = yIndex.get(box.y0)!; j < j1; j++) {
+      for (let i = xIndex.get(box.x0)!; i < i1; i++) {
+        const cell = j * cellsX + i;
+        cellHeights[cell] = Math.max(cellHeights[cell], box.z1);
+      }
+    }
+  });
+
+  // Work with indices into the distinct heights; index 0 is the floor
+  const zs = sortedUnique([floor, ...cellHeights]);
+  const zIndex = indexMap(zs);
+  const nz = zs.length;
+  const cellZ = Int32Array.from(cellHeights, height => zIndex.get(height)!);
+
+  const heightAt = (i: number, j: number): number => {
+    const column = wrapX ? (i + cellsX) % cellsX : i;
+    return column < 0 || j < 0 || column >= cellsX || j >= cellsY ? 0 : cellZ[j * cellsX + column];
+  };
+  // The last grid line is the first one again when wrapping
+  const gridColumn = (i: number): number => wrapX && i === nx - 1 ? 0 : i;
+
+  const gridVertices = new Map<number, number>();
+  const pinchVertices = new Map<number, number>();
+
+  const addVertex = (x: number, y: number, z: number): number => {
+    positions.push(x, y, z);
+    return positions.length / 3 - 1;
+  };
+
+  const gridVertex = (column: number, j: number, k: number): number => {
+    const i = gridColumn(column);
+    const key = (j * nx + i) * nz + k;
+    let vertex = gridVertices.get(key);
+    if (vertex === undefined) {
+      vertex = addVertex(xs[i], ys[j], zs[k]);
+      gridVertices.set(key, vertex);
+    }
+    return vertex;
+  };
+
+  const pinchVertex = (column: number, j: number, k: number, next: number, owner: number): number => {
+    const i = gridColumn(column);
+    const key = ((j * nx + i) * nz + k) * 4 + owner;
+    let vertex = pinchVertices.get(key);
+    if (vertex === undefined) {
+      vertex = addVertex(xs[i], ys[j], (zs[k] + zs[next]) / 2);
+      pinchVertices.set(key, vertex);
+    }
+    return vertex;
+  };
+
+  const triangle = (a: number, b: number, c: number, flip: boolean) => {
+    if (flip) {
+      indices.push(a, c, b);
+    } else {
+      indices.push(a, b, c);
+    }
+  };
+
+  // Cells around grid point (i, j), counterclockwise: SW, SE, NE, NW
+  const quadrantHeights = (i: number, j: number): number[] => [
+    heightAt(i - 1, j - 1),
+    heightAt(i, j - 1),
+    heightAt(i, j),
+    heightAt(i - 1, j)
+  ];
+
+  // Vertices up the vertical edge at grid point (i, j) between heights lo
+  // and hi, for a face belonging to the given quadrant's cell. Includes every
+  // height another face meets this edge at, so there are no T-junctions.
+  const chain = (i: number, j: number, owner: number, lo: number, hi: number): ChainVertex[] => {
+    const around = quadrantHeights(i, j);
+    const levels = [...new Set(around)].sort((a, b) => a - b).filter(k => k >= lo && k <= hi);
+    const vertices: ChainVertex[] = [];
+
+    levels.forEach((k, n) => {
+      vertices.push({ vertex: gridVertex(i, j, k), z: zs[k] });
+      const next = levels[n + 1];
+      if (next === undefined) return;
+
+      const filled = around.map(height => height >= next);
+      const diagonal = filled[0] === filled[2] && filled[1] === filled[3] && filled[0] !== filled[1];
+      if (diagonal) {
+        vertices.push({ vertex: pinchVertex(i, j, k, next, owner), z: (zs[k] + zs[next]) / 2 });
+      }
+    });
+
+    return vertices;
+  };
+
+  // Triangulate a vertical face between two vertical chains. Unflipped, the
+  // triangles face +x for faces across x and -y for faces across y.
+  const ladder = (left: ChainVertex[], right: ChainVertex[], flip: boolean) => {
+    let a = 0;
+    let b = 0;
+    while (a < left.length - 1 || b < right.length - 1) {
+      const advanceLeft = b === right.length - 1 ||
+        (a < left.length - 1 && left[a + 1].z <= right[b + 1].z);
+      if (advanceLeft) {
+        triangle(left[a].vertex, right[b].vertex, left[a + 1].vertex, flip);
+        a++;
+      } else {
+        triangle(left[a].vertex, right[b].vertex, right[b + 1].vertex, flip);
+        b++;
+      }
+    }
+  };
+
+  // Flat tops
+  for (let j = 0; j < cellsY; j++) {
+    for (let i = 0; i < cellsX; i++) {
+      const k = heightAt(i, j);
+      if (k === 0) continue;
+      const v00 = gridVertex(i, j, k);
+      const v10 = gridVertex(i + 1, j, k);
+      const v11 = gridVertex(i + 1, j + 1, k);
+      const v01 = gridVertex(i, j + 1, k);
+      triangle(v00, v10, v11, false);
+      triangle(v00, v11, v01, false);
+    }
+  }
+
+  // Vertical faces across x, between cells (i - 1, j) and (i, j)
+  for (let i = 0; i < (wrapX ? nx - 1 : nx); i++) {
+    for (let j = 0; j < cellsY; j++) {
+      const leftHeight = heightAt(i - 1, j);
+      const rightHeight = heightAt(i, j);
+      if (leftHeight === rightHeight) continue;
+
+      const leftTaller = leftHeight > rightHeight;
+      const lo = Math.min(leftHeight, rightHeight);
+      const hi = Math.max(leftHeight, rightHeight);
+      ladder(
+        chain(i, j, leftTaller ? 3 : 2, lo, hi),
+        chain(i, j + 1, leftTaller ? 0 : 1, lo, hi),
+        !leftTaller
+      );
+    }
+  }
+
+  // Vertical faces across y, between cells (i, j - 1) and (i, j)
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < cellsX; i++) {
+      const belowHeight = heightAt(i, j - 1);
+      const aboveHeight = heightAt(i, j);
+      if (belowHeight === aboveHeight) continue;
+
+      const belowTaller = belowHeight > aboveHeight;
+      const lo = Math.min(belowHeight, aboveHeight);
+      const hi = Math.max(belowHeight, aboveHeight);
+      ladder(
+        chain(i, j, belowTaller ? 1 : 2, lo, hi),
+        chain(i + 1, j, belowTaller ? 0 : 3, lo, hi),
+        belowTaller
+      );
+    }
+  }
+
+  // Bottom. A base covering the whole grid only shares vertices with the
+  // outer walls, so fan it from its centre; otherwise close it cell by cell.
+  if (!wrapX && cellZ.every(k => k > 0)) {
+    const loop: number[] = [];
+    for (let i = 0; i < nx - 1; i++) loop.push(gridVertex(i, 0, 0));
+    for (let j = 0; j < ny - 1; j++) loop.push(gridVertex(nx - 1, j, 0));
+    for (let i = nx - 1; i > 0; i--) loop.push(gridVertex(i, ny - 1, 0));
+    for (let j = ny - 1; j > 0; j--) loop.push(gridVertex(0, j, 0));
+
+    const center = addVertex((xs[0] + xs[nx - 1]) / 2, (ys[0] + ys[ny - 1]) / 2, floor);
+    loop.forEach((vertex, n) => {
+      triangle(center, loop[(n + 1) % loop.length], vertex, false);
+    });
+  } else {
+    for (let j = 0; j < cellsY; j++) {
+      for (let i = 0; i < cellsX; i++) {
+        if (heightAt(i, j) === 0) continue;
+        const v00 = gridVertex(i, j, 0);
+        const v10 = gridVertex(i + 1, j, 0);
+        const v11 = gridVertex(i + 1, j + 1, 0);
+        const v01 = gridVertex(i, j + 1, 0);
+        triangle(v00, v11, v10, false);
+        triangle(v00, v01, v11, false);
+      }
+    }
+  }
+}
+
+// A square-grid model wrapped round a cylinder as one closed body. The tube
+// and walls are unioned as the flat plate they were wrapped from, with the
+// plate's left and right ends joined, and every vertex is then wrapped onto
+// the tube. The floor replaces the tube's inside below its top, so those
+// faces and the tube's bottom edge give way to two polygons round the axis:
+// the floor's top and the model's underside.
+function buildCylinderMesh(geometry: ShadowCasterGeometry, config: MeshConfig): IndexedMesh {
+  const thickness = config.bottomThk;
+  const height = Math.max(...geometry.base.map(box => box.position[2] + box.size[2] / 2));
+  const boxes: WallGeometry[] = [];
+  for (let column = 0; column < columnCount(config); column++) {
+    // Split where the floor's top meets the tube, so the grid has a line there
+    [[0, thickness], [thickness, height]].forEach(([y0, y1]) => boxes.push({
+      position: [config.border + (column + 0.5) * config.cellSize, (y0 + y1) / 2, thickness / 2],
+      size: [config.cellSize, y1 - y0, thickness]
+    }));
+  }
+  for (const wall of allWalls(geometry)) {
+    boxes.push(unwrapWall(wall, config));
+  }
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  addGridUnion(boxes, positions, indices, true);
+
+  const at = (vertex: number, axis: number) => snap(positions[vertex * 3 + axis]);
+  const kept: number[] = [];
+  for (let t = 0; t < indices.length; t += 3) {
+    const triangle = indices.slice(t, t + 3);
+    const bottomEdge = triangle.every(vertex => at(vertex, 1) === 0);
+    const insideFloor = triangle.every(vertex => at(vertex, 2) === 0 && at(vertex, 1) <= snap(thickness));
+    if (!bottomEdge && !insideFloor) {
+      kept.push(...triangle);
+    }
+  }
+
+  // Keep only vertices still in use, wrapped onto the tube
+  const used = new Map<number, number>();
+  const wrapped: number[] = [];
+  const useVertex = (vertex: number): number => {
+    let index = used.get(vertex);
+    if (index === undefined) {
+      index = wrapped.length / 3;
+      wrapped.push(...wrapPoint(positions[vertex * 3], positions[vertex * 3 + 1], positions[vertex * 3 + 2], config));
+      used.set(vertex, index);
+    }
+    return index;
+  };
+  const wrappedIndices = kept.map(useVertex);
+
+  // The open edges: round the outside of the tube's bottom, and round the
+  // inside where the floor's top meets it. Both run counterclockwise seen
+  // from above as the plate runs left to right.
+  const loop = (y: number, z: number) => Array.from(used.keys())
+    .filter(vertex => at(vertex, 1) === snap(y) && at(vertex, 2) === snap(z))
+    .sort((a, b) => positions[a * 3] - positions[b * 3])
+    .map(vertex => used.get(vertex)!);
+  const cap = (rim: number[], z: number, up: boolean) => {
+    const center = wrapped.length / 3;
+    wrapped.push(0, 0, z);
+    rim.forEach((vertex, n) => {
+      const next = rim[(n + 1) % rim.length];
+      wrappedIndices.push(...(up ? [center, vertex, next] : [center, next, vertex]));
+    });
+  };
+  cap(loop(0, thickness), 0, false);
+  cap(loop(thickness, 0), thickness, true);
+
+  return {
+    positions: new Float32Array(wrapped),
+    indices: new Uint32Array(wrappedIndices)
+  };
+}
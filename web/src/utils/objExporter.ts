@@ -0,0 +1,80 @@
+import { buildBoxUnionMesh, buildManifoldMesh } from './manifoldMesh';
+import type { IndexedMesh, MeshConfig } from './manifoldMesh';
+import { allWalls } from './geometryGenerator';
+import type { ShadowCasterGeometry } from './geometryGenerator';
+
+export interface OBJOptions {
+  // Name of the MTL file to reference. The base and walls are then written as
+  // separate objects with their own material; without it the model is one
+  // watertight object.
+  materialLibrary: string | null;
+}
+
+interface ObjectPart {
+  name: string;
+  material: string;
+  mesh: IndexedMesh;
+}
+
+// Diffuse colours, matching the 3D preview's grey base and light walls
+const MATERIALS: [string, [number, number, number]][] = [
+  ['base', [0.533, 0.533, 0.533]],
+  ['walls', [0.8, 0.8, 0.8]]
+];
+
+// Millimetres to four decimals, without trailing zeros
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1e4) / 1e4);
+}
+
+function objectParts(geometry: ShadowCasterGeometry, config: MeshConfig, options: OBJOptions): ObjectPart[] {
+  if (!options.materialLibrary) {
+    return [{ name: 'shadow_caster', material: '', mesh: buildManifoldMesh(geometry, config) }];
+  }
+
+  return [
+    { name: 'base', material: 'base', mesh: buildBoxUnionMesh(geometry.base) },
+    { name: 'walls', material: 'walls', mesh: buildBoxUnionMesh(allWalls(geometry)) }
+  ].filter(part => part.mesh.indices.length > 0);
+}
+
+// Build a Wavefront OBJ for the model. Uses no DOM APIs, so it can run in the
+// pipeline worker.
+export function createOBJData(geometry: ShadowCasterGeometry, config: MeshConfig, options: OBJOptions): string {
+  const lines: string[] = ['# Shadow Caster Web', '# Units: millimetres'];
+  if (options.materialLibrary) {
+    lines.push(`mtllib ${options.materialLibrary}`);
+  }
+
+  // OBJ indices are 1-based and count vertices across the whole file
+  let vertexOffset = 1;
+  objectParts(geometry, config, options).forEach(({ name, material, mesh }) => {
+    lines.push(`o ${name}`);
+    for (let i = 0; i < mesh.positions.length; i += 3) {
+      lines.push(`v ${formatNumber(mesh.positions[i])} ${formatNumber(mesh.positions[i + 1])} ${formatNumber(mesh.positions[i + 2])}`);
+    }
+    if (material) {
+      lines.push(`usemtl ${material}`);
+    }
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      lines.push(`f ${mesh.indices[i] + vertexOffset} ${mesh.indices[i + 1] + vertexOffset} ${mesh.indices[i + 2] + vertexOffset}`);
+    }
+    vertexOffset += mesh.positions.length / 3;
+  });
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+// Material library for an OBJ written with a materialLibrary
+export function createMTLData(): string {
+  return [
+    '# Shadow Caster Web',
+    ...MATERIALS.flatMap(([name, color]) => [
+      '',
+      `newmtl ${name}`,
+      `Kd ${color.join(' ')}`
+    ]),
+    ''
+  ].join('\n');
+}
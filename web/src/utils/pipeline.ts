@@ -0,0 +1,356 @@
+import { loadGrayscaleImage, processGrayscaleStages } from './imageProcessing';
+import { defaultImageDecoder } from './imageDecoding';
+import { WALL_SETS, generateShadowCasterGeometry, layoutImages } from './geometryGenerator';
+import { sampleHexLattice } from './hexGrid';
+import { canOptimizeHeights, optimizeWallHeights } from './heightSolver';
+import { generateLithophaneGeometry } from './lithophane';
+import { encodeExport, exportFormats } from './exportFormats';
+import type { ProcessedImageData, ProcessedImageStages } from './imageProcessing';
+import type { ShadowCasterGeometry, WallGeometry } from './geometryGenerator';
+import type { EncodedFile, ExportFormat, ExportOptions } from './exportFormats';
+import type { ImageDecoder } from './imageDecoding';
+import type { HeightErrorReport } from './heightSolver';
+import type { ComputedImageConfig, ImageConfig } from '../types/ImageConfig';
+
+// Image data flattened into a typed array so it can be transferred to and
+// from the worker instead of structured-cloned row by row.
+export interface PackedImageData {
+  pixels: Float64Array;
+  width: number;
+  height: number;
+  levels?: number[];
+}
+
+export interface PackedImageStages {
+  grayscale: PackedImageData;
+  // Null when the adjustments left the grayscale image unchanged
+  adjusted: PackedImageData | null;
+  dithered: PackedImageData;
+}
+
+// Walls flattened to [x, y, z, width, depth, height, rotation] per wall
+export interface PackedGeometry {
+  base: WallGeometry[];
+  leftWalls: Float64Array;
+  upWalls: Float64Array;
+  rightWalls: Float64Array;
+  downWalls: Float64Array;
+}
+
+const WALL_STRIDE = 7;
+
+// Image files to decode and shrink to the model grid, with the settings
+// that shape the grayscale grids
+export interface LoadRequest {
+  horiz: Blob | null;
+  vert: Blob | null;
+  right: Blob | null;
+  down: Blob | null;
+  config: Pick<
+    ImageConfig,
+    'widthInPixels' | 'horizCrop' | 'vertCrop' | 'rightCrop' | 'downCrop' | 'cropAspectRatio' | 'resampleFilter'
+  >;
+}
+
+// The grayscale images of a LoadRequest, ready for a PipelineRequest
+export interface LoadedImages {
+  horiz: PackedImageData | null;
+  vert: PackedImageData | null;
+  right: PackedImageData | null;
+  down: PackedImageData | null;
+}
+
+export interface PipelineRequest {
+  horiz: PackedImageData | null;
+  vert: PackedImageData | null;
+  right: PackedImageData | null;
+  down: PackedImageData | null;
+  config: ComputedImageConfig;
+}
+
+export interface PipelineResult {
+  horizStages: PackedImageStages | null;
+  vertStages: PackedImageStages | null;
+  rightStages: PackedImageStages | null;
+  downStages: PackedImageStages | null;
+  geometry: PackedGeometry;
+  // Shadow error before and after solving the wall heights together, when
+  // the config asks for it
+  heightReport: HeightErrorReport | null;
+}
+
+export interface PipelineProgress {
+  stage: string;
+  // Fraction of the job completed, 0-1
+  progress: number;
+}
+
+export type PipelineJob =
+  | { kind: 'load'; request: LoadRequest }
+  | { kind: 'process'; request: PipelineRequest }
+  | {
+      kind: 'export';
+      geometry: PackedGeometry;
+      config: ComputedImageConfig;
+      format: ExportFormat;
+      options: ExportOptions;
+    };
+
+export type PipelineJobResult = LoadedImages | PipelineResult | EncodedFile[];
+
+// Messages exchanged with the pipeline worker. Every message carries the id
+// of the job it belongs to.
+export interface PipelineWorkerRequest {
+  id: number;
+  job: PipelineJob;
+}
+
+export type PipelineWorkerResponse =
+  | { id: number; type: 'progress'; progress: PipelineProgress }
+  | { id: number; type: 'result'; result: PipelineJobResult }
+  | { id: number; type: 'error'; message: string };
+
+export function packImageData(image: ProcessedImageData): PackedImageData {
+  const pixels = new Float64Array(image.width * image.height);
+  for (let y = 0; y < image.height; y++) {
+    pixels.set(image.data[y], y * image.width);
+  }
+  return {
+    pixels,
+    width: image.width,
+    height: image.height,
+    levels: image.levels
+  };
+}
+
+export function unpackImageData(packed: PackedImageData): ProcessedImageData {
+  const data: number[][] = [];
+  for (let y = 0; y < packed.height; y++) {
+    data.push(Array.from(packed.pixels.subarray(y * packed.width, (y + 1) * packed.width)));
+  }
+  return {
+    data,
+    width: packed.width,
+    height: packed.height,
+    ...(packed.levels ? { levels: packed.levels } : {})
+  };
+}
+
+function packImageStages(stages: ProcessedImageStages): PackedImageStages {
+  return {
+    grayscale: packImageData(stages.grayscale),
+    adjusted: stages.adjusted === stages.grayscale ? null : packImageData(stages.adjusted),
+    dithered: packImageData(stages.dithered)
+  };
+}
+
+export function unpackImageStages(packed: PackedImageStages): ProcessedImageStages {
+  const grayscale = unpackImageData(packed.grayscale);
+  return {
+    grayscale,
+    adjusted: packed.adjusted ? unpackImageData(packed.adjusted) : grayscale,
+    dithered: unpackImageData(packed.dithered)
+  };
+}
+
+function packWalls(walls: WallGeometry[]): Float64Array {
+  const packed = new Float64Array(walls.length * WALL_STRIDE);
+  walls.forEach((wall, i) => {
+    packed.set(wall.position, i * WALL_STRIDE);
+    packed.set(wall.size, i * WALL_STRIDE + 3);
+    packed[i * WALL_STRIDE + 6] = wall.rotation ?? 0;
+  });
+  return packed;
+}
+
+function unpackWalls(packed: Float64Array): WallGeometry[] {
+  const walls: WallGeometry[] = [];
+  for (let i = 0; i < packed.length; i += WALL_STRIDE) {
+    walls.push({
+      position: [packed[i], packed[i + 1], packed[i + 2]],
+      size: [packed[i + 3], packed[i + 4], packed[i + 5]],
+      ...(packed[i + 6] ? { rotation: packed[i + 6] } : {})
+    });
+  }
+  return walls;
+}
+
+export function packGeometry(geometry: ShadowCasterGeometry): PackedGeometry {
+  return {
+    base: geometry.base,
+    leftWalls: packWalls(geometry.leftWalls),
+    upWalls: packWalls(geometry.upWalls),
+    rightWalls: packWalls(geometry.rightWalls),
+    downWalls: packWalls(geometry.downWalls)
+  };
+}
+
+export function unpackGeometry(packed: PackedGeometry): ShadowCasterGeometry {
+  return {
+    base: packed.base,
+    leftWalls: unpackWalls(packed.leftWalls),
+    upWalls: unpackWalls(packed.upWalls),
+    rightWalls: unpackWalls(packed.rightWalls),
+    downWalls: unpackWalls(packed.downWalls)
+  };
+}
+
+// Buffers of a job's result that can be moved rather than copied
+export function resultTransferables(result: PipelineJobResult): ArrayBuffer[] {
+  if (Array.isArray(result)) {
+    return result.map(file => file.data.buffer as ArrayBuffer);
+  }
+  if (!('geometry' in result)) {
+    return [result.horiz, result.vert, result.right, result.down].flatMap(image => image ? [image.pixels.buffer as ArrayBuffer] : []);
+  }
+
+  const images = [result.horizStages, result.vertStages, result.rightStages, result.downStages].flatMap(stages =>
+    stages ? [stages.grayscale, stages.adjusted, stages.dithered] : []
+  );
+  return [
+    ...images.flatMap(image => image ? [image.pixels.buffer as ArrayBuffer] : []),
+    ...geometryTransferables(result.geometry)
+  ];
+}
+
+function geometryTransferables(geometry: PackedGeometry): ArrayBuffer[] {
+  return WALL_SETS.map(set => geometry[set].buffer as ArrayBuffer);
+}
+
+// Buffers of a job's input that can be moved rather than copied
+export function jobTransferables(job: PipelineJob): ArrayBuffer[] {
+  if (job.kind === 'load') {
+    // Blobs are shared with the worker, not copied
+    return [];
+  }
+  if (job.kind === 'export') {
+    return geometryTransferables(job.geometry);
+  }
+  return [job.request.horiz, job.request.vert, job.request.right, job.request.down].flatMap(image =>
+    image ? [image.pixels.buffer as ArrayBuffer] : []
+  );
+}
+
+// Decode the image files and reduce them to cropped grayscale grids
+export async function loadImages(
+  request: LoadRequest,
+  onProgress: (progress: PipelineProgress) => void = () => {},
+  decoder: ImageDecoder = defaultImageDecoder()
+): Promise<LoadedImages> {
+  const { config } = request;
+  const images = [
+    { name: 'horizontal', file: request.horiz, crop: config.horizCrop },
+    { name: 'vertical', file: request.vert, crop: config.vertCrop },
+    { name: 'right', file: request.right, crop: config.rightCrop },
+    { name: 'down', file: request.down, crop: config.downCrop }
+  ];
+  const totalSteps = images.filter(({ file }) => file).length;
+  let step = 0;
+
+  const loaded: (PackedImageData | null)[] = [];
+  for (const { name, file, crop } of images) {
+    if (!file) {
+      loaded.push(null);
+      continue;
+    }
+    onProgress({ stage: `Loading ${name} image`, progress: step++ / totalSteps });
+    const grayscale = await loadGrayscaleImage(file, config.widthInPixels, {
+      crop,
+      aspectRatio: config.cropAspectRatio,
+      resampleFilter: config.resampleFilter
+    }, decoder);
+    loaded.push(packImageData(grayscale));
+  }
+
+  onProgress({ stage: 'Done', progress: 1 });
+  return { horiz: loaded[0], vert: loaded[1], right: loaded[2], down: loaded[3] };
+}
+
+// Adjust and dither the images and build the model from them. On a hex grid
+// the images are first sampled onto the lattice. Images the layout can't
+// cast are skipped. With optimizeHeights the left and up wall heights are
+// then solved together. A lithophane is built from the horizontal image
+// alone.
+export function runPipeline(
+  request: PipelineRequest,
+  onProgress: (progress: PipelineProgress) => void = () => {}
+): PipelineResult {
+  const { config } = request;
+  const extraImages = layoutImages(config);
+  const lithophane = config.mode === 'lithophane';
+  const images = [
+    { name: 'horizontal', image: request.horiz, adjustments: config.horizAdjustments },
+    { name: 'vertical', image: lithophane ? null : request.vert, adjustments: config.vertAdjustments },
+    { name: 'right', image: extraImages.right ? request.right : null, adjustments: config.rightAdjustments },
+    { name: 'down', image: extraImages.down ? request.down : null, adjustments: config.downAdjustments }
+  ];
+  const optimize = config.optimizeHeights && canOptimizeHeights(config);
+  const totalSteps = images.filter(({ image }) => image).length + (optimize ? 2 : 1);
+  let step = 0;
+
+  const stages = images.map(({ name, image, adjustments }) => {
+    if (!image) return null;
+
+    onProgress({ stage: `Dithering ${name} image`, progress: step++ / totalSteps });
+    const grayscale = unpackImageData(image);
+    const source = config.layout === 'hex' && !lithophane ? sampleHexLattice(grayscale) : grayscale;
+    return processGrayscaleStages(source, config.numberOfColors, {
+      algorithm: config.ditherAlgorithm,
+      serpentine: config.serpentine,
+      quantizer: config.quantizer,
+      adjustments
+    });
+  });
+  const [horizStages, vertStages, rightStages, downStages] = stages;
+
+  onProgress({ stage: 'Generating geometry', progress: step / totalSteps });
+  let geometry = lithophane
+    ? generateLithophaneGeometry(horizStages?.dithered ?? null, config)
+    : generateShadowCasterGeometry(
+      horizStages?.dithered ?? null,
+      vertStages?.dithered ?? null,
+      config,
+      rightStages?.dithered ?? null,
+      downStages?.dithered ?? null
+    );
+
+  let heightReport: HeightErrorReport | null = null;
+  if (optimize) {
+    onProgress({ stage: 'Optimizing wall heights', progress: (step + 1) / totalSteps });
+    ({ geometry, report: heightReport } = optimizeWallHeights(
+      geometry,
+      horizStages?.dithered ?? null,
+      vertStages?.dithered ?? null,
+      config,
+      rightStages?.dithered ?? null,
+      downStages?.dithered ?? null
+    ));
+  }
+
+  onProgress({ stage: 'Done', progress: 1 });
+  return {
+    horizStages: horizStages ? packImageStages(horizStages) : null,
+    vertStages: vertStages ? packImageStages(vertStages) : null,
+    rightStages: rightStages ? packImageStages(rightStages) : null,
+    downStages: downStages ? packImageStages(downStages) : null,
+    geometry: packGeometry(geometry),
+    heightReport
+  };
+}
+
+export async function runPipelineJob(
+  job: PipelineJob,
+  onProgress?: (progress: PipelineProgress) => void
+): Promise<PipelineJobResult> {
+  if (job.kind === 'load') {
+    return loadImages(job.request, onProgress);
+  }
+  if (job.kind === 'export') {
+    const geometry = unpackGeometry(job.geometry);
+    onProgress?.({ stage: `Building ${exportFormats[job.format].label}`, progress: 0 });
+    const files = encodeExport(geometry, job.config, job.format, job.options);
+    onProgress?.({ stage: 'Done', progress: 1 });
+    return files;
+  }
+  return runPipeline(job.request, onProgress);
+}
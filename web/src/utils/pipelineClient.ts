@@ -0,0 +1,151 @@
+import { jobTransferables, runPipelineJob } from './pipeline';
+import type { EncodedFile, ExportFormat, ExportOptions } from './exportFormats';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+import type {
+  LoadedImages,
+  LoadRequest,
+  PackedGeometry,
+  PipelineJob,
+  PipelineJobResult,
+  PipelineProgress,
+  PipelineRequest,
+  PipelineResult,
+  PipelineWorkerResponse
+} from './pipeline';
+
+// Rejection reason for a job that was superseded or cancelled
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Pipeline job was cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+interface PendingJob {
+  id: number;
+  resolve: (result: PipelineJobResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: PipelineProgress) => void;
+}
+
+// Runs pipeline jobs on a worker, one at a time. Starting a job cancels the
+// one in flight by terminating its worker, since a busy worker cannot read
+// a cancel message. Without Worker support (e.g. in tests) jobs run inline.
+export class PipelineClient {
+  private worker: Worker | null = null;
+  private pending: PendingJob | null = null;
+  private nextId = 1;
+
+  load(
+    request: LoadRequest,
+    onProgress?: (progress: PipelineProgress) => void
+  ): Promise<LoadedImages> {
+    return this.run({ kind: 'load', request }, onProgress) as Promise<LoadedImages>;
+  }
+
+  process(
+    request: PipelineRequest,
+    onProgress?: (progress: PipelineProgress) => void
+  ): Promise<PipelineResult> {
+    return this.run({ kind: 'process', request }, onProgress) as Promise<PipelineResult>;
+  }
+
+  encode(
+    geometry: PackedGeometry,
+    config: ComputedImageConfig,
+    format: ExportFormat,
+    options: ExportOptions,
+    onProgress?: (progress: PipelineProgress) => void
+  ): Promise<EncodedFile[]> {
+    return this.run({ kind: 'export', geometry, config, format, options }, onProgress) as Promise<EncodedFile[]>;
+  }
+
+  cancel(): void {
+    if (!this.pending) return;
+
+    const { reject } = this.pending;
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+    reject(new PipelineCancelledError());
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private run(
+    job: PipelineJob,
+    onProgress?: (progress: PipelineProgress) => void
+  ): Promise<PipelineJobResult> {
+    this.cancel();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending = { id, resolve, reject, onProgress };
+
+      if (typeof Worker === 'undefined') {
+        setTimeout(() => this.runInline(id, job), 0);
+        return;
+      }
+
+      this.getWorker().postMessage({ id, job }, jobTransferables(job));
+    });
+  }
+
+  private async runInline(id: number, job: PipelineJob): Promise<void> {
+    if (this.pending?.id !== id) return;
+
+    try {
+      const result = await runPipelineJob(job, progress => {
+        this.handleResponse({ id, type: 'progress', progress });
+      });
+      this.handleResponse({ id, type: 'result', result });
+    } catch (error) {
+      this.handleResponse({
+        id,
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url), {
+        type: 'module'
+      });
+      this.worker.onmessage = (event: MessageEvent<PipelineWorkerResponse>) => {
+        this.handleResponse(event.data);
+      };
+      this.worker.onerror = (event) => {
+        const pending = this.pending;
+        this.pending = null;
+        this.worker?.terminate();
+        this.worker = null;
+        pending?.reject(new Error(event.message || 'Pipeline worker failed'));
+      };
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: PipelineWorkerResponse): void {
+    const pending = this.pending;
+    // Ignore messages from jobs that were already cancelled
+    if (!pending || pending.id !== response.id) return;
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending = null;
+    if (response.type === 'result') {
+      pending.resolve(response.result);
+    } else {
+      pending.reject(new Error(response.message));
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { buildManifoldMesh } from './manifoldMesh';
+import type { MeshConfig } from './manifoldMesh';
+import type { ShadowCasterGeometry } from './geometryGenerator';
+
+export interface PLYOptions {
+  // Little-endian binary PLY; otherwise ASCII
+  binary: boolean;
+}
+
+// Bytes per face record: a uint8 vertex count then three int32 indices
+const FACE_BYTES = 1 + 3 * 4;
+
+function plyHeader(vertexCount: number, faceCount: number, options: PLYOptions): string {
+  return [
+    'ply',
+    `format ${options.binary ? 'binary_little_endian' : 'ascii'} 1.0`,
+    'comment Shadow Caster Web, units: millimetres',
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    `element face ${faceCount}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+    ''
+  ].join('\n');
+}
+
+// Build a PLY of the model as one watertight mesh. Uses no DOM APIs, so it
+// can run in the pipeline worker.
+export function createPLYData(geometry: ShadowCasterGeometry, config: MeshConfig, options: PLYOptions): Uint8Array {
+  const { positions, indices } = buildManifoldMesh(geometry, config);
+  const vertexCount = positions.length / 3;
+  const faceCount = indices.length / 3;
+  const header = new TextEncoder().encode(plyHeader(vertexCount, faceCount, options));
+
+  if (!options.binary) {
+    const lines: string[] = [];
+    for (let i = 0; i < positions.length; i += 3) {
+      lines.push(`${positions[i]} ${positions[i + 1]} ${positions[i + 2]}`);
+    }
+    for (let i = 0; i < indices.length; i += 3) {
+      lines.push(`3 ${indices[i]} ${indices[i + 1]} ${indices[i + 2]}`);
+    }
+    lines.push('');
+    const body = new TextEncoder().encode(lines.join('\n'));
+
+    const data = new Uint8Array(header.length + body.length);
+    data.set(header);
+    data.set(body, header.length);
+    return data;
+  }
+
+  const data = new Uint8Array(header.length + positions.byteLength + faceCount * FACE_BYTES);
+  data.set(header);
+  const view = new DataView(data.buffer);
+  let offset = header.length;
+
+  for (let i = 0; i < positions.length; i++) {
+    view.setFloat32(offset, positions[i], true);
+    offset += 4;
+  }
+  for (let i = 0; i < indices.length; i += 3) {
+    view.setUint8(offset, 3);
+    view.setInt32(offset + 1, indices[i], true);
+    view.setInt32(offset + 5, indices[i + 1], true);
+    view.setInt32(offset + 9, indices[i + 2], true);
+    offset += FACE_BYTES;
+  }
+
+  return data;
+}
@@ -0,0 +1,236 @@
+import { unzlibSync } from 'fflate';
+import type { DecodedImage } from './imageDecoding';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Colour types from the PNG spec, and how many samples each pixel has
+const COLOR_GRAY = 0;
+const COLOR_RGB = 2;
+const COLOR_PALETTE = 3;
+const COLOR_GRAY_ALPHA = 4;
+const COLOR_RGBA = 6;
+const CHANNELS: Record<number, number> = {
+  [COLOR_GRAY]: 1,
+  [COLOR_RGB]: 3,
+  [COLOR_PALETTE]: 1,
+  [COLOR_GRAY_ALPHA]: 2,
+  [COLOR_RGBA]: 4
+};
+
+// Adam7 interlacing: the x/y offset and step of each of the seven passes
+const ADAM7 = [
+  { x: 0, y: 0, dx: 8, dy: 8 },
+  { x: 4, y: 0, dx: 8, dy: 8 },
+  { x: 0, y: 4, dx: 4, dy: 8 },
+  { x: 2, y: 0, dx: 4, dy: 4 },
+  { x: 0, y: 2, dx: 2, dy: 4 },
+  { x: 1, y: 0, dx: 2, dy: 2 },
+  { x: 0, y: 1, dx: 1, dy: 2 }
+];
+
+interface Header {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+}
+
+export function isPNG(bytes: Uint8Array): boolean {
+  return SIGNATURE.every((value, index) => bytes[index] === value);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Undo the per-scanline filters in place. Returns the offset just past the
+// image's data.
+function unfilter(
+  data: Uint8Array,
+  offset: number,
+  rowBytes: number,
+  rows: number,
+  bytesPerPixel: number
+): number {
+  let previous = -1;
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset];
+    const start = offset + 1;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? data[start + i - bytesPerPixel] : 0;
+      const up = previous >= 0 ? data[previous + i] : 0;
+      const upLeft = previous >= 0 && i >= bytesPerPixel ? data[previous + i - bytesPerPixel] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+      data[start + i] = (data[start + i] + predictor) & 0xff;
+    }
+    previous = start;
+    offset = start + rowBytes;
+  }
+  return offset;
+}
+
+// Decode a PNG file to 8-bit RGBA. Handles every colour type and bit depth,
+// palettes, tRNS transparency and Adam7 interlacing; 16-bit samples keep
+// their high byte.
+export function decodePNG(bytes: Uint8Array): DecodedImage {
+  if (!isPNG(bytes)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let header: Header | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+
+  let offset = SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    // Skip the length, type, data and CRC
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      header = {
+        width: view.getUint32(offset - length - 4),
+        height: view.getUint32(offset - length),
+        bitDepth: chunk[8],
+        colorType: chunk[9],
+        interlaced: chunk[12] === 1
+      };
+      if (CHANNELS[header.colorType] === undefined) {
+        throw new Error(`Unsupported PNG colour type ${header.colorType}`);
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      compressed.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!header) {
+    throw new Error('PNG has no IHDR chunk');
+  }
+  if (header.colorType === COLOR_PALETTE && !palette) {
+    throw new Error('Palette PNG has no PLTE chunk');
+  }
+
+  const joined = new Uint8Array(compressed.reduce((total, chunk) => total + chunk.length, 0));
+  compressed.reduce((position, chunk) => {
+    joined.set(chunk, position);
+    return position + chunk.length;
+  }, 0);
+  const raw = unzlibSync(joined);
+
+  const { width, height, bitDepth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  // Read sample c of pixel x from an unfiltered scanline starting at row
+  const sample = (row: number, x: number, c: number): number => {
+    if (bitDepth === 8) return raw[row + x * channels + c];
+    if (bitDepth === 16) return raw[row + (x * channels + c) * 2];
+    const bit = (x * channels + c) * bitDepth;
+    const value = (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    // Palette indices are used as they are; gray levels scale to 0-255
+    return colorType === COLOR_PALETTE ? value : Math.round(value * 255 / maxSample);
+  };
+
+  // Full-depth sample, for comparing against tRNS colour keys
+  const rawSample = (row: number, x: number, c: number): number => {
+    if (bitDepth === 16) return (raw[row + (x * channels + c) * 2] << 8) | raw[row + (x * channels + c) * 2 + 1];
+    if (bitDepth === 8) return raw[row + x * channels + c];
+    const bit = (x * channels + c) * bitDepth;
+    return (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+
+  const keyed = (row: number, x: number): boolean => {
+    if (!transparency) return false;
+    if (colorType === COLOR_GRAY) {
+      return rawSample(row, x, 0) === ((transparency[0] << 8) | transparency[1]);
+    }
+    if (colorType === COLOR_RGB) {
+      return [0, 1, 2].every(c => rawSample(row, x, c) === ((transparency[c * 2] << 8) | transparency[c * 2 + 1]));
+    }
+    return false;
+  };
+
+  const writePixel = (row: number, x: number, target: number) => {
+    const out = target * 4;
+    switch (colorType) {
+      case COLOR_GRAY: {
+        const gray = sample(row, x, 0);
+        rgba[out] = rgba[out + 1] = rgba[out + 2] = gray;
+        rgba[out + 3] = keyed(row, x) ? 0 : 255;
+        break;
+      }
+      case COLOR_GRAY_ALPHA:
+        rgba[out] = rgba[out + 1] = rgba[out + 2] = sample(row, x, 0);
+        rgba[out + 3] = sample(row, x, 1);
+        break;
+      case COLOR_RGB:
+        rgba[out] = sample(row, x, 0);
+        rgba[out + 1] = sample(row, x, 1);
+        rgba[out + 2] = sample(row, x, 2);
+        rgba[out + 3] = keyed(row, x) ? 0 : 255;
+        break;
+      case COLOR_RGBA:
+        rgba[out] = sample(row, x, 0);
+        rgba[out + 1] = sample(row, x, 1);
+        rgba[out + 2] = sample(row, x, 2);
+        rgba[out + 3] = sample(row, x, 3);
+        break;
+      case COLOR_PALETTE: {
+        const index = sample(row, x, 0);
+        rgba[out] = palette![index * 3];
+        rgba[out + 1] = palette![index * 3 + 1];
+        rgba[out + 2] = palette![index * 3 + 2];
+        rgba[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+    }
+  };
+
+  const passes = header.interlaced ? ADAM7 : [{ x: 0, y: 0, dx: 1, dy: 1 }];
+  let position = 0;
+  for (const pass of passes) {
+    const passWidth = Math.ceil((width - pass.x) / pass.dx);
+    const passHeight = Math.ceil((height - pass.y) / pass.dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = Math.ceil(passWidth * bitsPerPixel / 8);
+    const start = position;
+    position = unfilter(raw, position, rowBytes, passHeight, bytesPerPixel);
+
+    for (let y = 0; y < passHeight; y++) {
+      const row = start + y * (rowBytes + 1) + 1;
+      for (let x = 0; x < passWidth; x++) {
+        writePixel(row, x, (pass.y + y * pass.dy) * width + pass.x + x * pass.dx);
+      }
+    }
+  }
+
+  return { width, height, data: rgba };
+}
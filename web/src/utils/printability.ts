@@ -0,0 +1,183 @@
+import { calculateSceneBounds } from './geometryGenerator';
+import { cylinderRadius } from './cylinder';
+import { hexGridSize } from './hexGrid';
+import { computeImageConfig, format } from '../types/ImageConfig';
+import type { ShadowCasterGeometry } from './geometryGenerator';
+import type { ComputedImageConfig, ImageConfig } from '../types/ImageConfig';
+
+// Checks that a config makes sense and that its model will print on a given
+// printer. Errors are settings the model can't be built or printed with, and
+// block export; warnings are settings that will likely print badly.
+
+// What the model has to fit and what the printer can lay down
+export interface PrinterProfile {
+  nozzleDiameter: number;
+  // Narrowest wall the printer makes reliably
+  minWallWidth: number;
+  bedWidth: number;
+  bedDepth: number;
+  // Tallest print the printer takes
+  maxBuildHeight: number;
+}
+
+export const defaultPrinterProfile: PrinterProfile = {
+  nozzleDiameter: 0.4,
+  minWallWidth: 0.4,
+  bedWidth: 220,
+  bedDepth: 220,
+  maxBuildHeight: 250
+};
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface PrintabilityIssue {
+  severity: IssueSeverity;
+  // Setting the issue belongs to, shown next to its control; absent for
+  // issues with the model as a whole
+  field?: keyof ImageConfig;
+  message: string;
+}
+
+// Widest image the app builds; more cells than this take too long to mesh
+export const MAX_WIDTH_IN_PIXELS = 300;
+
+// Layers thicker than this share of the nozzle diameter don't bond well
+const MAX_LAYER_NOZZLE_RATIO = 0.8;
+
+const ELEVATION_FIELDS = [
+  'horizLightElevation',
+  'vertLightElevation',
+  'rightLightElevation',
+  'downLightElevation'
+] as const;
+
+export function hasErrors(issues: PrintabilityIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+export function issuesFor(issues: PrintabilityIssue[], field: keyof ImageConfig): PrintabilityIssue[] {
+  return issues.filter(issue => issue.field === field);
+}
+
+// Narrowest the model can be across the bed, known before any image is
+// loaded: the plate's width, or the chord a wrapped model spans
+function minimumFootprint(config: ComputedImageConfig): number {
+  const lithophane = config.mode === 'lithophane';
+  const arc = lithophane
+    ? { flat: 0, curved: config.lithophaneArc, cylinder: 360 }[config.lithophaneShape]
+    : config.layout === 'square' && config.shape === 'cylinder' ? 360 : 0;
+  if (arc > 0) {
+    return 2 * cylinderRadius(config, arc) * Math.sin(Math.min(arc, 180) * Math.PI / 360);
+  }
+  if (lithophane) {
+    return config.widthInPixels * config.cellSize;
+  }
+  const grid = config.layout === 'hex'
+    ? hexGridSize(config.widthInPixels, 1, config.cellSize).width
+    : config.widthInPixels * config.cellSize;
+  return grid + 2 * config.border;
+}
+
+// Check the settings before anything is built from them. A config with
+// errors here can't be processed: a zero layer height, for one, leaves
+// computeImageConfig dividing by zero.
+export function validateConfig(config: ComputedImageConfig, printer: PrinterProfile): PrintabilityIssue[] {
+  const issues: PrintabilityIssue[] = [];
+  const error = (field: keyof ImageConfig, message: string) => issues.push({ severity: 'error', field, message });
+  const warning = (field: keyof ImageConfig, message: string) => issues.push({ severity: 'warning', field, message });
+  const lithophane = config.mode === 'lithophane';
+
+  const widthValid = Number.isInteger(config.widthInPixels) && config.widthInPixels >= 1;
+  if (!widthValid) {
+    error('widthInPixels', 'Width must be a whole number of pixels');
+  } else if (config.widthInPixels > MAX_WIDTH_IN_PIXELS) {
+    error('widthInPixels', `Width can be at most ${MAX_WIDTH_IN_PIXELS} pixels`);
+  }
+  if (!(config.cellSize > 0)) {
+    error('cellSize', 'Cell size must be above 0');
+  } else if (widthValid && config.widthInPixels <= MAX_WIDTH_IN_PIXELS) {
+    // The depth depends on the images, so that's left to validateGeometry
+    const footprint = minimumFootprint(config);
+    if (footprint > Math.max(printer.bedWidth, printer.bedDepth)) {
+      error('widthInPixels', `The model is at least ${Math.ceil(footprint)}mm across and doesn't fit the ${format(printer.bedWidth)} x ${format(printer.bedDepth)}mm bed`);
+    }
+  }
+
+  if (!(config.layerHeight > 0)) {
+    error('layerHeight', 'Layer height must be above 0');
+  } else if (config.layerHeight > printer.nozzleDiameter * MAX_LAYER_NOZZLE_RATIO) {
+    warning('layerHeight', `Layers over ${format(printer.nozzleDiameter * MAX_LAYER_NOZZLE_RATIO)}mm are too thick for a ${format(printer.nozzleDiameter)}mm nozzle`);
+  }
+
+  if (!(config.bottomThk > 0)) {
+    error('bottomThk', 'Bottom thickness must be above 0');
+  } else if (config.layerHeight > 0 && config.bottomThk < config.layerHeight) {
+    warning('bottomThk', 'The base is thinner than one layer');
+  }
+
+  if (!Number.isInteger(config.numberOfColorsOverride) || config.numberOfColorsOverride < 0) {
+    error('numberOfColorsOverride', 'Colors must be 0 for automatic or a whole number');
+  } else if (config.numberOfColors < 2) {
+    error('numberOfColorsOverride', 'At least 2 colors are needed');
+  } else if (config.numberOfColorsOverride > 0 && config.layerHeight > 0) {
+    const layers = computeImageConfig({ ...config, numberOfColorsOverride: 0 }).numberOfColors;
+    if (config.numberOfColors > layers) {
+      warning('numberOfColorsOverride', `Only ${layers} colors get heights a layer apart; some will print the same`);
+    }
+  }
+
+  if (lithophane) {
+    if (!(config.lithophaneThickness > config.bottomThk)) {
+      error('lithophaneThickness', 'Max thickness must be above the bottom thickness');
+    }
+    if (config.lithophaneShape === 'curved' && !(config.lithophaneArc > 0 && config.lithophaneArc <= 360)) {
+      error('lithophaneArc', 'Curve must be above 0 and at most 360 degrees');
+    }
+    return issues;
+  }
+
+  if (!(config.wallWidth > 0)) {
+    error('wallWidth', 'Wall width must be above 0');
+  } else if (config.cellSize > 0 && config.wallWidth >= config.cellSize) {
+    error('wallWidth', 'Walls as wide as the cell leave no floor to shade');
+  } else if (config.wallWidth < printer.minWallWidth) {
+    warning('wallWidth', `Walls under ${format(printer.minWallWidth)}mm may not print`);
+  }
+
+  ELEVATION_FIELDS.forEach(field => {
+    const elevation = config[field];
+    if (!(elevation > 0 && elevation < 90)) {
+      error(field, 'Elevation must be between 0 and 90 degrees');
+    }
+  });
+
+  return issues;
+}
+
+// Check that a model built from a valid config fits the printer, depth and
+// height included
+export function validateGeometry(geometry: ShadowCasterGeometry, printer: PrinterProfile): PrintabilityIssue[] {
+  const issues: PrintabilityIssue[] = [];
+  if (geometry.base.length === 0) {
+    return issues;
+  }
+
+  const { size } = calculateSceneBounds(geometry);
+  // Either way round on the bed
+  const fits = (size.x <= printer.bedWidth && size.y <= printer.bedDepth) ||
+    (size.y <= printer.bedWidth && size.x <= printer.bedDepth);
+  if (!fits) {
+    issues.push({
+      severity: 'error',
+      message: `The model is ${Math.ceil(size.x)} x ${Math.ceil(size.y)}mm and doesn't fit the ${format(printer.bedWidth)} x ${format(printer.bedDepth)}mm bed`
+    });
+  }
+  if (size.z > printer.maxBuildHeight) {
+    issues.push({
+      severity: 'error',
+      message: `The model is ${Math.ceil(size.z)}mm tall, over the printer's ${format(printer.maxBuildHeight)}mm`
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,236 @@
+import { uniformLevels } from './dithering';
+import type { ProcessedImageData } from './imageProcessing';
+
+export type QuantizerAlgorithm = 'uniform' | 'kmeans' | 'median-cut' | 'neuquant';
+
+export const quantizerLabels: Record<QuantizerAlgorithm, string> = {
+  'uniform': 'Uniform steps',
+  'kmeans': 'K-means',
+  'median-cut': 'Median cut',
+  'neuquant': 'NeuQuant (Dart default)'
+};
+
+export interface QuantizerOptions {
+  // NeuQuant only: learn from every Nth pixel. The Dart version used 10.
+  samplingFactor?: number;
+  // K-means only
+  maxIterations?: number;
+}
+
+// Count how many pixels have each gray value (0-255)
+export function computeHistogram(imageData: ProcessedImageData): number[] {
+  const histogram = new Array<number>(256).fill(0);
+  for (const row of imageData.data) {
+    for (const value of row) {
+      histogram[Math.min(Math.max(Math.round(value), 0), 255)]++;
+    }
+  }
+  return histogram;
+}
+
+// Sorted, de-duplicated levels. Quantizers can return fewer than
+// numberOfColors levels when the image has fewer distinct tones.
+function normalizeLevels(levels: number[]): number[] {
+  const rounded = levels.map(level => Math.round(level * 100) / 100);
+  return [...new Set(rounded)].sort((a, b) => a - b);
+}
+
+function distinctValues(histogram: number[]): number[] {
+  const values: number[] = [];
+  histogram.forEach((count, value) => {
+    if (count > 0) {
+      values.push(value);
+    }
+  });
+  return values;
+}
+
+export function kMeansLevels(
+  histogram: number[],
+  numberOfColors: number,
+  maxIterations = 50
+): number[] {
+  const values = distinctValues(histogram);
+  if (values.length <= numberOfColors) {
+    return normalizeLevels(values);
+  }
+
+  // Seed with median cut so Lloyd's algorithm starts near a good split and
+  // doesn't get stuck with two centroids inside the same cluster
+  let centroids = medianCutLevels(histogram, numberOfColors);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const sums = new Array<number>(centroids.length).fill(0);
+    const counts = new Array<number>(centroids.length).fill(0);
+
+    for (const value of values) {
+      let best = 0;
+      for (let c = 1; c < centroids.length; c++) {
+        if (Math.abs(value - centroids[c]) < Math.abs(value - centroids[best])) {
+          best = c;
+        }
+      }
+      sums[best] += value * histogram[value];
+      counts[best] += histogram[value];
+    }
+
+    let moved = false;
+    const next = centroids.map((centroid, c) => {
+      if (counts[c] === 0) {
+        return centroid;
+      }
+      const mean = sums[c] / counts[c];
+      if (Math.abs(mean - centroid) > 1e-3) {
+        moved = true;
+      }
+      return mean;
+    });
+
+    centroids = next;
+    if (!moved) {
+      break;
+    }
+  }
+
+  return normalizeLevels(centroids);
+}
+
+export function medianCutLevels(histogram: number[], numberOfColors: number): number[] {
+  const values = distinctValues(histogram);
+  if (values.length <= numberOfColors) {
+    return normalizeLevels(values);
+  }
+
+  // Each box is a contiguous run of distinct gray values
+  const boxes: number[][] = [values];
+
+  while (boxes.length < numberOfColors) {
+    // Split the box with the widest tonal range, breaking ties by population
+    let widest = -1;
+    let widestScore = -1;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) {
+        return;
+      }
+      const range = box[box.length - 1] - box[0];
+      const population = box.reduce((sum, value) => sum + histogram[value], 0);
+      const score = range * 1e9 + population;
+      if (score > widestScore) {
+        widest = i;
+        widestScore = score;
+      }
+    });
+
+    if (widest === -1) {
+      break;
+    }
+
+    const box = boxes[widest];
+    const population = box.reduce((sum, value) => sum + histogram[value], 0);
+
+    // Split at the weighted median, keeping at least one value on each side
+    let seen = 0;
+    let splitIndex = 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      seen += histogram[box[i]];
+      splitIndex = i + 1;
+      if (seen >= population / 2) {
+        break;
+      }
+    }
+
+    boxes.splice(widest, 1, box.slice(0, splitIndex), box.slice(splitIndex));
+  }
+
+  return normalizeLevels(boxes.map(box => {
+    const population = box.reduce((sum, value) => sum + histogram[value], 0);
+    return box.reduce((sum, value) => sum + value * histogram[value], 0) / population;
+  }));
+}
+
+// A one dimensional take on Dekker's NeuQuant: a self-organising map whose
+// neurons are pulled towards sampled pixels, with the learning rate and
+// neighbourhood radius shrinking as training progresses. Like the original,
+// neurons that win too often are handicapped so idle ones migrate to busy
+// parts of the histogram instead of sitting on tones the image never uses.
+export function neuQuantLevels(
+  imageData: ProcessedImageData,
+  numberOfColors: number,
+  samplingFactor = 10
+): number[] {
+  const histogram = computeHistogram(imageData);
+  const values = distinctValues(histogram);
+  if (values.length <= numberOfColors) {
+    return normalizeLevels(values);
+  }
+
+  const pixels = imageData.data.flat();
+  const neurons = uniformLevels(numberOfColors);
+
+  // Visit pixels with a prime stride so samples are spread over the whole image
+  const primes = [499, 491, 487, 503];
+  const stride = primes.find(prime => pixels.length % prime !== 0) ?? 1;
+  const samples = Math.max(Math.floor(pixels.length / Math.max(samplingFactor, 1)), numberOfColors * 10);
+  const cycles = 100;
+  const samplesPerCycle = Math.max(Math.floor(samples / cycles), 1);
+
+  const frequency = new Array<number>(numberOfColors).fill(1 / numberOfColors);
+  const beta = 1 / 32;
+  const gamma = 255;
+
+  let alpha = 1.0;
+  const alphaDecay = 30 + (samplingFactor - 1) / 3;
+  let radius = numberOfColors / 8;
+  let position = 0;
+
+  for (let i = 0; i < samples; i++) {
+    const value = pixels[position];
+    position = (position + stride) % pixels.length;
+
+    let winner = 0;
+    let winnerDistance = Infinity;
+    for (let n = 0; n < neurons.length; n++) {
+      const bias = gamma * (1 / numberOfColors - frequency[n]);
+      const distance = Math.abs(neurons[n] - value) - bias;
+      if (distance < winnerDistance) {
+        winner = n;
+        winnerDistance = distance;
+      }
+    }
+
+    for (let n = 0; n < neurons.length; n++) {
+      frequency[n] += beta * ((n === winner ? 1 : 0) - frequency[n]);
+    }
+
+    const reach = Math.floor(radius);
+    for (let n = Math.max(winner - reach, 0); n <= Math.min(winner + reach, neurons.length - 1); n++) {
+      const falloff = reach === 0 ? 1 : 1 - ((n - winner) / (reach + 1)) ** 2;
+      neurons[n] += alpha * falloff * (value - neurons[n]);
+    }
+
+    if ((i + 1) % samplesPerCycle === 0) {
+      alpha -= alpha / alphaDecay;
+      radius -= radius / 30;
+    }
+  }
+
+  return normalizeLevels(neurons);
+}
+
+export function computeLevels(
+  imageData: ProcessedImageData,
+  numberOfColors: number,
+  algorithm: QuantizerAlgorithm = 'uniform',
+  options: QuantizerOptions = {}
+): number[] {
+  switch (algorithm) {
+    case 'kmeans':
+      return kMeansLevels(computeHistogram(imageData), numberOfColors, options.maxIterations);
+    case 'median-cut':
+      return medianCutLevels(computeHistogram(imageData), numberOfColors);
+    case 'neuquant':
+      return neuQuantLevels(imageData, numberOfColors, options.samplingFactor);
+    default:
+      return uniformLevels(numberOfColors);
+  }
+}
@@ -0,0 +1,199 @@
+import { rotationDegrees, transformedSize } from './imageCrop';
+import type { ImageCrop, PixelRect } from './imageCrop';
+
+// How source pixels are combined when an image is resized to the model grid
+export type ResampleFilter = 'area' | 'bilinear' | 'lanczos';
+
+export const resampleFilterLabels: Record<ResampleFilter, string> = {
+  area: 'Area average',
+  bilinear: 'Bilinear',
+  lanczos: 'Lanczos (sharpest)'
+};
+
+// A single-channel image of unrounded gray levels
+export interface GrayPlane {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// Sampled lightness outside the source image: white makes the shortest walls
+const OUTSIDE = 255;
+
+// Bilinear interpolation at (x, y) in pixel coordinates, pixel centres at
+// half-integers, of an image read through at(column, row). Points past the
+// outer pixel centres take the edge value.
+export function interpolateBilinear(
+  width: number,
+  height: number,
+  at: (column: number, row: number) => number,
+  x: number,
+  y: number
+): number {
+  const fx = Math.min(Math.max(x - 0.5, 0), width - 1);
+  const fy = Math.min(Math.max(y - 0.5, 0), height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const top = at(x0, y0) * (1 - tx) + at(x1, y0) * tx;
+  const bottom = at(x0, y1) * (1 - tx) + at(x1, y1) * tx;
+  return top * (1 - ty) + bottom * ty;
+}
+
+function sampleBilinear(plane: GrayPlane, x: number, y: number): number {
+  const epsilon = 1e-6;
+  if (x < -epsilon || y < -epsilon || x > plane.width + epsilon || y > plane.height + epsilon) {
+    return OUTSIDE;
+  }
+  return interpolateBilinear(plane.width, plane.height, (px, py) => plane.data[py * plane.width + px], x, y);
+}
+
+// Rotate and flip a plane the way drawCroppedImage does, into the bounding
+// box of the rotated image. Areas outside the source are white. Quarter turns
+// and flips land on pixel centres, so they copy pixels exactly.
+export function orientPlane(plane: GrayPlane, crop: ImageCrop): GrayPlane {
+  const size = transformedSize(plane.width, plane.height, crop);
+  const width = Math.max(1, Math.ceil(size.width));
+  const height = Math.max(1, Math.ceil(size.height));
+  const data = new Float32Array(width * height);
+
+  const radians = rotationDegrees(crop) * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const flipX = crop.flipHorizontal ? -1 : 1;
+  const flipY = crop.flipVertical ? -1 : 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Undo the rotation about the centre, then the flip
+      const dx = x + 0.5 - size.width / 2;
+      const dy = y + 0.5 - size.height / 2;
+      const sx = (dx * cos + dy * sin) * flipX + plane.width / 2;
+      const sy = (-dx * sin + dy * cos) * flipY + plane.height / 2;
+      data[y * width + x] = sampleBilinear(plane, sx, sy);
+    }
+  }
+  return { width, height, data };
+}
+
+interface Contribution {
+  first: number;
+  weights: number[];
+}
+
+function normalize(first: number, weights: number[]): Contribution {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return { first, weights: total !== 0 ? weights.map(weight => weight / total) : weights.map(() => 1 / weights.length) };
+}
+
+// For each of dstLength output pixels, the source pixels its span of
+// [start, start + span) covers and how much of each
+function areaContributions(srcLength: number, start: number, span: number, dstLength: number): Contribution[] {
+  const scale = span / dstLength;
+  return Array.from({ length: dstLength }, (_, i) => {
+    const from = Math.max(start + i * scale, 0);
+    const to = Math.min(start + (i + 1) * scale, srcLength);
+    const first = Math.min(Math.floor(from), srcLength - 1);
+    const last = Math.max(Math.ceil(to) - 1, first);
+    const weights: number[] = [];
+    for (let j = first; j <= last; j++) {
+      weights.push(Math.max(0, Math.min(to, j + 1) - Math.max(from, j)));
+    }
+    return normalize(first, weights);
+  });
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+// Kernels and their radius in source pixels at 1:1
+const KERNELS: Record<Exclude<ResampleFilter, 'area'>, { radius: number; weight: (x: number) => number }> = {
+  bilinear: { radius: 1, weight: x => Math.max(0, 1 - Math.abs(x)) },
+  lanczos: { radius: 3, weight: x => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) }
+};
+
+// Weights of a kernel centred on each output pixel. When shrinking, the
+// kernel is stretched over the output pixel's footprint so it still
+// averages every source pixel instead of skipping some. Pixels beyond the
+// edge repeat the edge.
+function kernelContributions(
+  srcLength: number,
+  start: number,
+  span: number,
+  dstLength: number,
+  filter: Exclude<ResampleFilter, 'area'>
+): Contribution[] {
+  const { radius, weight } = KERNELS[filter];
+  const scale = span / dstLength;
+  const stretch = Math.max(scale, 1);
+  const support = radius * stretch;
+
+  return Array.from({ length: dstLength }, (_, i) => {
+    const center = start + (i + 0.5) * scale;
+    const from = Math.floor(center - support);
+    const to = Math.ceil(center + support);
+    const first = Math.min(Math.max(from, 0), srcLength - 1);
+    const last = Math.min(Math.max(to, 0), srcLength - 1);
+    const weights = new Array(last - first + 1).fill(0);
+    for (let j = from; j <= to; j++) {
+      const clamped = Math.min(Math.max(j, 0), srcLength - 1);
+      weights[clamped - first] += weight((j + 0.5 - center) / stretch);
+    }
+    return normalize(first, weights);
+  });
+}
+
+function contributions(
+  srcLength: number,
+  start: number,
+  span: number,
+  dstLength: number,
+  filter: ResampleFilter
+): Contribution[] {
+  return filter === 'area'
+    ? areaContributions(srcLength, start, span, dstLength)
+    : kernelContributions(srcLength, start, span, dstLength, filter);
+}
+
+// Resize the rect of a plane to width x height, filtering across then down.
+// Lanczos can overshoot, so values may fall slightly outside 0-255.
+export function resamplePlane(
+  plane: GrayPlane,
+  rect: PixelRect,
+  width: number,
+  height: number,
+  filter: ResampleFilter
+): GrayPlane {
+  const columns = contributions(plane.width, rect.x, rect.width, width, filter);
+  const rows = contributions(plane.height, rect.y, rect.height, height, filter);
+
+  const across = new Float32Array(width * plane.height);
+  for (let y = 0; y < plane.height; y++) {
+    const row = y * plane.width;
+    columns.forEach(({ first, weights }, x) => {
+      let sum = 0;
+      for (let j = 0; j < weights.length; j++) {
+        sum += weights[j] * plane.data[row + first + j];
+      }
+      across[y * width + x] = sum;
+    });
+  }
+
+  const data = new Float32Array(width * height);
+  rows.forEach(({ first, weights }, y) => {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let j = 0; j < weights.length; j++) {
+        sum += weights[j] * across[(first + j) * width + x];
+      }
+      data[y * width + x] = sum;
+    }
+  });
+  return { width, height, data };
+}
@@ -0,0 +1,89 @@
+import { mergeAdjacentWalls } from './geometryGenerator';
+import type { ShadowCasterGeometry, WallGeometry } from './geometryGenerator';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+export interface SCADOptions {
+  // Write BOSL `cuboid` calls like the original Dart generator. Otherwise use
+  // plain `cube`, which needs no libraries.
+  useBOSL: boolean;
+  // Merge runs of equal-height walls, for a shorter script that renders faster
+  mergeWalls: boolean;
+}
+
+const BOSL_HEADER = [
+  'include <BOSL/constants.scad>',
+  'use <BOSL/transforms.scad>',
+  'use <BOSL/shapes.scad>'
+];
+
+// Millimetres to four decimals, without trailing zeros
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1e4) / 1e4);
+}
+
+function vector(values: readonly number[]): string {
+  return `[${values.map(formatNumber).join(', ')}]`;
+}
+
+// One box, centred on its position like the geometry describes it
+function boxStatement(box: WallGeometry, options: SCADOptions): string {
+  if (options.useBOSL) {
+    const turn = box.rotation ? `zrot(${formatNumber(box.rotation)}) ` : '';
+    return `move(${vector(box.position)}) ${turn}cuboid(${vector(box.size)});`;
+  }
+  const turn = box.rotation ? `rotate([0, 0, ${formatNumber(box.rotation)}]) ` : '';
+  return `translate(${vector(box.position)}) ${turn}cube(${vector(box.size)}, center=true);`;
+}
+
+function moduleBlock(name: string, boxes: WallGeometry[], options: SCADOptions): string[] {
+  return [
+    `module ${name}() {`,
+    ...boxes.map(box => `  ${boxStatement(box, options)}`),
+    '}'
+  ];
+}
+
+// Build an OpenSCAD script for the model. The base and each wall direction are
+// separate modules, so the script can be edited (text, mounting holes) by
+// changing only the final union.
+export function createSCADData(
+  geometry: ShadowCasterGeometry,
+  config: ComputedImageConfig,
+  options: SCADOptions
+): string {
+  const model = options.mergeWalls ? mergeAdjacentWalls(geometry) : geometry;
+  // The third and fourth wall sets are only written when the model has them
+  const hasRightWalls = model.rightWalls.length > 0;
+  const hasDownWalls = model.downWalls.length > 0;
+
+  return [
+    `// ${config.outputFilename.replace(/\.stl$/i, '')}`,
+    `// Horizontal image: ${config.doHorizImage ? config.horizImageFilename : 'none'}`,
+    `// Vertical image: ${config.doVertImage ? config.vertImageFilename : 'none'}`,
+    ...(hasRightWalls ? [`// Right image: ${config.rightImageFilename}`] : []),
+    ...(hasDownWalls ? [`// Down image: ${config.downImageFilename}`] : []),
+    `// ${config.widthInPixels}px, ${formatNumber(config.cellSize)}mm cells, ${formatNumber(config.wallWidth)}mm walls, ${formatNumber(config.bottomThk)}mm base`,
+    '',
+    ...(options.useBOSL ? [...BOSL_HEADER, ''] : []),
+    ...moduleBlock('base', model.base, options),
+    '',
+    // Lit from the left, casting the horizontal image
+    ...moduleBlock('left_walls', model.leftWalls, options),
+    '',
+    // Lit from behind, casting the vertical image
+    ...moduleBlock('up_walls', model.upWalls, options),
+    '',
+    // Lit from the right, casting the third image
+    ...(hasRightWalls ? [...moduleBlock('right_walls', model.rightWalls, options), ''] : []),
+    // Lit from the front, casting the fourth image
+    ...(hasDownWalls ? [...moduleBlock('down_walls', model.downWalls, options), ''] : []),
+    'union() {',
+    '  base();',
+    '  left_walls();',
+    '  up_walls();',
+    ...(hasRightWalls ? ['  right_walls();'] : []),
+    ...(hasDownWalls ? ['  down_walls();'] : []),
+    '}',
+    ''
+  ].join('\n');
+}
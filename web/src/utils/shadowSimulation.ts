@@ -0,0 +1,196 @@
+import { HEX_WALL_ANGLES, hexCellAt } from './hexGrid';
+import { unwrapWall } from './cylinder';
+import { grayForLitFraction, lightElevation, openFloorWidth } from './heightModel';
+import type { ProcessedImageData } from './imageProcessing';
+import type { CellLayout, ShadowCasterGeometry, WallGeometry } from './geometryGenerator';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+// Which image's walls are lit. Hex grids have no down walls.
+export type ShadowDirection = 'horizontal' | 'vertical' | 'right' | 'down';
+
+export const SHADOW_DIRECTIONS: readonly ShadowDirection[] = ['horizontal', 'vertical', 'right', 'down'];
+
+// The bottom edge of a hex faces straight down, as on a square grid
+const HEX_ANGLES: Record<ShadowDirection, number> = {
+  horizontal: HEX_WALL_ANGLES.left,
+  vertical: HEX_WALL_ANGLES.up,
+  right: HEX_WALL_ANGLES.right,
+  down: 270
+};
+
+// Default elevation of the design lights above the base. At 45 degrees a
+// wall as tall as the open floor shades its whole cell.
+export const DEFAULT_LIGHT_ELEVATION = 45;
+
+// Fraction (0-1) of an open floor openFloor mm wide covered by the shadow
+// of a wall of the given height above the base.
+export function shadowCoverage(
+  wallHeight: number,
+  openFloor: number,
+  elevationDegrees = DEFAULT_LIGHT_ELEVATION
+): number {
+  if (openFloor <= 0) {
+    return 1;
+  }
+
+  const shadowLength = wallHeight / Math.tan(elevationDegrees * Math.PI / 180);
+  return Math.min(Math.max(shadowLength / openFloor, 0), 1);
+}
+
+// Grid cell a wall belongs to. Columns count from the left edge, rows count
+// up from the bottom edge of the base. Hex walls are stepped back from their
+// edge to the cell centre.
+function wallCell(
+  wall: WallGeometry,
+  config: ComputedImageConfig,
+  direction: ShadowDirection
+): { column: number; row: number } {
+  if (config.layout === 'hex') {
+    const radians = HEX_ANGLES[direction] * Math.PI / 180;
+    const inset = config.cellSize / 2 - config.wallWidth / 2;
+    return hexCellAt(
+      wall.position[0] - inset * Math.cos(radians),
+      wall.position[1] - inset * Math.sin(radians),
+      config.cellSize,
+      config.border
+    );
+  }
+  return {
+    column: Math.floor((wall.position[0] - config.border) / config.cellSize + 1e-6),
+    row: Math.floor((wall.position[1] - config.border) / config.cellSize + 1e-6)
+  };
+}
+
+// On a square grid a right wall stands back to back with the left wall of
+// the next column, and a down wall with the up wall of the row below, in
+// the same cell. Lit from either side, the taller of the two casts the
+// shadow. Column offset from a wall's cell to its partner's.
+const BACK_TO_BACK: Record<ShadowDirection, [ShadowDirection, number]> = {
+  horizontal: ['right', -1],
+  right: ['horizontal', 1],
+  vertical: ['down', 0],
+  down: ['vertical', 0]
+};
+
+// On a square grid the right wall of a cell faces its left wall across the
+// open floor, and the down wall the up wall that shades the same cell. Up
+// walls stand just above the top edge of the cell they shade, so they fall
+// in the cell above. Row offset from a wall's cell to the facing wall's.
+const FACING: Record<ShadowDirection, [ShadowDirection, number]> = {
+  horizontal: ['right', 0],
+  right: ['horizontal', 0],
+  vertical: ['down', -1],
+  down: ['vertical', 1]
+};
+
+const WALLS_FACING: Record<ShadowDirection, (geometry: ShadowCasterGeometry) => WallGeometry[]> = {
+  horizontal: geometry => geometry.leftWalls,
+  vertical: geometry => geometry.upWalls,
+  right: geometry => geometry.rightWalls,
+  down: geometry => geometry.downWalls
+};
+
+// Render the image a set of walls is expected to cast when lit from the
+// side they face: left walls for the horizontal light, up walls for the
+// vertical one, right and down walls for the lights opposite those, at the
+// image's design elevation unless given. Each pixel's brightness is the
+// unshaded fraction of its cell's open floor, encoded by the darkness model.
+// A wall backed by a taller one shades as far as that one does, and a wall
+// facing another across its cell shades only the floor between them; other
+// walls' shading is ignored. A cylinder is judged unwrapped, each facet lit
+// square on.
+export function simulateShadowImage(
+  geometry: ShadowCasterGeometry,
+  config: ComputedImageConfig,
+  direction: ShadowDirection,
+  elevationDegrees = lightElevation(config, direction)
+): ProcessedImageData | null {
+  const unwrap = (walls: WallGeometry[]) => config.layout === 'square' && config.shape === 'cylinder'
+    ? walls.map(wall => unwrapWall(wall, config))
+    : walls;
+  const heightAboveBase = (wall: WallGeometry) => wall.position[2] + wall.size[2] / 2 - config.bottomThk;
+  const walls = unwrap(WALLS_FACING[direction](geometry));
+  if (walls.length === 0) {
+    return null;
+  }
+
+  const cells = walls.map(wall => ({ ...wallCell(wall, config, direction), wall }));
+  const backing = new Map<string, number>();
+  const facing = new Set<string>();
+  if (config.layout === 'square') {
+    const [partner, columnOffset] = BACK_TO_BACK[direction];
+    unwrap(WALLS_FACING[partner](geometry)).forEach(wall => {
+      const { column, row } = wallCell(wall, config, partner);
+      backing.set(`${column - columnOffset},${row}`, heightAboveBase(wall));
+    });
+    const [opposite, rowOffset] = FACING[direction];
+    unwrap(WALLS_FACING[opposite](geometry)).forEach(wall => {
+      const { column, row } = wallCell(wall, config, opposite);
+      facing.add(`${column},${row - rowOffset}`);
+    });
+  }
+  // A loop rather than spreading into Math.min, which overflows the stack
+  // on large grids
+  let minColumn = Infinity, maxColumn = -Infinity, minRow = Infinity, maxRow = -Infinity;
+  for (const { column, row } of cells) {
+    minColumn = Math.min(minColumn, column);
+    maxColumn = Math.max(maxColumn, column);
+    minRow = Math.min(minRow, row);
+    maxRow = Math.max(maxRow, row);
+  }
+
+  const width = maxColumn - minColumn + 1;
+  const height = maxRow - minRow + 1;
+  const data: number[][] = Array.from({ length: height }, () => new Array<number>(width).fill(255));
+
+  cells.forEach(({ column, row, wall }) => {
+    const key = `${column},${row}`;
+    const height = Math.max(heightAboveBase(wall), backing.get(key) ?? 0);
+    const coverage = shadowCoverage(height, openFloorWidth(config, facing.has(key)), elevationDegrees);
+    data[maxRow - row][column - minColumn] = Math.round(grayForLitFraction(1 - coverage, config.darknessModel));
+  });
+
+  return {
+    data,
+    width,
+    height
+  };
+}
+
+export interface LightAngles {
+  // Compass direction the light comes from, in degrees counterclockwise from +x
+  azimuth: number;
+  // Angle above the base plane
+  elevation: number;
+}
+
+// The grazing light each image is designed for: left walls are lit from the
+// left (-x), up walls from the top of the image (+y), right walls from the
+// right and down walls from the bottom. On a hex grid each set faces its
+// edge's normal.
+export function designLightAngles(
+  direction: ShadowDirection,
+  layout: CellLayout = 'square',
+  elevation = DEFAULT_LIGHT_ELEVATION
+): LightAngles {
+  const squareAngles: Record<ShadowDirection, number> = { horizontal: 180, vertical: 90, right: 0, down: 270 };
+  return {
+    azimuth: layout === 'hex' ? HEX_ANGLES[direction] : squareAngles[direction],
+    elevation
+  };
+}
+
+// Position of a light at the given angles, distance away from target
+export function lightPosition(
+  angles: LightAngles,
+  target: [number, number, number],
+  distance: number
+): [number, number, number] {
+  const azimuth = angles.azimuth * Math.PI / 180;
+  const elevation = angles.elevation * Math.PI / 180;
+  return [
+    target[0] + distance * Math.cos(elevation) * Math.cos(azimuth),
+    target[1] + distance * Math.cos(elevation) * Math.sin(azimuth),
+    target[2] + distance * Math.sin(elevation)
+  ];
+}
@@ -1,164 +1,137 @@
-import * as THREE from 'three';
-import { STLExporter } from 'three-stdlib';
-import type { ShadowCasterGeometry } from './geometryGenerator';
-import type { ComputedImageConfig } from '../types/ImageConfig';
-
-export function exportToSTL(
-  geometry: ShadowCasterGeometry,
-  config: ComputedImageConfig,
-  filename?: string
-): void {
-  // Create a temporary group with all the geometry
-  const group = new THREE.Group();
-
-  // Add base
-  const baseGeometry = new THREE.BoxGeometry(...geometry.base.size);
-  const baseMesh = new THREE.Mesh(baseGeometry, new THREE.MeshBasicMaterial());
-  baseMesh.position.set(...geometry.base.position);
-  group.add(baseMesh);
-
-  // Add left walls
-  geometry.leftWalls.forEach(wall => {
-    const wallGeometry = new THREE.BoxGeometry(...wall.size);
-    const wallMesh = new THREE.Mesh(wallGeometry, new THREE.MeshBasicMaterial());
-    wallMesh.position.set(...wall.position);
-    group.add(wallMesh);
-  });
-
-  // Add up walls
-  geometry.upWalls.forEach(wall => {
-    const wallGeometry = new THREE.BoxGeometry(...wall.size);
-    const wallMesh = new THREE.Mesh(wallGeometry, new THREE.MeshBasicMaterial());
-    wallMesh.position.set(...wall.position);
-    group.add(wallMesh);
-  });
-
-  // Merge all geometries into a single geometry for better STL export
-  const mergedGeometry = mergeGeometries(group);
-
-  // Export to STL
-  const exporter = new STLExporter();
-  
-  // Create a temporary mesh for the exporter
-  const tempMesh = new THREE.Mesh(mergedGeometry, new THREE.MeshBasicMaterial());
-  const stlData = exporter.parse(tempMesh, { binary: true });
-
-  // Create download (binary STL files are much smaller)
-  const blob = new Blob([stlData], { type: 'application/octet-stream' });
-  const url = URL.createObjectURL(blob);
-
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename || config.outputFilename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-
-  URL.revokeObjectURL(url);
+import { allWalls, mergeAdjacentWalls, rotateWallOffset } from './geometryGenerator';
+import { buildManifoldMesh } from './manifoldMesh';
+import type { IndexedMesh, MeshConfig } from './manifoldMesh';
+import type { ShadowCasterGeometry, WallGeometry } from './geometryGenerator';
+
+export interface STLOptions {
+  // Export the union of base and walls as one watertight mesh instead of
+  // a set of overlapping boxes
+  manifold: boolean;
+  // Merge runs of equal-height walls; only affects the box export
+  mergeWalls: boolean;
 }
 
-function mergeGeometries(group: THREE.Group): THREE.BufferGeometry {
-  const geometries: THREE.BufferGeometry[] = [];
-
-  group.traverse((child) => {
-    if (child instanceof THREE.Mesh && child.geometry instanceof THREE.BufferGeometry) {
-      // Clone geometry and apply the mesh's transform
-      const geometry = child.geometry.clone();
-      
-      // Apply the mesh's matrix to the geometry
-      const matrix = new THREE.Matrix4();
-      matrix.compose(child.position, child.quaternion, child.scale);
-      geometry.applyMatrix4(matrix);
-      
-      geometries.push(geometry);
-    }
-  });
-
-  if (geometries.length === 0) {
-    return new THREE.BufferGeometry();
-  }
+// Binary STL layout: an 80-byte header, a uint32 triangle count, then per
+// triangle a normal and three vertices as float32s and a uint16 attribute
+const HEADER_BYTES = 80;
+const TRIANGLE_BYTES = 50;
+const BOX_TRIANGLES = 12;
 
-  // Use BufferGeometryUtils.mergeGeometries if available, otherwise merge manually
-  return mergeBufferGeometries(geometries);
+export function stlByteLength(triangleCount: number): number {
+  return HEADER_BYTES + 4 + TRIANGLE_BYTES * triangleCount;
 }
 
-function mergeBufferGeometries(geometries: THREE.BufferGeometry[]): THREE.BufferGeometry {
-  if (geometries.length === 0) {
-    return new THREE.BufferGeometry();
-  }
-
-  if (geometries.length === 1) {
-    return geometries[0];
+// The faces of a box in the order THREE.BoxGeometry builds them (+x, -x, +y,
+// -y, +z, -z), so the output matches what we exported through three.js: the
+// in-plane axes u and v with their directions, the normal axis w, and which
+// box dimensions span the plane and offset it (negative for the far side).
+const BOX_FACES: {
+  u: number; v: number; w: number;
+  udir: number; vdir: number;
+  width: number; height: number; depth: number; depthSign: number;
+}[] = [
+  { u: 2, v: 1, w: 0, udir: -1, vdir: -1, width: 2, height: 1, depth: 0, depthSign: 1 },
+  { u: 2, v: 1, w: 0, udir: 1, vdir: -1, width: 2, height: 1, depth: 0, depthSign: -1 },
+  { u: 0, v: 2, w: 1, udir: 1, vdir: 1, width: 0, height: 2, depth: 1, depthSign: 1 },
+  { u: 0, v: 2, w: 1, udir: 1, vdir: -1, width: 0, height: 2, depth: 1, depthSign: -1 },
+  { u: 0, v: 1, w: 2, udir: 1, vdir: -1, width: 0, height: 1, depth: 2, depthSign: 1 },
+  { u: 0, v: 1, w: 2, udir: -1, vdir: -1, width: 0, height: 1, depth: 2, depthSign: -1 }
+];
+
+// Corners of a face quad, as (x step, y step) across the plane, and the two
+// triangles over them
+const QUAD_CORNERS = [[0, 0], [1, 0], [0, 1], [1, 1]];
+const QUAD_TRIANGLES = [[0, 2, 1], [2, 3, 1]];
+
+// Writes triangles straight into a buffer sized up front for the whole file
+class BinarySTLWriter {
+  readonly view: DataView;
+  private offset = HEADER_BYTES + 4;
+
+  constructor(triangleCount: number) {
+    this.view = new DataView(new ArrayBuffer(stlByteLength(triangleCount)));
+    this.view.setUint32(HEADER_BYTES, triangleCount, true);
   }
 
-  // Simple merge implementation
-  const merged = new THREE.BufferGeometry();
-  
-  let vertexCount = 0;
-  let indexCount = 0;
-
-  // Count total vertices and indices
-  geometries.forEach(geometry => {
-    const positions = geometry.getAttribute('position');
-    if (positions) {
-      vertexCount += positions.count;
-    }
-    
-    const index = geometry.getIndex();
-    if (index) {
-      indexCount += index.count;
-    } else {
-      // Non-indexed geometry
-      indexCount += positions ? positions.count : 0;
-    }
-  });
-
-  // Create merged arrays
-  const mergedPositions = new Float32Array(vertexCount * 3);
-  const mergedNormals = new Float32Array(vertexCount * 3);
-  const mergedIndices = new Uint32Array(indexCount);
-
-  let positionOffset = 0;
-  let normalOffset = 0;
-  let indexOffset = 0;
-  let vertexOffset = 0;
-
-  geometries.forEach(geometry => {
-    const positions = geometry.getAttribute('position');
-    const normals = geometry.getAttribute('normal');
-    const index = geometry.getIndex();
-
-    if (positions) {
-      mergedPositions.set(positions.array as Float32Array, positionOffset);
-      positionOffset += positions.array.length;
+  // Vertices are float32 values, as stored in a three.js position buffer
+  triangle(a: ArrayLike<number>, b: ArrayLike<number>, c: ArrayLike<number>): void {
+    // Normal as three.js computes it: (c - b) x (a - b), normalised twice
+    const cbx = c[0] - b[0], cby = c[1] - b[1], cbz = c[2] - b[2];
+    const abx = a[0] - b[0], aby = a[1] - b[1], abz = a[2] - b[2];
+    let nx = cby * abz - cbz * aby;
+    let ny = cbz * abx - cbx * abz;
+    let nz = cbx * aby - cby * abx;
+    for (let pass = 0; pass < 2; pass++) {
+      const scale = 1 / (Math.sqrt(nx * nx + ny * ny + nz * nz) || 1);
+      nx *= scale;
+      ny *= scale;
+      nz *= scale;
     }
 
-    if (normals) {
-      mergedNormals.set(normals.array as Float32Array, normalOffset);
-      normalOffset += normals.array.length;
+    this.float(nx);
+    this.float(ny);
+    this.float(nz);
+    for (const vertex of [a, b, c]) {
+      this.float(vertex[0]);
+      this.float(vertex[1]);
+      this.float(vertex[2]);
     }
+    this.view.setUint16(this.offset, 0, true);
+    this.offset += 2;
+  }
+
+  private float(value: number): void {
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+}
 
-    if (index) {
-      // Indexed geometry
-      for (let i = 0; i < index.count; i++) {
-        mergedIndices[indexOffset + i] = index.getX(i) + vertexOffset;
-      }
-      indexOffset += index.count;
-      vertexOffset += positions ? positions.count : 0;
-    } else {
-      // Non-indexed geometry
-      const count = positions ? positions.count : 0;
-      for (let i = 0; i < count; i++) {
-        mergedIndices[indexOffset + i] = vertexOffset + i;
-      }
-      indexOffset += count;
-      vertexOffset += count;
+function writeBox(writer: BinarySTLWriter, box: WallGeometry): void {
+  for (const face of BOX_FACES) {
+    const width = box.size[face.width];
+    const height = box.size[face.height];
+    const depth = face.depthSign * box.size[face.depth];
+
+    const corners = QUAD_CORNERS.map(([ix, iy]) => {
+      const local = [0, 0, 0];
+      local[face.u] = Math.fround((ix * width - width / 2) * face.udir);
+      local[face.v] = Math.fround((iy * height - height / 2) * face.vdir);
+      local[face.w] = Math.fround(depth / 2);
+      [local[0], local[1]] = rotateWallOffset(box, local[0], local[1]);
+      return local.map((value, axis) => Math.fround(value + box.position[axis]));
+    });
+
+    for (const [a, b, c] of QUAD_TRIANGLES) {
+      writer.triangle(corners[a], corners[b], corners[c]);
     }
-  });
+  }
+}
 
-  merged.setAttribute('position', new THREE.BufferAttribute(mergedPositions, 3));
-  merged.setAttribute('normal', new THREE.BufferAttribute(mergedNormals, 3));
-  merged.setIndex(new THREE.BufferAttribute(mergedIndices, 1));
+function writeMesh(writer: BinarySTLWriter, mesh: IndexedMesh): void {
+  const { positions, indices } = mesh;
+  for (let i = 0; i < indices.length; i += 3) {
+    writer.triangle(
+      positions.subarray(indices[i] * 3, indices[i] * 3 + 3),
+      positions.subarray(indices[i + 1] * 3, indices[i + 1] * 3 + 3),
+      positions.subarray(indices[i + 2] * 3, indices[i + 2] * 3 + 3)
+    );
+  }
+}
+
+// Build the binary STL for a model, writing each triangle straight into the
+// output buffer. Uses no DOM APIs, so it can run in the pipeline worker.
+export function createSTLData(geometry: ShadowCasterGeometry, config: MeshConfig, options: STLOptions): DataView {
+  if (options.manifold) {
+    const mesh = buildManifoldMesh(geometry, config);
+    const writer = new BinarySTLWriter(mesh.indices.length / 3);
+    writeMesh(writer, mesh);
+    return writer.view;
+  }
 
-  return merged;
-}
\ No newline at end of file
+  // One closed box per wall, overlapping where walls meet
+  const model = options.mergeWalls ? mergeAdjacentWalls(geometry) : geometry;
+  const boxes = [...model.base, ...allWalls(model)];
+  const writer = new BinarySTLWriter(boxes.length * BOX_TRIANGLES);
+  boxes.forEach(box => writeBox(writer, box));
+  return writer.view;
+}
@@ -0,0 +1,133 @@
+import { strToU8, zipSync } from 'fflate';
+import { buildBoxUnionMesh, buildManifoldMesh } from './manifoldMesh';
+import type { IndexedMesh } from './manifoldMesh';
+import type { ShadowCasterGeometry } from './geometryGenerator';
+import type { ComputedImageConfig } from '../types/ImageConfig';
+
+export interface ThreeMFOptions {
+  // Write the base, horizontal walls and vertical walls as separate objects
+  // so a slicer can give each its own filament. Otherwise the model is one
+  // watertight object.
+  separateParts: boolean;
+}
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+// Namespace for our own metadata names, as the 3MF spec requires
+const SHADOW_CASTER_NAMESPACE = 'https://github.com/Bobby-Seidensticker/shadow_caster/3mf';
+const MODEL_PATH = '3D/3dmodel.model';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/${MODEL_PATH}" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+interface ModelPart {
+  name: string;
+  color: string;
+  mesh: IndexedMesh;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Millimetres to four decimals, without trailing zeros
+function formatCoordinate(value: number): string {
+  return String(Math.round(value * 1e4) / 1e4);
+}
+
+function meshParts(geometry: ShadowCasterGeometry, config: ComputedImageConfig, options: ThreeMFOptions): ModelPart[] {
+  if (!options.separateParts) {
+    return [{ name: 'Shadow caster', color: '#C8C8C8', mesh: buildManifoldMesh(geometry, config) }];
+  }
+
+  return [
+    { name: 'Base', color: '#808080', mesh: buildBoxUnionMesh(geometry.base) },
+    { name: 'Horizontal walls', color: '#E0E0E0', mesh: buildBoxUnionMesh(geometry.leftWalls) },
+    { name: 'Vertical walls', color: '#A8C8F0', mesh: buildBoxUnionMesh(geometry.upWalls) },
+    { name: 'Right walls', color: '#F0C8A8', mesh: buildBoxUnionMesh(geometry.rightWalls) },
+    { name: 'Down walls', color: '#B8E0B0', mesh: buildBoxUnionMesh(geometry.downWalls) }
+  ].filter(part => part.mesh.indices.length > 0);
+}
+
+function objectXml(part: ModelPart, id: number, materialIndex: number): string {
+  const { positions, indices } = part.mesh;
+  const lines: string[] = [
+    `    <object id="${id}" type="model" name="${escapeXml(part.name)}" pid="1" pindex="${materialIndex}">`,
+    '      <mesh>',
+    '        <vertices>'
+  ];
+  for (let i = 0; i < positions.length; i += 3) {
+    lines.push(`          <vertex x="${formatCoordinate(positions[i])}" y="${formatCoordinate(positions[i + 1])}" z="${formatCoordinate(positions[i + 2])}"/>`);
+  }
+  lines.push('        </vertices>', '        <triangles>');
+  for (let i = 0; i < indices.length; i += 3) {
+    lines.push(`          <triangle v1="${indices[i]}" v2="${indices[i + 1]}" v3="${indices[i + 2]}"/>`);
+  }
+  lines.push('        </triangles>', '      </mesh>', '    </object>');
+  return lines.join('\n');
+}
+
+// The 3D model part of the package: millimetre units, our settings and source
+// images as metadata, and one object per part
+export function create3MFModelXml(
+  geometry: ShadowCasterGeometry,
+  config: ComputedImageConfig,
+  options: ThreeMFOptions
+): string {
+  const parts = meshParts(geometry, config, options);
+  const metadata: [string, string][] = [
+    ['Title', config.outputFilename.replace(/\.stl$/i, '')],
+    ['Application', 'Shadow Caster Web'],
+    ['sc:HorizontalImage', config.doHorizImage ? config.horizImageFilename : ''],
+    ['sc:VerticalImage', config.doVertImage ? config.vertImageFilename : ''],
+    ['sc:RightImage', geometry.rightWalls.length > 0 ? config.rightImageFilename : ''],
+    ['sc:DownImage', geometry.downWalls.length > 0 ? config.downImageFilename : ''],
+    ['sc:Config', JSON.stringify(config)]
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NAMESPACE}" xmlns:sc="${SHADOW_CASTER_NAMESPACE}">`,
+    ...metadata.map(([name, value]) => `  <metadata name="${name}">${escapeXml(value)}</metadata>`),
+    '  <resources>',
+    '    <basematerials id="1">',
+    ...parts.map(part => `      <base name="${escapeXml(part.name)}" displaycolor="${part.color}"/>`),
+    '    </basematerials>',
+    // Object ids start after the material group
+    ...parts.map((part, index) => objectXml(part, index + 2, index)),
+    '  </resources>',
+    '  <build>',
+    ...parts.map((_, index) => `    <item objectid="${index + 2}"/>`),
+    '  </build>',
+    '</model>',
+    ''
+  ].join('\n');
+}
+
+// Zip the model into a 3MF package. Uses no DOM APIs, so it can run in the
+// pipeline worker.
+export function create3MFData(
+  geometry: ShadowCasterGeometry,
+  config: ComputedImageConfig,
+  options: ThreeMFOptions
+): Uint8Array {
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES),
+    '_rels/.rels': strToU8(RELATIONSHIPS),
+    [MODEL_PATH]: strToU8(create3MFModelXml(geometry, config, options))
+  }, { level: 6 });
+}
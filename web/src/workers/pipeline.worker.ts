@@ -0,0 +1,25 @@
+import { resultTransferables, runPipelineJob } from '../utils/pipeline';
+import type { PipelineWorkerRequest, PipelineWorkerResponse } from '../utils/pipeline';
+
+// The DOM lib types `self` as a Window, so describe the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PipelineWorkerRequest>) => void) | null;
+  postMessage(message: PipelineWorkerResponse, transfer?: Transferable[]): void;
+};
+
+scope.onmessage = async (event) => {
+  const { id, job } = event.data;
+
+  try {
+    const result = await runPipelineJob(job, progress => {
+      scope.postMessage({ id, type: 'progress', progress });
+    });
+    scope.postMessage({ id, type: 'result', result }, resultTransferables(result));
+  } catch (error) {
+    scope.postMessage({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};